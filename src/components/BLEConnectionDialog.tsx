@@ -1,5 +1,27 @@
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
 import type { useBLE } from "@/hooks/useBLE";
+import type { useTransport } from "@/hooks/useTransport";
+import {
+  BLETransport,
+  bleLinkId,
+  SerialTransport,
+  SimulatorTransport,
+  WebSocketTransport,
+  requestSerialPort,
+  supportsWebSerial,
+  type IMUTransport,
+  type WebSocketFrameFormat,
+} from "@/lib/transports";
+import { unescapeDelimiter } from "@/lib/frameAssembler";
+import { RECORDING_ACCEPT, readRecordingFile } from "@/lib/import/file";
+import type { Recording } from "@/lib/import/recording";
+import {
+  findProfile,
+  matchProfile,
+  profileDecodeOptions,
+  profileUUIDs,
+  type DeviceProfile,
+} from "@/lib/deviceProfiles";
 import {
   Dialog,
   DialogContent,
@@ -9,105 +31,301 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DeviceConsole } from "@/components/DeviceConsole";
 
 type BLECtx = ReturnType<typeof useBLE>;
+type LinkCtx = ReturnType<typeof useTransport>;
+type LinkState = LinkCtx["links"][number];
+
+function LinkSummary({ link, onDisconnect }: { link: LinkState; onDisconnect: () => void }) {
+  const { transport, status, packetsReceived, lastPacketHex, frameStats, clock } = link;
+  const live = status === "connected" || status === "reconnecting";
+
+  return (
+    <div className="space-y-2 rounded border p-3">
+      <div className="text-xs text-muted-foreground">
+        <div><strong>Source:</strong> {transport.name} ({status})</div>
+        <div><strong>Packets received:</strong> {packetsReceived}</div>
+        {frameStats && (
+          <div>
+            <strong>Frames:</strong> {frameStats.frames} ({frameStats.truncated} truncated, {frameStats.overflowed} overflowed)
+          </div>
+        )}
+        {frameStats && (
+          <div>
+            <strong>Accepted:</strong> {frameStats.accepted}, <strong>rejected:</strong> {frameStats.rejected} (
+            {frameStats.checksumErrors} checksum, {frameStats.invalidFields} NaN/out of range)
+          </div>
+        )}
+        {frameStats && frameStats.dropped > 0 && (
+          <div>
+            <strong>Dropped:</strong> {frameStats.dropped} samples the display couldn't keep up with
+          </div>
+        )}
+        {frameStats && frameStats.lostBytes > 0 && (
+          <div>
+            <strong>Lost:</strong> {frameStats.lostBytes} bytes in the decode worker when it failed
+          </div>
+        )}
+        {clock && (
+          <div>
+            <strong>Device clock:</strong> drift {clock.driftPpm.toFixed(1)} ppm over {clock.windows} s
+          </div>
+        )}
+        {lastPacketHex && <div className="break-all"><strong>Last packet:</strong> {lastPacketHex}</div>}
+        <Button className="mt-2" size="sm" variant="ghost" onClick={onDisconnect}>Disconnect</Button>
+      </div>
+
+      {live && transport.commands && <DeviceConsole commands={transport.commands} />}
+    </div>
+  );
+}
 
 type Props = {
   open: boolean;
   onOpenChange: (v: boolean) => void;
   onConnect: (deviceName: string) => void;
+  // a recording file was read; the caller connects its devices and starts playback
+  onReplay: (recording: Recording) => Promise<void>;
   ble: BLECtx;
+  link: LinkCtx;
+  settings: {
+    samplingRate: number;
+    devicePort: string;
+    baudRate: number;
+    profiles: DeviceProfile[];
+    profileId: string;
+    frameDelimiter: string;
+    maxFrameLength: number;
+    websocketUrl: string;
+    websocketFormat: WebSocketFrameFormat;
+  };
 };
 
-export function BLEConnectionDialog({ open, onOpenChange, onConnect, ble }: Props) {
+export function BLEConnectionDialog({ open, onOpenChange, onConnect, onReplay, ble, link, settings }: Props) {
   const {
     devices,
     hasDevices,
     isScanning,
     scanError,
-    connectMessage,
-    connectedDevice,
     statusText,
-    supports,
     startScan,
     stopScan,
     chooseDevice,
-    connect,
-    disconnect,
-    validUUIDFound,
-    packetsReceived,
-    lastPacketHex,
   } = ble;
+  const { links, linksById, connectMessage, disconnect } = link;
+
+  const [serialError, setSerialError] = useState<string | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  // defaults to the profile selected in Settings; can be switched per connection
+  const [profileId, setProfileId] = useState(settings.profileId);
+  useEffect(() => setProfileId(settings.profileId), [settings.profileId]);
+  const profile = findProfile(settings.profiles, profileId);
+
+  const connectTransport = async (t: IMUTransport, p: DeviceProfile | null = null) => {
+    const ok = await link.connect(t, p);
+    if (ok) onConnect(t.name);
+  };
+
+  const decode = (p: DeviceProfile) =>
+    profileDecodeOptions(p, {
+      delimiter: unescapeDelimiter(settings.frameDelimiter),
+      maxFrameLength: settings.maxFrameLength,
+    });
+
+  const connectBLE = (device: BluetoothDevice, p: DeviceProfile) =>
+    connectTransport(new BLETransport(device, { decode: decode(p), uuids: profileUUIDs(p) }), p);
 
   const handleChoose = async () => {
-    const device = await chooseDevice();
-    if (device) {
-      const ok = await connect(device);
-      if (ok) onConnect(device.name ?? "Unknown");
-    }
+    const device = await chooseDevice(profile);
+    if (device) await connectBLE(device, profile);
   };
 
+  // scanned devices pick their profile by name, falling back to the selected one
   const handleConnectFromList = async (id: string) => {
     const d = devices.find((x) => x.id === id)?.device;
-    if (d) {
-      const ok = await connect(d);
-      if (ok) onConnect(d.name ?? "Unknown");
+    if (d) await connectBLE(d, matchProfile(settings.profiles, d.name) ?? profile);
+  };
+
+  const handleChoosePort = async () => {
+    setSerialError(null);
+    try {
+      const port = await requestSerialPort(settings.devicePort);
+      if (port) {
+        await connectTransport(
+          new SerialTransport(port, {
+            baudRate: settings.baudRate,
+            devicePort: settings.devicePort,
+            decode: decode(profile),
+          }),
+          profile
+        );
+      }
+    } catch (e) {
+      setSerialError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleWebSocket = () =>
+    connectTransport(
+      new WebSocketTransport({ url: settings.websocketUrl, format: settings.websocketFormat, decode: decode(profile) }),
+      profile
+    );
+
+  const handleSimulate = () =>
+    connectTransport(new SimulatorTransport({ rateHz: settings.samplingRate, imuCount: profile.imuCount }), profile);
+
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReplayError(null);
+    try {
+      await onReplay(await readRecordingFile(file));
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : String(e));
     }
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-xl">
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Connect to a BLE Device</DialogTitle>
+          <DialogTitle>Connect to a Device</DialogTitle>
           <DialogDescription>
-            Validate BLE service and characteristic, then receive live packets.
+            Pick one or more data sources, then receive live packets.
           </DialogDescription>
         </DialogHeader>
 
-        {scanError && <p className="text-sm text-red-600">{scanError}</p>}
         {connectMessage && <p className="text-sm">{connectMessage}</p>}
-        {statusText && <p className="text-xs text-muted-foreground">{statusText}</p>}
-
-        {validUUIDFound && (
-          <div className="mt-2 text-xs text-muted-foreground">
-            <div><strong>Packets received:</strong> {packetsReceived}</div>
-            {lastPacketHex && <div className="break-all"><strong>Last packet:</strong> {lastPacketHex}</div>}
-          </div>
-        )}
 
-        <div className="flex gap-2 mt-3">
-          {isScanning ? (
-            <Button variant="secondary" onClick={stopScan}>Stop scan</Button>
-          ) : (
-            <Button onClick={startScan}>Scan nearby</Button>
-          )}
-          <Button variant="outline" onClick={handleChoose}>Choose device</Button>
-          {connectedDevice && <Button variant="ghost" onClick={disconnect}>Disconnect</Button>}
-        </div>
+        {links.map((l) => (
+          <LinkSummary key={l.transport.id} link={l} onDisconnect={() => disconnect(l.transport.id)} />
+        ))}
 
-        <div className="mt-4 max-h-64 overflow-auto border rounded">
-          {!hasDevices ? (
-            <div className="p-3 text-sm text-muted-foreground">No devices. Click Scan or Choose.</div>
-          ) : (
-            <ul className="divide-y">
-              {devices.map((d) => (
-                <li key={d.id} className="p-3 flex justify-between">
-                  <div>
-                    <div className="font-medium">{d.name}</div>
-                    <div className="text-xs text-muted-foreground">{new Date(d.lastSeen).toLocaleTimeString()}</div>
-                  </div>
-                  <Button size="sm" onClick={() => handleConnectFromList(d.id)}>Connect</Button>
-                </li>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Profile</span>
+          <Select value={profile.id} onValueChange={setProfileId}>
+            <SelectTrigger className="h-8 w-auto">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {settings.profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
               ))}
-            </ul>
-          )}
+            </SelectContent>
+          </Select>
         </div>
 
+        <Tabs defaultValue="ble">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="ble">Bluetooth</TabsTrigger>
+            <TabsTrigger value="serial">Serial</TabsTrigger>
+            <TabsTrigger value="websocket">WebSocket</TabsTrigger>
+            <TabsTrigger value="simulator">Simulator</TabsTrigger>
+            <TabsTrigger value="replay">Replay</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="ble">
+            {scanError && <p className="text-sm text-red-600">{scanError}</p>}
+            {statusText && <p className="text-xs text-muted-foreground">{statusText}</p>}
+
+            <div className="flex gap-2 mt-3">
+              {isScanning ? (
+                <Button variant="secondary" onClick={stopScan}>Stop scan</Button>
+              ) : (
+                <Button onClick={startScan}>Scan nearby</Button>
+              )}
+              <Button variant="outline" onClick={handleChoose}>Choose device</Button>
+            </div>
+
+            <div className="mt-4 max-h-64 overflow-auto border rounded">
+              {!hasDevices ? (
+                <div className="p-3 text-sm text-muted-foreground">No devices. Click Scan or Choose.</div>
+              ) : (
+                <ul className="divide-y">
+                  {devices.map((d) => (
+                    <li key={d.id} className="p-3 flex justify-between">
+                      <div>
+                        <div className="font-medium">{d.name}</div>
+                        <div className="text-xs text-muted-foreground">{new Date(d.lastSeen).toLocaleTimeString()}</div>
+                      </div>
+                      {linksById[bleLinkId(d.id)] ? (
+                        <Button size="sm" variant="secondary" disabled>Connected</Button>
+                      ) : (
+                        <Button size="sm" onClick={() => handleConnectFromList(d.id)}>Connect</Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="serial">
+            {serialError && <p className="text-sm text-red-600">{serialError}</p>}
+            <p className="text-xs text-muted-foreground">
+              Port: {settings.devicePort || "any"} @ {settings.baudRate} baud (change in Settings)
+            </p>
+            {!supportsWebSerial() && (
+              <p className="text-xs text-muted-foreground">
+                This browser does not support Web Serial. Try Chrome or Edge over HTTPS (or localhost).
+              </p>
+            )}
+
+            <div className="flex gap-2 mt-3">
+              <Button variant="outline" onClick={handleChoosePort}>Choose port</Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="websocket">
+            <p className="text-xs text-muted-foreground">
+              Bridge: {settings.websocketUrl} ({settings.websocketFormat} frames, change in Settings)
+            </p>
+
+            <div className="flex gap-2 mt-3">
+              <Button variant="outline" onClick={handleWebSocket}>Connect</Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="simulator">
+            <p className="text-xs text-muted-foreground">
+              Generates random-walk data for {profile.imuCount} IMUs at {settings.samplingRate} Hz. Useful without hardware.
+            </p>
+
+            <div className="flex gap-2 mt-3">
+              <Button variant="outline" onClick={handleSimulate}>Start simulator</Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="replay">
+            {replayError && <p className="text-sm text-red-600">{replayError}</p>}
+            <p className="text-xs text-muted-foreground">
+              Plays back an exported CSV (wide or long), a JSON Lines file (one sample per line with a time) or a
+              session bundle (.imusession) as if the devices were live.
+            </p>
+
+            <div className="flex gap-2 mt-3">
+              <input
+                ref={fileInput}
+                type="file"
+                accept={RECORDING_ACCEPT}
+                className="hidden"
+                onChange={(e) => {
+                  handleReplayFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+              <Button variant="outline" onClick={() => fileInput.current?.click()}>Open recording…</Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+
         <DialogFooter>
           <Button variant="secondary" onClick={() => onOpenChange(false)}>Close</Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
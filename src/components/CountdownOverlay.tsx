@@ -0,0 +1,18 @@
+import type { TrialState } from "@/lib/trialRunner";
+
+interface CountdownOverlayProps {
+  state: TrialState;
+  remainingMs: number;
+}
+
+// Full-screen 3-2-1 before a timed recording; clicks go through to the Stop button
+export const CountdownOverlay = ({ state, remainingMs }: CountdownOverlayProps) => (
+  <div className="fixed inset-0 z-40 flex flex-col items-center justify-center bg-background/60 pointer-events-none">
+    <span key={Math.ceil(remainingMs / 1000)} className="text-[12rem] leading-none font-bold text-primary tabular-nums animate-in zoom-in-50 fade-in">
+      {Math.max(Math.ceil(remainingMs / 1000), 1)}
+    </span>
+    <span className="mt-4 text-lg text-muted-foreground">
+      {state.trials > 1 ? `Trial ${state.trial} of ${state.trials}` : "Recording starts"}
+    </span>
+  </div>
+);
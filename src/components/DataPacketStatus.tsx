@@ -1,8 +1,12 @@
 import { Card } from "@/components/ui/card";
-import { Activity, Clock, Database } from "lucide-react";
+import { Activity, Clock, Database, ShieldCheck, Unplug } from "lucide-react";
+import type { LossStats } from "@/lib/sequenceTracker";
 
 interface DataPacketStatusProps {
   packetsReceived: number;
+  framesAccepted?: number;
+  framesRejected?: number;
+  loss?: LossStats;
   dataRate: number;
   lastPacketTime: string;
   imuId: number;
@@ -16,6 +20,9 @@ interface DataPacketStatusProps {
 
 export const DataPacketStatus = ({ 
   packetsReceived, 
+  framesAccepted,
+  framesRejected,
+  loss,
   dataRate, 
   lastPacketTime,
   imuId,
@@ -30,7 +37,29 @@ export const DataPacketStatus = ({
             <span className="text-muted-foreground">IMU {imuId}:</span>
             <span className="font-mono font-semibold text-foreground">{packetsReceived} packets</span>
           </div>
+
+          {framesAccepted !== undefined && (
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4 text-primary" />
+              <span className="text-muted-foreground">Frames:</span>
+              <span className="font-mono font-semibold text-foreground">{framesAccepted} ok</span>
+              <span className={`font-mono font-semibold ${framesRejected ? "text-destructive" : "text-muted-foreground"}`}>
+                {framesRejected ?? 0} rejected
+              </span>
+            </div>
+          )}
           
+          {loss && (
+            <div className="flex items-center gap-2">
+              <Unplug className="w-4 h-4 text-destructive" />
+              <span className="text-muted-foreground">Loss:</span>
+              <span className="font-mono font-semibold text-foreground">{loss.lossPercent.toFixed(2)}%</span>
+              <span className="font-mono text-muted-foreground">
+                ({loss.lost} lost, {loss.bursts} bursts, max {loss.maxBurst}, last {loss.lastBurst})
+              </span>
+            </div>
+          )}
+
           <div className="flex items-center gap-2">
             <Activity className="w-4 h-4 text-accent" />
             <span className="text-muted-foreground">Rate:</span>
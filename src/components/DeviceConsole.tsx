@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { parseKeyValues, type CommandChannel, type ConsoleEntry, type IMUCommand } from "@/lib/commands";
+
+interface DeviceConsoleProps {
+  commands: CommandChannel;
+  imuCount?: number;
+}
+
+const directionClass: Record<ConsoleEntry["direction"], string> = {
+  tx: "text-primary",
+  rx: "text-foreground",
+  info: "text-muted-foreground",
+  error: "text-destructive",
+};
+
+const directionMark: Record<ConsoleEntry["direction"], string> = {
+  tx: "→",
+  rx: "←",
+  info: "·",
+  error: "!",
+};
+
+export const DeviceConsole = ({ commands, imuCount = 6 }: DeviceConsoleProps) => {
+  const [log, setLog] = useState<ConsoleEntry[]>([]);
+  const [rate, setRate] = useState("100");
+  const [enabled, setEnabled] = useState(() => Array.from({ length: imuCount }, (_, i) => i).join(","));
+  const [raw, setRaw] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [identity, setIdentity] = useState<Record<string, string> | null>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => commands.subscribe(setLog), [commands]);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [log]);
+
+  const run = async (cmd: IMUCommand) => {
+    setBusy(true);
+    try {
+      const res = await commands.send(cmd);
+      if (cmd.type === "identify") setIdentity(parseKeyValues(res.payload));
+    } catch {
+      // logged by the channel
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const enabledIds = enabled
+    .split(",")
+    .map((v) => parseInt(v.trim(), 10))
+    .filter((n) => Number.isInteger(n) && n >= 0);
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" disabled={busy} onClick={() => run({ type: "start" })}>Start</Button>
+        <Button size="sm" variant="outline" disabled={busy} onClick={() => run({ type: "stop" })}>Stop</Button>
+        <Button size="sm" variant="outline" disabled={busy} onClick={() => run({ type: "identify" })}>Identify</Button>
+      </div>
+
+      <div className="flex gap-2">
+        <Input className="h-8 w-24" type="number" min="1" value={rate} onChange={(e) => setRate(e.target.value)} />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={busy || !(parseInt(rate, 10) > 0)}
+          onClick={() => run({ type: "setRate", hz: parseInt(rate, 10) })}
+        >
+          Set rate (Hz)
+        </Button>
+        <Input className="h-8 w-32" value={enabled} onChange={(e) => setEnabled(e.target.value)} placeholder="0,1,2" />
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={busy || enabledIds.length === 0}
+          onClick={() => run({ type: "enableIMUs", imuIds: enabledIds })}
+        >
+          Enable IMUs
+        </Button>
+      </div>
+
+      {identity && (
+        <div className="text-muted-foreground">
+          {Object.entries(identity).map(([k, v]) => (
+            <span key={k} className="mr-3">
+              <strong>{k}:</strong> {v}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div ref={logRef} className="h-32 overflow-auto rounded border bg-muted/30 p-2 font-mono">
+        {log.length === 0 ? (
+          <div className="text-muted-foreground">No traffic yet.</div>
+        ) : (
+          log.map((e, i) => (
+            <div key={i} className={directionClass[e.direction]}>
+              {directionMark[e.direction]} {e.text}
+            </div>
+          ))
+        )}
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!raw.trim()) return;
+          run({ type: "raw", text: raw });
+          setRaw("");
+        }}
+      >
+        <Input className="h-8 font-mono" value={raw} onChange={(e) => setRaw(e.target.value)} placeholder="Raw command, e.g. ODR 200" />
+        <Button size="sm" type="submit" disabled={busy}>Send</Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,316 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  BUILT_IN_PROFILES,
+  copyProfile,
+  deviceProfileSchema,
+  findProfile,
+  profileLimits,
+  type DeviceProfile,
+} from "@/lib/deviceProfiles";
+import { STANDARD_LAYOUT, parseFrameLayout, type FrameLayout } from "@/lib/frameLayout";
+
+interface DeviceProfileEditorProps {
+  profiles: DeviceProfile[];
+  selectedId: string;
+  onChange: (profiles: DeviceProfile[], selectedId: string) => void;
+}
+
+type UuidField = "serviceUuid" | "notifyUuid" | "writeUuid";
+
+const uuidError = (field: UuidField, value: string | undefined) => {
+  if (field === "writeUuid" && !value) return null;
+  const res = deviceProfileSchema.shape[field].safeParse(value);
+  return res.success ? null : res.error.issues[0]?.message;
+};
+
+export const DeviceProfileEditor = ({ profiles, selectedId, onChange }: DeviceProfileEditorProps) => {
+  const profile = findProfile(profiles, selectedId);
+  // edited as text so a trailing comma survives typing; committed on blur
+  const [prefixes, setPrefixes] = useState(profile.namePrefixes.join(", "));
+  useEffect(() => setPrefixes(profile.namePrefixes.join(", ")), [profile.id, profile.namePrefixes]);
+  // the layout is kept as JSON text until it validates; only outside changes reformat it
+  const [layoutText, setLayoutText] = useState("");
+  const [layoutError, setLayoutError] = useState<string | null>(null);
+  const committedLayout = useRef<FrameLayout | undefined>();
+  useEffect(() => {
+    if (profile.layout === committedLayout.current) return;
+    setLayoutText(profile.layout ? JSON.stringify(profile.layout, null, 2) : "");
+    setLayoutError(null);
+  }, [profile.layout]);
+
+  const limits = profileLimits(profile);
+
+  const update = (patch: Partial<DeviceProfile>) =>
+    onChange(
+      profiles.map((p) => (p.id === profile.id ? { ...p, ...patch } : p)),
+      profile.id
+    );
+
+  const handleDuplicate = () => {
+    const copy = copyProfile(profile);
+    onChange([...profiles, copy], copy.id);
+  };
+
+  const handleDelete = () => {
+    const rest = profiles.filter((p) => p.id !== profile.id);
+    onChange(rest, rest[0]?.id ?? BUILT_IN_PROFILES[0].id);
+  };
+
+  const handleReset = () => {
+    const original = BUILT_IN_PROFILES.find((b) => b.id === profile.id);
+    if (original) update({ limits: undefined, ...original });
+  };
+
+  const handleLayoutText = (text: string) => {
+    setLayoutText(text);
+    const { layout, error } = parseFrameLayout(text);
+    setLayoutError(error);
+    if (!layout) return;
+    committedLayout.current = layout;
+    update({ layout });
+  };
+
+  const uuidInput = (field: UuidField, label: string, placeholder?: string) => {
+    const error = uuidError(field, profile[field]);
+    return (
+      <div className="grid gap-2">
+        <Label htmlFor={`profile-${field}`}>{label}</Label>
+        <Input
+          id={`profile-${field}`}
+          className="font-mono text-xs"
+          value={profile[field] ?? ""}
+          placeholder={placeholder}
+          onChange={(e) => update({ [field]: e.target.value.trim() || undefined })}
+        />
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2">
+        <Label htmlFor="device-profile">Device Profile</Label>
+        <div className="flex gap-2">
+          <Select value={profile.id} onValueChange={(id) => onChange(profiles, id)}>
+            <SelectTrigger id="device-profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleDuplicate}>Duplicate</Button>
+          {profile.builtIn ? (
+            <Button variant="outline" size="sm" onClick={handleReset}>Reset</Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={handleDelete}>Delete</Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          One profile per firmware family. The selected profile is the default when connecting
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="profile-name">Name</Label>
+          <Input id="profile-name" value={profile.name} onChange={(e) => update({ name: e.target.value })} />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="profile-prefixes">Name Filters</Label>
+          <Input
+            id="profile-prefixes"
+            value={prefixes}
+            placeholder="any"
+            onChange={(e) => setPrefixes(e.target.value)}
+            onBlur={() =>
+              update({ namePrefixes: prefixes.split(",").map((p) => p.trim()).filter(Boolean) })
+            }
+          />
+        </div>
+        <p className="col-span-2 text-xs text-muted-foreground">
+          Comma-separated advertised-name prefixes for the Bluetooth picker. Leave empty to match by service
+        </p>
+      </div>
+
+      {uuidInput("serviceUuid", "Service UUID")}
+      {uuidInput("notifyUuid", "Notify Characteristic UUID")}
+      {uuidInput("writeUuid", "Write Characteristic UUID", "none (receive-only)")}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="grid gap-2">
+          <Label htmlFor="frame-format">Frame Format</Label>
+          <Select
+            value={profile.frameFormat}
+            onValueChange={(value) => update({ frameFormat: value as DeviceProfile["frameFormat"] })}
+          >
+            <SelectTrigger id="frame-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="csv">CSV (ASCII)</SelectItem>
+              <SelectItem value="binary">Binary (float32 / int16)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="checksum">Checksum</Label>
+          <Select
+            value={profile.checksum}
+            onValueChange={(value) => update({ checksum: value as DeviceProfile["checksum"] })}
+          >
+            <SelectTrigger id="checksum">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="crc8">CRC-8</SelectItem>
+              <SelectItem value="crc16">CRC-16</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="col-span-2 text-xs text-muted-foreground">
+          How the device encodes BLE and serial packets. Checksums are a per-frame trailer ("*XX" after CSV
+          values, trailing bytes after binary records); bad frames are dropped
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="grid gap-1">
+          <Label htmlFor="sequence-counter">Sequence Counter</Label>
+          <p className="text-xs text-muted-foreground">
+            CSV frames start with a frame counter, used to detect dropped packets per IMU
+          </p>
+        </div>
+        <Switch
+          id="sequence-counter"
+          checked={profile.sequence}
+          onCheckedChange={(checked) => update({ sequence: checked })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="grid gap-1">
+          <Label htmlFor="device-timestamp">Device Timestamp</Label>
+          <p className="text-xs text-muted-foreground">
+            CSV frames carry a µs timestamp (after the counter), aligned to the host clock for charts and exports
+          </p>
+        </div>
+        <Switch
+          id="device-timestamp"
+          checked={profile.timestamp}
+          onCheckedChange={(checked) => update({ timestamp: checked })}
+        />
+      </div>
+
+      {profile.frameFormat === "binary" && (
+        <div className="grid grid-cols-4 gap-2">
+          {(["accel", "gyro", "mag", "quat"] as const).map((k) => (
+            <div key={k} className="grid gap-1">
+              <Label htmlFor={`scale-${k}`} className="text-xs">{k} LSB</Label>
+              <Input
+                id={`scale-${k}`}
+                type="number"
+                step="any"
+                value={profile.scales[k]}
+                onChange={(e) => update({ scales: { ...profile.scales, [k]: parseFloat(e.target.value) || 0 } })}
+              />
+            </div>
+          ))}
+          <p className="col-span-4 text-xs text-muted-foreground">Value of one count in int16 records</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-4">
+        <div className="grid gap-1">
+          <Label htmlFor="custom-layout">Custom Frame Layout</Label>
+          <p className="text-xs text-muted-foreground">
+            Declare field order, types, scales and units for firmware that sends more (or other) fields.
+            Unknown fields are charted as extra channels
+          </p>
+        </div>
+        <Switch
+          id="custom-layout"
+          checked={!!profile.layout}
+          onCheckedChange={(checked) => update({ layout: checked ? STANDARD_LAYOUT : undefined })}
+        />
+      </div>
+
+      {profile.layout && (
+        <div className="grid gap-2">
+          <Textarea
+            className="font-mono text-xs min-h-[160px]"
+            value={layoutText}
+            onChange={(e) => handleLayoutText(e.target.value)}
+            spellCheck={false}
+          />
+          {layoutError ? (
+            <p className="text-xs text-red-600">{layoutError}</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {'{ "header": [{ "name": "seq" }], "record": [{ "name": "imuId", "type": "u8" }, …, { "name": "temp", "type": "i16", "scale": 0.01, "unit": "°C" }], "magic": 160 }'}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-4 gap-2">
+        {(["accel", "gyro", "mag"] as const).map((k) => (
+          <div key={k} className="grid gap-1">
+            <Label htmlFor={`unit-${k}`} className="text-xs">{k} unit</Label>
+            <Input
+              id={`unit-${k}`}
+              value={profile.units[k]}
+              onChange={(e) => update({ units: { ...profile.units, [k]: e.target.value } })}
+            />
+          </div>
+        ))}
+        <div className="grid gap-1">
+          <Label htmlFor="imu-count" className="text-xs">IMUs</Label>
+          <Input
+            id="imu-count"
+            type="number"
+            min="1"
+            max="255"
+            value={profile.imuCount}
+            onChange={(e) => update({ imuCount: parseInt(e.target.value) || 1 })}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {(["accel", "gyro", "mag"] as const).map((k) => (
+          <div key={k} className="grid gap-1">
+            <Label htmlFor={`limit-${k}`} className="text-xs">{k} limit (±{profile.units[k]})</Label>
+            <Input
+              id={`limit-${k}`}
+              type="number"
+              min="0"
+              step="any"
+              value={+limits[k].toPrecision(6)}
+              onChange={(e) => update({ limits: { ...limits, [k]: parseFloat(e.target.value) || 0 } })}
+            />
+          </div>
+        ))}
+        <div className="grid gap-1 content-end">
+          <Button variant="outline" size="sm" onClick={() => update({ limits: undefined })} disabled={!profile.limits}>
+            From units
+          </Button>
+        </div>
+        <p className="col-span-4 text-xs text-muted-foreground">
+          Frames with a value beyond these are dropped as corrupt. By default ±16 g, ±2000 °/s and ±5 mT in the
+          units above
+        </p>
+      </div>
+    </div>
+  );
+};
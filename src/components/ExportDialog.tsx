@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { listSessions, type SessionMeta } from "@/lib/sessionDb";
+import {
+  CHANNEL_GROUPS,
+  fileBaseName,
+  sessionExportSource,
+  type ChannelGroup,
+  type ExportSource,
+} from "@/lib/export/source";
+import type { CsvLayout } from "@/lib/export/csv";
+import { EXPORT_FORMATS, writeExport, type ExportFormat } from "@/lib/export/formats";
+import { ExportCancelled, saveExport } from "@/lib/export/download";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // snapshot of what the dashboard holds right now; null when there is nothing
+  liveSource: () => ExportSource | null;
+  // the span selected on the timeline, when a recording is loaded
+  rangeSource: { label: string; source: () => ExportSource } | null;
+  onStatus: (message: string) => void;
+}
+
+const LIVE = "live";
+const RANGE = "range";
+
+const toggle = <T,>(list: T[], item: T, on: boolean) => (on ? [...list, item] : list.filter((x) => x !== item));
+
+export const ExportDialog = ({ open, onOpenChange, liveSource, rangeSource, onStatus }: ExportDialogProps) => {
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [sourceId, setSourceId] = useState(LIVE);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [layout, setLayout] = useState<CsvLayout>("wide");
+  const [streams, setStreams] = useState<string[]>([]);
+  const [groups, setGroups] = useState<ChannelGroup[]>(["accel", "gyro", "mag", "quat"]);
+  const [extras, setExtras] = useState<string[]>([]);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    // a range selected on the timeline is what the user most likely wants
+    setSourceId(rangeSource ? RANGE : LIVE);
+    listSessions()
+      .then((list) => setSessions(list.filter((s) => s.status !== "recording")))
+      .catch(() => setSessions([]));
+  }, [open, rangeSource]);
+
+  // the live buffer is snapshotted when the dialog opens, not on every batch
+  const live = useMemo(() => (open ? liveSource() : null), [open, liveSource]);
+  const source = useMemo(() => {
+    if (sourceId === LIVE) return live;
+    if (sourceId === RANGE) return rangeSource?.source() ?? null;
+    const meta = sessions.find((s) => s.id === sourceId);
+    return meta ? sessionExportSource(meta) : null;
+  }, [sourceId, live, rangeSource, sessions]);
+
+  const extraNames = useMemo(
+    () => [...new Set(source?.streams.flatMap((s) => s.extras.map((e) => e.name)) ?? [])],
+    [source]
+  );
+
+  // everything selected whenever the source changes
+  useEffect(() => {
+    setStreams(source?.streams.map((s) => s.key) ?? []);
+    setExtras(extraNames);
+  }, [source, extraNames]);
+
+  const channels = [...groups.flatMap((g) => CHANNEL_GROUPS[g]), ...extras];
+  // CSV picks channels; the other formats always carry every channel
+  const perChannel = format === "csv";
+  const canExport = !!source && streams.length > 0 && (!perChannel || channels.length > 0) && progress === null;
+
+  const handleExport = async () => {
+    if (!source) return;
+    setProgress(0);
+    const { extension, mime } = EXPORT_FORMATS[format];
+    const filename = `${fileBaseName(source.name)}.${extension}`;
+    try {
+      await saveExport(filename, mime, extension, (sink) =>
+        writeExport(format, source, { streams, layout, channels, onProgress: setProgress }, sink)
+      );
+      onStatus(`Export finished - ${filename}`);
+      onOpenChange(false);
+    } catch (e) {
+      if (!(e instanceof ExportCancelled)) onStatus(`Export failed - ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export</DialogTitle>
+          <DialogDescription>Write the live buffer or a recorded session to a file</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="export-source">Source</Label>
+            <Select value={sourceId} onValueChange={setSourceId}>
+              <SelectTrigger id="export-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {rangeSource && <SelectItem value={RANGE}>{rangeSource.label}</SelectItem>}
+                <SelectItem value={LIVE}>Live buffer{live ? "" : " (empty)"}</SelectItem>
+                {sessions.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name} · {s.sampleCount.toLocaleString()} samples
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                  <SelectItem key={f} value={f}>{EXPORT_FORMATS[f].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {format === "mcap" && (
+              <p className="text-xs text-muted-foreground">
+                One /imu/&lt;device&gt;/&lt;n&gt; channel per IMU, JSON messages (imu_monitor.ImuSample), units in
+                channel metadata
+              </p>
+            )}
+            {(format === "mat" || format === "npz") && (
+              <p className="text-xs text-muted-foreground">
+                Per IMU: time, accel, gyro, mag (N×3) and quat (N×4) matrices, plus a metadata
+                {format === "mat" ? " struct" : " JSON entry"} with units and sample rates
+              </p>
+            )}
+            {format === "bundle" && (
+              <p className="text-xs text-muted-foreground">
+                Every sample and device profile, lossless. Open it again from Connect → Replay
+              </p>
+            )}
+          </div>
+
+          {perChannel && (
+            <div className="grid gap-2">
+              <Label>CSV Layout</Label>
+              <RadioGroup value={layout} onValueChange={(v) => setLayout(v as CsvLayout)} className="flex gap-6">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="wide" id="layout-wide" />
+                  <Label htmlFor="layout-wide" className="font-normal">Wide</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="long" id="layout-long" />
+                  <Label htmlFor="layout-long" className="font-normal">Long</Label>
+                </div>
+              </RadioGroup>
+              <p className="text-xs text-muted-foreground">
+                Wide: one row per timestamp with a column block per IMU. Long: one row per sample
+              </p>
+            </div>
+          )}
+
+          <div className="grid gap-2">
+            <Label>IMUs</Label>
+            {source && source.streams.length > 0 ? (
+              <div className="grid grid-cols-2 gap-2">
+                {source.streams.map((s) => (
+                  <div key={s.key} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-${s.key}`}
+                      checked={streams.includes(s.key)}
+                      onCheckedChange={(on) => setStreams((prev) => toggle(prev, s.key, on === true))}
+                    />
+                    <Label htmlFor={`export-${s.key}`} className="font-normal">{s.label}</Label>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">Nothing to export yet</p>
+            )}
+          </div>
+
+          {perChannel && (
+            <div className="grid gap-2">
+              <Label>Channels</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {(Object.keys(CHANNEL_GROUPS) as ChannelGroup[]).map((g) => (
+                  <div key={g} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-${g}`}
+                      checked={groups.includes(g)}
+                      onCheckedChange={(on) => setGroups((prev) => toggle(prev, g, on === true))}
+                    />
+                    <Label htmlFor={`export-${g}`} className="font-normal">{g}</Label>
+                  </div>
+                ))}
+                {extraNames.map((name) => (
+                  <div key={name} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`export-extra-${name}`}
+                      checked={extras.includes(name)}
+                      onCheckedChange={(on) => setExtras((prev) => toggle(prev, name, on === true))}
+                    />
+                    <Label htmlFor={`export-extra-${name}`} className="font-normal">{name}</Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              {progress !== null ? `Writing… ${progress.toLocaleString()} samples` : ""}
+            </p>
+            <Button onClick={handleExport} disabled={!canExport}>Export</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,5 +1,5 @@
 import { Button } from "@/components/ui/button";
-import { Circle, Download, Radio, Pause, Play, Trash2, Settings } from "lucide-react";
+import { Circle, Download, Library, Radio, Pause, Play, Trash2, Settings, Zap } from "lucide-react";
 import { ThemeToggle } from "./ThemeToggle";
 import {
   Select,
@@ -8,34 +8,65 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import type { TransportStatus } from "@/lib/transports";
+import type { TriggerState } from "@/lib/triggerRecorder";
+import { RecordOptions, type RecordSettings } from "./RecordOptions";
 
 interface HeaderProps {
   isConnected: boolean;
+  connectionStatus?: TransportStatus;
   isRecording: boolean;
+  // countdown, time left or rest of a timed recording
+  recordStatus: string | null;
+  recordSettings: RecordSettings;
+  onRecordSettingsChange: (patch: Partial<RecordSettings>) => void;
+  triggerState: TriggerState;
   isPaused: boolean;
-  selectedIMU: string;
-  onIMUChange: (imu: string) => void;
+  // one entry per (device, IMU) stream that has sent data
+  streams: { key: string; label: string }[];
+  selectedStream: string | null;
+  onStreamChange: (key: string) => void;
   onRecord: () => void;
+  onTrigger: () => void;
   onExport: () => void;
+  onSessions: () => void;
   onPause: () => void;
   onClear: () => void;
   onSettings: () => void;
   onConnectionClick: () => void;
 }
 
+const connectionLabel = (isConnected: boolean, status?: TransportStatus) => {
+  if (status === "reconnecting") return { text: "Reconnecting…", dot: "bg-yellow-500 animate-pulse" };
+  if (status === "lost") return { text: "Connection lost", dot: "bg-destructive" };
+  return isConnected
+    ? { text: "Connected", dot: "bg-accent animate-pulse" }
+    : { text: "Disconnected", dot: "bg-muted-foreground" };
+};
+
 export const Header = ({
   isConnected,
+  connectionStatus,
   isRecording,
+  recordStatus,
+  recordSettings,
+  onRecordSettingsChange,
+  triggerState,
   isPaused,
-  selectedIMU,
-  onIMUChange,
+  streams,
+  selectedStream,
+  onStreamChange,
   onRecord,
+  onTrigger,
   onExport,
+  onSessions,
   onPause,
   onClear,
   onSettings,
   onConnectionClick,
 }: HeaderProps) => {
+  const connection = connectionLabel(isConnected, connectionStatus);
+
   return (
     <header className="border-b border-border bg-card px-6 py-4">
       <div className="flex items-center justify-between">
@@ -45,30 +76,43 @@ export const Header = ({
           </div>
           <h1 className="text-xl font-bold text-foreground">IMU Monitor</h1>
 
-          <Select value={selectedIMU} onValueChange={onIMUChange}>
-            <SelectTrigger className="w-[130px]">
+          <Select value={selectedStream ?? undefined} onValueChange={onStreamChange} disabled={streams.length === 0}>
+            <SelectTrigger className="min-w-[130px] w-auto">
               <SelectValue placeholder="Select IMU" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="imu0">IMU 1</SelectItem>
-              <SelectItem value="imu1">IMU 2</SelectItem>
-              <SelectItem value="imu2">IMU 3</SelectItem>
-              <SelectItem value="imu3">IMU 4</SelectItem>
-              <SelectItem value="imu4">IMU 5</SelectItem>
-              <SelectItem value="imu5">IMU 6</SelectItem>
+              {streams.map((s) => (
+                <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
 
         <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <Button
+              variant={isRecording ? "destructive" : "default"}
+              size="sm"
+              onClick={onRecord}
+              className="gap-2"
+            >
+              <Circle className={`w-4 h-4 ${isRecording ? "fill-current" : ""}`} />
+              {isRecording ? "Stop" : "Record"}
+            </Button>
+            <RecordOptions settings={recordSettings} onChange={onRecordSettingsChange} disabled={isRecording} />
+          </div>
+          {recordStatus && (
+            <span className="text-sm font-mono tabular-nums text-destructive whitespace-nowrap">{recordStatus}</span>
+          )}
+
           <Button
-            variant={isRecording ? "destructive" : "default"}
+            variant={triggerState === "idle" ? "outline" : "default"}
             size="sm"
-            onClick={onRecord}
+            onClick={onTrigger}
             className="gap-2"
           >
-            <Circle className={`w-4 h-4 ${isRecording ? "fill-current" : ""}`} />
-            {isRecording ? "Stop" : "Record"}
+            <Zap className={`w-4 h-4 ${triggerState === "capturing" ? "fill-current animate-pulse" : ""}`} />
+            {triggerState === "idle" ? "Trigger" : triggerState === "armed" ? "Armed" : "Capturing"}
           </Button>
 
           <Button
@@ -91,6 +135,11 @@ export const Header = ({
             Export
           </Button>
 
+          <Button variant="outline" size="sm" onClick={onSessions} className="gap-2">
+            <Library className="w-4 h-4" />
+            Sessions
+          </Button>
+
           <Button variant="outline" size="sm" onClick={onSettings} className="gap-2">
             <Settings className="w-4 h-4" />
             Settings
@@ -102,14 +151,8 @@ export const Header = ({
             onClick={onConnectionClick}
             className="flex items-center gap-2 px-3 py-1.5 rounded-full bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors cursor-pointer"
           >
-            <div
-              className={`w-2 h-2 rounded-full ${
-                isConnected ? "bg-accent animate-pulse" : "bg-muted-foreground"
-              }`}
-            />
-            <span className="text-sm font-medium">
-              {isConnected ? "Connected" : "Disconnected"}
-            </span>
+            <div className={`w-2 h-2 rounded-full ${connection.dot}`} />
+            <span className="text-sm font-medium">{connection.text}</span>
           </button>
         </div>
       </div>
@@ -0,0 +1,150 @@
+import { useEffect, useRef, useState, type FormEvent, type KeyboardEvent } from "react";
+import { Flag, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { byMarkerTime, type EventMarker } from "@/lib/markers";
+import { formatTime } from "@/lib/sessionLibrary";
+
+interface MarkerBarProps {
+  // quick labels; number keys 1-9 add them
+  labels: string[];
+  markers: EventMarker[];
+  // epoch ms shown as 0:00.0
+  origin: number;
+  onAdd: (label: string) => void;
+  onChange: (markers: EventMarker[]) => void;
+  // jump to a marker, when reviewing a recording
+  onSeek?: (marker: EventMarker) => void;
+}
+
+// typing into a field never sets markers
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const blurOnEnter = (e: KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === "Enter") e.currentTarget.blur();
+};
+
+// Sets event markers with one click or keystroke and lists them for renaming, notes and removal
+export const MarkerBar = ({ labels, markers, origin, onAdd, onChange, onSeek }: MarkerBarProps) => {
+  const [custom, setCustom] = useState("");
+  const addRef = useRef({ labels, onAdd });
+  addRef.current = { labels, onAdd };
+
+  useEffect(() => {
+    const handleKey = (e: globalThis.KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      const label = /^[1-9]$/.test(e.key) ? addRef.current.labels[Number(e.key) - 1] : undefined;
+      if (!label) return;
+      e.preventDefault();
+      addRef.current.onAdd(label);
+    };
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, []);
+
+  const update = (id: string, patch: Partial<EventMarker>) =>
+    onChange(markers.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+
+  const handleCustom = (e: FormEvent) => {
+    e.preventDefault();
+    if (!custom.trim()) return;
+    onAdd(custom.trim());
+    setCustom("");
+  };
+
+  const sorted = [...markers].sort(byMarkerTime);
+
+  return (
+    <div className="flex items-center gap-2 border-b border-border bg-card px-6 py-2 text-sm overflow-x-auto">
+      <Flag className="w-4 h-4 text-primary shrink-0" />
+      <span className="text-muted-foreground shrink-0">Markers:</span>
+      {labels.map((label, i) => (
+        <Button
+          key={i}
+          variant="outline"
+          size="sm"
+          className="h-7 gap-2 shrink-0"
+          title={`Press ${i + 1}`}
+          onClick={() => onAdd(label)}
+        >
+          <kbd className="text-[10px] text-muted-foreground font-mono">{i + 1}</kbd>
+          {label}
+        </Button>
+      ))}
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 ml-auto shrink-0">
+            {markers.length} marker{markers.length === 1 ? "" : "s"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-96 space-y-3">
+          <form className="flex gap-2" onSubmit={handleCustom}>
+            <Input
+              className="h-8"
+              placeholder="Custom marker label"
+              value={custom}
+              onChange={(e) => setCustom(e.target.value)}
+            />
+            <Button type="submit" size="sm" className="h-8" disabled={!custom.trim()}>
+              Add
+            </Button>
+          </form>
+
+          {sorted.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No markers yet</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto space-y-2">
+              {sorted.map((m) => (
+                <div key={m.id} className="grid grid-cols-[auto_1fr_auto] gap-x-2 gap-y-1 items-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-1 font-mono text-xs"
+                    disabled={!onSeek}
+                    onClick={() => onSeek?.(m)}
+                  >
+                    {formatTime(m.time - origin)}
+                  </Button>
+                  <Input
+                    className="h-7 text-xs"
+                    defaultValue={m.label}
+                    aria-label="Marker label"
+                    onKeyDown={blurOnEnter}
+                    onBlur={(e) => {
+                      const label = e.target.value.trim();
+                      if (label && label !== m.label) update(m.id, { label });
+                    }}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    aria-label="Delete marker"
+                    onClick={() => onChange(markers.filter((x) => x.id !== m.id))}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                  <Input
+                    className="h-7 text-xs col-start-2"
+                    defaultValue={m.note ?? ""}
+                    placeholder="Note"
+                    aria-label="Marker note"
+                    onKeyDown={blurOnEnter}
+                    onBlur={(e) => {
+                      const note = e.target.value.trim();
+                      if (note !== (m.note ?? "")) update(m.id, { note: note || undefined });
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
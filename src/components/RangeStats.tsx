@@ -0,0 +1,58 @@
+import { Card } from "@/components/ui/card";
+import { Sigma } from "lucide-react";
+import type { ChannelStats } from "@/lib/channelStats";
+
+interface RangeStatsProps {
+  // what the numbers cover, e.g. "IMU 1 · 0:12.0 – 0:20.5"
+  title: string;
+  rows: { label: string; unit: string; stats: ChannelStats | null }[];
+}
+
+const fmt = (v: number) => (Math.abs(v) >= 1000 ? v.toFixed(0) : v.toPrecision(4));
+
+export const RangeStats = ({ title, rows }: RangeStatsProps) => (
+  <Card className="border-border bg-card/50 backdrop-blur-sm px-4 py-3">
+    <div className="flex items-center gap-2 text-sm mb-2">
+      <Sigma className="w-4 h-4 text-primary" />
+      <span className="text-muted-foreground">Statistics:</span>
+      <span className="font-semibold text-foreground">{title}</span>
+    </div>
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs font-mono">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal">channel</th>
+            <th className="text-right font-normal">mean</th>
+            <th className="text-right font-normal">std</th>
+            <th className="text-right font-normal">min</th>
+            <th className="text-right font-normal">max</th>
+            <th className="text-right font-normal">rms</th>
+            <th className="text-right font-normal">n</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ label, unit, stats }) => (
+            <tr key={label}>
+              <td className="text-muted-foreground">
+                {label}
+                {unit && ` (${unit})`}
+              </td>
+              {stats ? (
+                <>
+                  <td className="text-right">{fmt(stats.mean)}</td>
+                  <td className="text-right">{fmt(stats.std)}</td>
+                  <td className="text-right">{fmt(stats.min)}</td>
+                  <td className="text-right">{fmt(stats.max)}</td>
+                  <td className="text-right">{fmt(stats.rms)}</td>
+                  <td className="text-right">{stats.count}</td>
+                </>
+              ) : (
+                <td colSpan={6} className="text-right text-muted-foreground">no data</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </Card>
+);
@@ -0,0 +1,69 @@
+import type { ChangeEvent } from "react";
+import { ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+// seconds; 0 turns a step off
+export type RecordSettings = {
+  recordCountdown: number;
+  recordDuration: number;
+  recordTrials: number;
+  recordRest: number;
+};
+
+interface RecordOptionsProps {
+  settings: RecordSettings;
+  onChange: (patch: Partial<RecordSettings>) => void;
+  disabled: boolean;
+}
+
+const FIELDS: { key: keyof RecordSettings; label: string; min: number; help: string }[] = [
+  { key: "recordCountdown", label: "Countdown (s)", min: 0, help: "0: start at once" },
+  { key: "recordDuration", label: "Duration (s)", min: 0, help: "0: until stopped" },
+  { key: "recordTrials", label: "Trials", min: 1, help: "each saved as a session" },
+  { key: "recordRest", label: "Rest (s)", min: 0, help: "between trials" },
+];
+
+// How the Record button records: countdown, fixed length and repeated trials
+export const RecordOptions = ({ settings, onChange, disabled }: RecordOptionsProps) => {
+  const number = (key: keyof RecordSettings) => (e: ChangeEvent<HTMLInputElement>) => {
+    const v = parseFloat(e.target.value);
+    onChange({ [key]: Number.isNaN(v) ? 0 : v });
+  };
+  // trials need a duration to end on
+  const sequence = settings.recordDuration > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="px-2" disabled={disabled} aria-label="Recording options">
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72">
+        <div className="grid grid-cols-2 gap-3">
+          {FIELDS.map(({ key, label, min, help }) => (
+            <div key={key} className="grid gap-1">
+              <Label htmlFor={key} className="text-xs">{label}</Label>
+              <Input
+                id={key}
+                type="number"
+                min={min}
+                className="h-8"
+                value={settings[key]}
+                onChange={number(key)}
+                disabled={!sequence && (key === "recordTrials" || key === "recordRest")}
+              />
+              <span className="text-[11px] text-muted-foreground">{help}</span>
+            </div>
+          ))}
+        </div>
+        {!sequence && (
+          <p className="mt-3 text-xs text-muted-foreground">Set a duration to run several trials</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,51 @@
+import { Pause, Play, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { REPLAY_SPEEDS, type ReplayPlayer, type ReplayState } from "@/lib/transports";
+import { formatTime } from "@/lib/sessionLibrary";
+
+interface ReplayControlsProps {
+  player: ReplayPlayer;
+  state: ReplayState;
+}
+
+export const ReplayControls = ({ player, state }: ReplayControlsProps) => (
+  <div className="flex items-center gap-4 text-sm">
+    <Button
+      variant="outline"
+      size="sm"
+      className="gap-2"
+      onClick={() => (state.playing ? player.pause() : player.play())}
+    >
+      {state.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      {state.playing ? "Pause" : "Play"}
+    </Button>
+
+    <span className="text-muted-foreground truncate flex-1">{player.recording.name}</span>
+
+    <span className="font-mono text-xs tabular-nums whitespace-nowrap">
+      {formatTime(state.position)} / {formatTime(state.duration)}
+    </span>
+
+    <Select value={String(state.speed)} onValueChange={(v) => player.setSpeed(parseFloat(v))}>
+      <SelectTrigger className="h-8 w-[80px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {REPLAY_SPEEDS.map((s) => (
+          <SelectItem key={s} value={String(s)}>{s}×</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+
+    <Button
+      variant={state.loop ? "default" : "outline"}
+      size="sm"
+      className="gap-2"
+      onClick={() => player.setLoop(!state.loop)}
+    >
+      <Repeat className="w-4 h-4" />
+      Loop
+    </Button>
+  </div>
+);
@@ -1,13 +1,23 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+
+// Extra channels from a frame layout; names may contain dots, so values are looked up, not path-resolved
+type Series = { key: string; name: string };
+
+const SERIES_COLORS = [1, 2, 3, 4, 5].map((n) => `hsl(var(--chart-${n}))`);
 
 interface SensorChartProps {
   title: string;
-  data: Array<{ time: number; x: number; y: number; z: number; w?: number }>;
+  // null values mark a gap (dropped packets) so the line isn't drawn across it
+  data: Array<{ time: number; [channel: string]: number | null }>;
+  // draw these channels instead of x/y/z(/w)
+  series?: Series[];
   unit: string;
   color1?: string;
   color2?: string;
   color3?: string;
   showW?: boolean;
+  // event markers, at chart times (same scale as data[].time)
+  markers?: { id: string; time: number; label: string }[];
 }
 
 export const SensorChart = ({ 
@@ -17,7 +27,9 @@ export const SensorChart = ({
   color1 = "hsl(var(--chart-1))",
   color2 = "hsl(var(--chart-2))",
   color3 = "hsl(var(--chart-3))",
-  showW = false
+  showW = false,
+  series,
+  markers,
 }: SensorChartProps) => {
   return (
     <div className="bg-card rounded-lg border border-border p-4 h-full flex flex-col">
@@ -28,6 +40,9 @@ export const SensorChart = ({
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
             <XAxis 
               dataKey="time" 
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(t: number) => t.toFixed(1)}
               stroke="hsl(var(--muted-foreground))"
               tick={{ fontSize: 10 }}
             />
@@ -45,39 +60,64 @@ export const SensorChart = ({
               }}
             />
             <Legend wrapperStyle={{ fontSize: '11px' }} />
-            <Line 
-              type="monotone" 
-              dataKey="x" 
-              stroke={color1}
-              strokeWidth={2}
-              dot={false}
-              name="X"
-            />
-            <Line 
-              type="monotone" 
-              dataKey="y" 
-              stroke={color2}
-              strokeWidth={2}
-              dot={false}
-              name="Y"
-            />
-            <Line 
-              type="monotone" 
-              dataKey="z" 
-              stroke={color3}
-              strokeWidth={2}
-              dot={false}
-              name="Z"
-            />
-            {showW && (
-              <Line 
-                type="monotone" 
-                dataKey="w" 
-                stroke="hsl(var(--accent))"
-                strokeWidth={2}
-                dot={false}
-                name="W"
+            {markers?.map((m) => (
+              <ReferenceLine
+                key={m.id}
+                x={m.time}
+                stroke="hsl(var(--destructive))"
+                strokeDasharray="4 2"
+                label={{ value: m.label, position: 'insideTopLeft', fontSize: 10, fill: 'hsl(var(--foreground))' }}
               />
+            ))}
+            {series ? (
+              series.map((ch, i) => (
+                <Line
+                  key={ch.key}
+                  type="monotone"
+                  dataKey={(d) => d[ch.key]}
+                  stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  name={ch.name}
+                />
+              ))
+            ) : (
+              <>
+                <Line 
+                  type="monotone" 
+                  dataKey="x" 
+                  stroke={color1}
+                  strokeWidth={2}
+                  dot={false}
+                  name="X"
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="y" 
+                  stroke={color2}
+                  strokeWidth={2}
+                  dot={false}
+                  name="Y"
+                />
+                <Line 
+                  type="monotone" 
+                  dataKey="z" 
+                  stroke={color3}
+                  strokeWidth={2}
+                  dot={false}
+                  name="Z"
+                />
+                {showW && (
+                  <Line 
+                    type="monotone" 
+                    dataKey="w" 
+                    stroke="hsl(var(--accent))"
+                    strokeWidth={2}
+                    dot={false}
+                    name="W"
+                  />
+                )}
+              </>
             )}
           </LineChart>
         </ResponsiveContainer>
@@ -0,0 +1,139 @@
+import { useRef, type PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import type { ReplayPlayer, ReplayState } from "@/lib/transports";
+import type { EventMarker } from "@/lib/markers";
+import { formatTime } from "@/lib/sessionLibrary";
+import { ReplayControls } from "./ReplayControls";
+
+interface SessionTimelineProps {
+  player: ReplayPlayer;
+  state: ReplayState;
+  // per-bin min/max of the selected IMU's accel magnitude over the whole session
+  overview: { min: Float64Array; max: Float64Array } | null;
+  markers: EventMarker[];
+}
+
+type DragMode = "seek" | "range" | "start" | "end";
+
+// how close (px) to a range edge a press grabs the edge instead of seeking
+const EDGE_PX = 6;
+
+// The whole recording under the Header: drag to move the playhead, shift-drag to select a
+// range, drag a range edge to adjust it
+export const SessionTimeline = ({ player, state, overview, markers }: SessionTimelineProps) => {
+  const track = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ mode: DragMode; anchor: number } | null>(null);
+  const { duration, position, range } = state;
+  const percent = (ms: number) => `${(ms / Math.max(duration, 1)) * 100}%`;
+
+  const toPosition = (clientX: number) => {
+    const rect = track.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) * duration;
+  };
+
+  const update = (mode: DragMode, anchor: number, pos: number) => {
+    if (mode === "seek") player.seek(pos);
+    else if (mode === "range") player.setRange([anchor, pos]);
+    else if (range) player.setRange(mode === "start" ? [pos, range[1]] : [range[0], pos]);
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    const pos = toPosition(e.clientX);
+    const msPerPx = duration / (track.current?.clientWidth || 1);
+    let mode: DragMode = e.shiftKey ? "range" : "seek";
+    if (!e.shiftKey && range) {
+      if (Math.abs(pos - range[0]) <= EDGE_PX * msPerPx) mode = "start";
+      else if (Math.abs(pos - range[1]) <= EDGE_PX * msPerPx) mode = "end";
+    }
+    drag.current = { mode, anchor: pos };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    update(mode, pos, pos);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (drag.current) update(drag.current.mode, drag.current.anchor, toPosition(e.clientX));
+  };
+
+  const handlePointerUp = () => {
+    // a shift-click without dragging clears the range
+    const selected = player.state.range;
+    if (drag.current?.mode === "range" && selected && selected[1] - selected[0] <= 0) player.setRange(null);
+    drag.current = null;
+  };
+
+  const overviewPath = (() => {
+    if (!overview) return "";
+    const { min, max } = overview;
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (let i = 0; i < min.length; i++) {
+      if (Number.isNaN(min[i])) continue;
+      lo = Math.min(lo, min[i]);
+      hi = Math.max(hi, max[i]);
+    }
+    const span = hi - lo || 1;
+    const y = (v: number) => (100 - ((v - lo) / span) * 90 - 5).toFixed(1);
+    const parts: string[] = [];
+    for (let i = 0; i < min.length; i++) {
+      if (!Number.isNaN(min[i])) parts.push(`M${i + 0.5} ${y(max[i])}V${y(min[i])}`);
+    }
+    return parts.join("");
+  })();
+
+  return (
+    <div className="border-b border-border bg-card px-6 py-3 space-y-2">
+      <ReplayControls player={player} state={state} />
+
+      <div
+        ref={track}
+        className="relative h-12 rounded bg-secondary cursor-pointer select-none touch-none overflow-hidden"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        {overview && (
+          <svg
+            className="absolute inset-0 h-full w-full text-primary/50"
+            viewBox={`0 0 ${overview.min.length} 100`}
+            preserveAspectRatio="none"
+          >
+            <path d={overviewPath} stroke="currentColor" strokeWidth={1} vectorEffect="non-scaling-stroke" fill="none" />
+          </svg>
+        )}
+        {range && (
+          <div
+            className="absolute inset-y-0 bg-primary/20 border-x-2 border-primary"
+            style={{ left: percent(range[0]), width: percent(range[1] - range[0]) }}
+          />
+        )}
+        {markers.map((m) => (
+          <div
+            key={m.id}
+            title={`${m.label} · ${formatTime(m.time - player.startTime)}`}
+            className="absolute inset-y-0 border-l border-dashed border-foreground/60"
+            style={{ left: percent(m.time - player.startTime) }}
+          />
+        ))}
+        <div className="absolute inset-y-0 w-0.5 -ml-px bg-destructive" style={{ left: percent(position) }} />
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="font-mono">0:00.0</span>
+        {range ? (
+          <span className="flex items-center gap-2">
+            <span className="font-mono">
+              Range {formatTime(range[0])} – {formatTime(range[1])} ({((range[1] - range[0]) / 1000).toFixed(1)} s)
+            </span>
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => player.setRange(null)}>
+              Clear
+            </Button>
+          </span>
+        ) : (
+          <span>Shift-drag to select a range for statistics and export</span>
+        )}
+        <span className="font-mono">{formatTime(duration)}</span>
+      </div>
+    </div>
+  );
+};
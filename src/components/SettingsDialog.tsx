@@ -3,6 +3,8 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { DeviceProfileEditor } from "@/components/DeviceProfileEditor";
+import type { DeviceProfile } from "@/lib/deviceProfiles";
 
 interface SettingsDialogProps {
   open: boolean;
@@ -12,6 +14,13 @@ interface SettingsDialogProps {
     chartDuration: number;
     devicePort: string;
     baudRate: number;
+    profiles: DeviceProfile[];
+    profileId: string;
+    frameDelimiter: string;
+    maxFrameLength: number;
+    websocketUrl: string;
+    websocketFormat: string;
+    markerLabels: string;
   };
   onSettingsChange: (settings: any) => void;
 }
@@ -19,7 +28,7 @@ interface SettingsDialogProps {
 export const SettingsDialog = ({ open, onOpenChange, settings, onSettingsChange }: SettingsDialogProps) => {
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Settings</DialogTitle>
           <DialogDescription>
@@ -44,15 +53,44 @@ export const SettingsDialog = ({ open, onOpenChange, settings, onSettingsChange
               <p className="text-xs text-muted-foreground">Number of samples per second (1-1000 Hz)</p>
             </div>
             
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="frame-delimiter">Frame Delimiter</Label>
+                <Input
+                  id="frame-delimiter"
+                  value={settings.frameDelimiter}
+                  onChange={(e) => onSettingsChange({ ...settings, frameDelimiter: e.target.value })}
+                  placeholder="\n"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="max-frame-length">Max Frame Length (bytes)</Label>
+                <Input
+                  id="max-frame-length"
+                  type="number"
+                  value={settings.maxFrameLength}
+                  onChange={(e) => onSettingsChange({ ...settings, maxFrameLength: parseInt(e.target.value) })}
+                  min="16"
+                  max="65536"
+                />
+              </div>
+              <p className="col-span-2 text-xs text-muted-foreground">
+                CSV records are reassembled across packets up to the delimiter (escapes like \n, \r\n allowed).
+                Leave empty to treat every BLE notification as one frame
+              </p>
+            </div>
+
             <div className="grid gap-2">
               <Label htmlFor="device-port">Device Port</Label>
               <Input
                 id="device-port"
                 value={settings.devicePort}
                 onChange={(e) => onSettingsChange({ ...settings, devicePort: e.target.value })}
-                placeholder="/dev/ttyUSB0"
+                placeholder="/dev/ttyUSB0 or 0403:6001"
               />
-              <p className="text-xs text-muted-foreground">Serial port for IMU device</p>
+              <p className="text-xs text-muted-foreground">
+                Serial port for IMU device. Use a USB VID:PID (e.g. 0403:6001) to pick the port automatically
+              </p>
             </div>
             
             <div className="grid gap-2">
@@ -75,8 +113,49 @@ export const SettingsDialog = ({ open, onOpenChange, settings, onSettingsChange
               </Select>
               <p className="text-xs text-muted-foreground">Serial communication speed</p>
             </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="websocket-url">WebSocket URL</Label>
+              <Input
+                id="websocket-url"
+                value={settings.websocketUrl}
+                onChange={(e) => onSettingsChange({ ...settings, websocketUrl: e.target.value })}
+                placeholder="ws://localhost:8765"
+              />
+              <p className="text-xs text-muted-foreground">Local bridge process streaming IMU frames</p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="websocket-format">WebSocket Frame Format</Label>
+              <Select
+                value={settings.websocketFormat}
+                onValueChange={(value) => onSettingsChange({ ...settings, websocketFormat: value })}
+              >
+                <SelectTrigger id="websocket-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Auto-detect</SelectItem>
+                  <SelectItem value="csv">CSV (same as BLE)</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="binary">Binary</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">How the bridge encodes each message</p>
+            </div>
           </div>
           
+          <Separator />
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-foreground">Device Profiles</h3>
+            <DeviceProfileEditor
+              profiles={settings.profiles}
+              selectedId={settings.profileId}
+              onChange={(profiles, profileId) => onSettingsChange({ ...settings, profiles, profileId })}
+            />
+          </div>
+
           <Separator />
           
           <div className="space-y-4">
@@ -95,6 +174,25 @@ export const SettingsDialog = ({ open, onOpenChange, settings, onSettingsChange
               <p className="text-xs text-muted-foreground">Time window for chart display (1-60 seconds)</p>
             </div>
           </div>
+
+          <Separator />
+
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold text-foreground">Markers</h3>
+
+            <div className="grid gap-2">
+              <Label htmlFor="marker-labels">Marker Labels</Label>
+              <Input
+                id="marker-labels"
+                value={settings.markerLabels}
+                onChange={(e) => onSettingsChange({ ...settings, markerLabels: e.target.value })}
+                placeholder="Heel strike, Start task, Subject fell"
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated quick labels; keys 1-9 set the first nine while connected
+              </p>
+            </div>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,146 @@
+import type { ChangeEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TRIGGER_CHANNELS, type TriggerChannel, type TriggerState } from "@/lib/triggerRecorder";
+
+type TriggerSettings = {
+  triggerChannel: TriggerChannel;
+  triggerThreshold: number;
+  triggerPreSeconds: number;
+  triggerPostSeconds: number;
+};
+
+interface TriggerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: TriggerSettings;
+  onSettingsChange: (patch: Partial<TriggerSettings>) => void;
+  state: TriggerState;
+  // sessions saved since arming
+  captures: number;
+  canArm: boolean;
+  onArm: () => void;
+  onDisarm: () => void;
+}
+
+const STATE_TEXT: Record<TriggerState, string> = {
+  idle: "Not armed",
+  armed: "Armed - waiting for the condition",
+  capturing: "Triggered - capturing the post-trigger window",
+};
+
+export const TriggerDialog = ({
+  open,
+  onOpenChange,
+  settings,
+  onSettingsChange,
+  state,
+  captures,
+  canArm,
+  onArm,
+  onDisarm,
+}: TriggerDialogProps) => {
+  const armed = state !== "idle";
+  const { unit } = TRIGGER_CHANNELS[settings.triggerChannel];
+  const number = (key: keyof TriggerSettings) => (e: ChangeEvent<HTMLInputElement>) =>
+    onSettingsChange({ [key]: parseFloat(e.target.value) });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Triggered Recording</DialogTitle>
+          <DialogDescription>
+            Saves a session around every moment any IMU crosses the threshold, then re-arms
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="trigger-channel">Condition</Label>
+              <Select
+                value={settings.triggerChannel}
+                onValueChange={(value) => onSettingsChange({ triggerChannel: value as TriggerChannel })}
+                disabled={armed}
+              >
+                <SelectTrigger id="trigger-channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TRIGGER_CHANNELS).map(([key, c]) => (
+                    <SelectItem key={key} value={key}>{c.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="trigger-threshold">Above ({unit})</Label>
+              <Input
+                id="trigger-threshold"
+                type="number"
+                step="0.1"
+                min="0"
+                value={settings.triggerThreshold}
+                onChange={number("triggerThreshold")}
+                disabled={armed}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="trigger-pre">Pre-trigger (seconds)</Label>
+              <Input
+                id="trigger-pre"
+                type="number"
+                step="0.5"
+                min="0"
+                max="60"
+                value={settings.triggerPreSeconds}
+                onChange={number("triggerPreSeconds")}
+                disabled={armed}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="trigger-post">Post-trigger (seconds)</Label>
+              <Input
+                id="trigger-post"
+                type="number"
+                step="0.5"
+                min="0.5"
+                max="600"
+                value={settings.triggerPostSeconds}
+                onChange={number("triggerPostSeconds")}
+                disabled={armed}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Device units are converted to {unit}. A crossing during the post-trigger window is part of the
+            same capture; an IMU triggers again only after falling back below the threshold.
+          </p>
+
+          <div className="flex items-center justify-between rounded-md bg-secondary px-3 py-2 text-sm">
+            <span className={state === "capturing" ? "text-destructive font-medium" : "text-foreground"}>
+              {STATE_TEXT[state]}
+            </span>
+            {armed && <span className="text-muted-foreground">{captures} saved</span>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          {armed ? (
+            <Button variant="destructive" onClick={onDisarm}>
+              Disarm
+            </Button>
+          ) : (
+            <Button onClick={onArm} disabled={!canArm || !(settings.triggerThreshold > 0)}>
+              Arm
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_PROFILE, requestDeviceOptions, type DeviceProfile } from "@/lib/deviceProfiles";
 
 /* ---- Minimal Web Bluetooth shims ---- */
 declare global {
@@ -20,6 +21,10 @@ declare global {
   interface BluetoothRemoteGATTCharacteristic extends EventTarget {
     uuid: string;
     value?: DataView | null;
+    properties?: { write?: boolean; writeWithoutResponse?: boolean };
+    writeValue?(value: BufferSource): Promise<void>;
+    writeValueWithResponse?(value: BufferSource): Promise<void>;
+    writeValueWithoutResponse?(value: BufferSource): Promise<void>;
     startNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
     stopNotifications(): Promise<BluetoothRemoteGATTCharacteristic>;
     addEventListener(type: "characteristicvaluechanged", listener: (this: this, ev: Event) => any): void;
@@ -36,6 +41,8 @@ declare global {
 }
 /* -------------------------------------- */
 
+export { TARGET_SERVICE_UUID, TARGET_CHAR_NOTIFY_UUID, TARGET_CHAR_WRITE_UUID } from "@/lib/transports";
+
 export type SeenDevice = {
   id: string;
   name: string;
@@ -46,17 +53,6 @@ export type SeenDevice = {
   device?: BluetoothDevice;
 };
 
-export type IMUSample = {
-  imuId: number;
-  accel: { x: number; y: number; z: number };
-  gyro: { x: number; y: number; z: number };
-  mag: { x: number; y: number; z: number };
-  quat: { x: number; y: number; z: number; w: number };
-};
-
-export const TARGET_SERVICE_UUID = "6e400001-b5a3-f393-e0a9-e50e24dcca9e";
-export const TARGET_CHAR_NOTIFY_UUID = "6e400003-b5a3-f393-e0a9-e50e24dcca9e";
-
 const supportsWebBluetooth = () => typeof navigator !== "undefined" && !!(navigator as any).bluetooth;
 const supportsScanning = () => supportsWebBluetooth() && typeof (navigator as any).bluetooth.requestLEScan === "function";
 
@@ -64,21 +60,9 @@ export function useBLE() {
   const [devices, setDevices] = useState<Record<string, SeenDevice>>({});
   const [isScanning, setIsScanning] = useState(false);
   const [scanError, setScanError] = useState<string | null>(null);
-  const [connectMessage, setConnectMessage] = useState<string | null>(null);
-  const [connectedDevice, setConnectedDevice] = useState<BluetoothDevice | null>(null);
-
-  const [validUUIDFound, setValidUUIDFound] = useState(false);
-  const [packetsReceived, setPacketsReceived] = useState(0);
-  const [lastPacketHex, setLastPacketHex] = useState<string | null>(null);
-
-  // latest sample for *any* IMU (last one in last packet)
-  const [latestIMUData, setLatestIMUData] = useState<IMUSample | null>(null);
-  // latest samples per IMU id (0..5)
-  const [latestByIMU, setLatestByIMU] = useState<Record<number, IMUSample>>({});
 
   const advHandlerRef = useRef<(ev: any) => void>();
   const leScanRef = useRef<BluetoothLEScan | null>(null);
-  const notifyCharRef = useRef<BluetoothRemoteGATTCharacteristic | null>(null);
 
   const addOrUpdate = useCallback((d: Partial<SeenDevice> & { id: string }) => {
     setDevices((prev) => {
@@ -147,17 +131,15 @@ export function useBLE() {
 
   useEffect(() => () => stopScan(), [stopScan]);
 
-  const chooseDevice = useCallback(async () => {
+  // The browser picker only lists devices matching the profile's name filters / service
+  const chooseDevice = useCallback(async (profile: DeviceProfile = DEFAULT_PROFILE) => {
     setScanError(null);
     if (!supportsWebBluetooth()) {
       setScanError("Browser doesn't support Web Bluetooth.");
       return null;
     }
     try {
-      const device = await (navigator as any).bluetooth.requestDevice({
-        filters: [{ namePrefix: "W" }],
-        optionalServices: [TARGET_SERVICE_UUID],
-      });
+      const device = await (navigator as any).bluetooth.requestDevice(requestDeviceOptions(profile));
       if (!device) return null;
       addOrUpdate({ id: device.id, name: device.name ?? "Unknown", lastSeen: Date.now(), device });
       return device as BluetoothDevice;
@@ -168,109 +150,6 @@ export function useBLE() {
     }
   }, [addOrUpdate]);
 
-  // Notification handler: can contain multiple IMUs: [id0,ax0,...,w0, id1,ax1,...,w1, ...]
-  const onNotify = (ev: Event) => {
-    const ch = ev.target as BluetoothRemoteGATTCharacteristic;
-    const dv = ch?.value;
-    if (!dv) return;
-
-    const decoder = new TextDecoder();
-    const text = decoder.decode(dv.buffer.slice(dv.byteOffset, dv.byteOffset + dv.byteLength));
-    const values = text
-      .trim()
-      .split(",")
-      .map((v) => parseFloat(v));
-
-    const samples: IMUSample[] = [];
-
-    const GROUP = 14; // id + 13 values
-    for (let i = 0; i + GROUP - 1 < values.length; i += GROUP) {
-      const imuId = values[i];
-      if (Number.isNaN(imuId)) continue;
-      samples.push({
-        imuId,
-        accel: { x: values[i + 1], y: values[i + 2], z: values[i + 3] },
-        gyro: { x: values[i + 4], y: values[i + 5], z: values[i + 6] },
-        mag: { x: values[i + 7], y: values[i + 8], z: values[i + 9] },
-        quat: {
-          x: values[i + 10],
-          y: values[i + 11],
-          z: values[i + 12],
-          w: values[i + 13],
-        },
-      });
-    }
-
-    if (samples.length > 0) {
-      const lastSample = samples[samples.length - 1];
-      setLatestIMUData(lastSample);
-      setLatestByIMU((prev) => {
-        const next = { ...prev };
-        for (const s of samples) {
-          next[s.imuId] = s;
-        }
-        return next;
-      });
-    }
-
-    const bytes = Array.from(new Uint8Array(dv.buffer, dv.byteOffset, dv.byteLength));
-    const hex = bytes.map((b) => b.toString(16).padStart(2, "0")).join(" ");
-    setLastPacketHex(hex);
-    setPacketsReceived((prev) => prev + 1);
-  };
-
-
-  
-
-  const disconnect = useCallback(() => {
-    try {
-      notifyCharRef.current?.removeEventListener("characteristicvaluechanged", onNotify);
-      notifyCharRef.current = null;
-    } catch {}
-    try {
-      connectedDevice?.gatt?.disconnect();
-    } catch {}
-    setConnectedDevice(null);
-    setValidUUIDFound(false);
-    setConnectMessage("Disconnected");
-  }, [connectedDevice]);
-
-  const connect = useCallback(
-    async (device: BluetoothDevice) => {
-      setConnectMessage("Connecting…");
-      setPacketsReceived(0);
-      setLastPacketHex(null);
-      setValidUUIDFound(false);
-      setLatestIMUData(null);
-      setLatestByIMU({});
-
-      try {
-        const server = await device.gatt?.connect();
-        if (!server) {
-          setConnectMessage("Failed to connect");
-          return false;
-        }
-        setConnectedDevice(device);
-
-        const service = await server.getPrimaryService(TARGET_SERVICE_UUID);
-        const notifyChar = await service.getCharacteristic(TARGET_CHAR_NOTIFY_UUID);
-
-        await notifyChar.startNotifications();
-        notifyChar.addEventListener("characteristicvaluechanged", onNotify);
-        notifyCharRef.current = notifyChar;
-
-        setValidUUIDFound(true);
-        setConnectMessage("Receiving notifications…");
-        return true;
-      } catch (e: any) {
-        setConnectMessage(e?.message ?? "Connection error");
-        disconnect();
-        return false;
-      }
-    },
-    [disconnect]
-  );
-
   const supports = useMemo(
     () => ({ webBluetooth: supportsWebBluetooth(), scanning: supportsScanning() }),
     []
@@ -289,20 +168,11 @@ export function useBLE() {
     hasDevices,
     isScanning,
     scanError,
-    connectMessage,
-    connectedDevice,
     statusText,
     supports,
-    validUUIDFound,
-    packetsReceived,
-    lastPacketHex,
-    latestIMUData,
-    latestByIMU,          // 👈 per-IMU latest samples
 
     startScan,
     stopScan,
     chooseDevice,
-    connect,
-    disconnect,
   };
 }
\ No newline at end of file
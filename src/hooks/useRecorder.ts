@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { IMUSample } from "@/lib/imuParser";
+import { SessionRecorder, recoverSessions, type RecordingInit } from "@/lib/sessionRecorder";
+import type { SessionDevice, SessionMeta } from "@/lib/sessionDb";
+import type { EventMarker } from "@/lib/markers";
+
+type SubscribeSamples = (listener: (samples: IMUSample[]) => void) => () => void;
+
+// Records every sample from every link into IndexedDB while a session is open. On mount,
+// sessions left "recording" by a crashed tab are closed out and reported in `recovered`.
+export function useRecorder(onSamples: SubscribeSamples) {
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // a start still opening its session; concurrent starts share it
+  const startingRef = useRef<Promise<SessionMeta> | null>(null);
+  const unmountedRef = useRef(false);
+  // the session being recorded, refreshed after every stored chunk
+  const [session, setSession] = useState<SessionMeta | null>(null);
+  const [recovered, setRecovered] = useState<SessionMeta[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    recoverSessions()
+      .then(setRecovered)
+      .catch(() => {
+        // no IndexedDB (private mode): nothing to recover, and recording will say so
+      });
+  }, []);
+
+  useEffect(() => onSamples((samples) => recorderRef.current?.append(samples)), [onSamples]);
+
+  // get what is buffered onto disk if the page is closed or backgrounded for good
+  useEffect(() => {
+    const flush = () => {
+      recorderRef.current?.flush();
+    };
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, []);
+
+  // leaving the dashboard ends the recording properly (a start still under way stops once open)
+  useEffect(() => {
+    const recorders = recorderRef;
+    const unmounted = unmountedRef;
+    return () => {
+      unmounted.current = true;
+      recorders.current?.stop().catch(() => {
+        // the page is going away; recoverSessions closes the session out next time
+      });
+      recorders.current = null;
+    };
+  }, []);
+
+  const start = useCallback((init: RecordingInit) => {
+    if (recorderRef.current) return Promise.resolve(recorderRef.current.session);
+    if (startingRef.current) return startingRef.current;
+    setError(null);
+    const starting = SessionRecorder.start(init).then(async (recorder) => {
+      if (unmountedRef.current) {
+        await recorder.stop();
+        return recorder.session;
+      }
+      recorder.onProgress = setSession;
+      recorder.onError = (e) => setError(e instanceof Error ? e.message : "Failed to write to IndexedDB");
+      recorderRef.current = recorder;
+      setSession(recorder.session);
+      return recorder.session;
+    });
+    startingRef.current = starting;
+    const settled = () => {
+      if (startingRef.current === starting) startingRef.current = null;
+    };
+    starting.then(settled, settled);
+    return starting;
+  }, []);
+
+  const stop = useCallback(async () => {
+    // a stop right after a start ends the session it is opening
+    await startingRef.current?.catch(() => null);
+    const recorder = recorderRef.current;
+    if (!recorder) return null;
+    recorderRef.current = null;
+    const meta = await recorder.stop();
+    setSession(null);
+    return meta;
+  }, []);
+
+  const describe = useCallback((devices: SessionDevice[]) => recorderRef.current?.describe(devices), []);
+  const setMarkers = useCallback((markers: EventMarker[]) => recorderRef.current?.setMarkers(markers), []);
+
+  return {
+    isRecording: session !== null,
+    session,
+    recovered,
+    error,
+    start,
+    stop,
+    describe,
+    setMarkers,
+  };
+}
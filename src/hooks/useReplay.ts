@@ -0,0 +1,12 @@
+import { useEffect, useState } from "react";
+import type { ReplayPlayer, ReplayState } from "@/lib/transports";
+
+// Playback state of a replay as React state; null without one
+export function useReplay(player: ReplayPlayer | null): ReplayState | null {
+  const [state, setState] = useState<ReplayState | null>(player?.state ?? null);
+  useEffect(() => {
+    setState(player?.state ?? null);
+    return player?.subscribe(setState);
+  }, [player]);
+  return state;
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { SampleStore } from "@/lib/sampleStore";
+import type { IMUSample } from "@/lib/imuParser";
+
+type SubscribeSamples = (listener: (samples: IMUSample[]) => void) => () => void;
+
+// Feeds every sample from every link into one SampleStore. The returned object changes once
+// per delivered batch, so views that depend on it re-read their windows at display rate;
+// while paused the store keeps filling but views stay put.
+export function useSampleStore(onSamples: SubscribeSamples, capacity: number, paused = false) {
+  const [store] = useState(() => new SampleStore(capacity));
+  const [version, setVersion] = useState(0);
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  useEffect(() => store.setCapacity(capacity), [store, capacity]);
+
+  useEffect(
+    () =>
+      onSamples((samples) => {
+        store.append(samples);
+        if (!pausedRef.current) refresh();
+      }),
+    [store, onSamples, refresh]
+  );
+
+  // catch up on whatever arrived during the pause
+  useEffect(() => {
+    if (!paused) refresh();
+  }, [paused, refresh]);
+
+  return useMemo(() => ({ store, version, refresh }), [store, version, refresh]);
+}
@@ -0,0 +1,173 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { streamKey, toHex, type IMUSample } from "@/lib/imuParser";
+import type { FrameStats, IMUTransport, TransportStatus } from "@/lib/transports";
+import type { LossStats } from "@/lib/sequenceTracker";
+import type { ClockEstimate } from "@/lib/clockSync";
+import type { DeviceProfile } from "@/lib/deviceProfiles";
+
+// Everything the UI knows about one live data source
+export type LinkState = {
+  transport: IMUTransport;
+  // firmware profile picked at connect time (units, IMU count); null for generic sources
+  profile: DeviceProfile | null;
+  status: TransportStatus;
+  message: string | null;
+  packetsReceived: number;
+  lastPacketHex: string | null;
+  // reassembly and integrity counters, only reported by transports that decode frames
+  frameStats: FrameStats | null;
+  lossByIMU: Record<number, LossStats>;
+  clock: ClockEstimate | null;
+};
+
+type SampleListener = (samples: IMUSample[]) => void;
+
+// a link that is retrying still owns its streams
+const isLive = (status: TransportStatus) => status === "connected" || status === "reconnecting";
+
+// most attention-worthy first; the header shows one status for all links
+const STATUS_PRIORITY: TransportStatus[] = ["reconnecting", "lost", "connected", "connecting", "error", "disconnected", "idle"];
+
+// Keeps any number of data sources live at once and turns their events into React state.
+// Samples are keyed by streamKey(link id, imuId), so the same IMU id on two devices never collides.
+export function useTransport() {
+  const [links, setLinks] = useState<Record<string, LinkState>>({});
+  const [connectMessage, setConnectMessage] = useState<string | null>(null);
+  // latest sample per (device, IMU) stream
+  const [latestByStream, setLatestByStream] = useState<Record<string, IMUSample>>({});
+
+  const unsubscribeRef = useRef(new Map<string, { transport: IMUTransport; unsubscribe: () => void }>());
+  // consumers that need every sample (charts), not just the latest per stream
+  const sampleListenersRef = useRef(new Set<SampleListener>());
+
+  const patch = useCallback((id: string, update: (link: LinkState) => Partial<LinkState>) => {
+    setLinks((prev) => (prev[id] ? { ...prev, [id]: { ...prev[id], ...update(prev[id]) } } : prev));
+  }, []);
+
+  const detach = useCallback((id: string) => {
+    unsubscribeRef.current.get(id)?.unsubscribe();
+    unsubscribeRef.current.delete(id);
+    setLinks((prev) => {
+      const { [id]: _gone, ...rest } = prev;
+      return rest;
+    });
+    setLatestByStream((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([, s]) => s.source !== id))
+    );
+  }, []);
+
+  // Without an id, closes every link
+  const disconnect = useCallback(
+    async (id?: string) => {
+      const ids = id ? [id] : [...unsubscribeRef.current.keys()];
+      await Promise.all(
+        ids.map(async (linkId) => {
+          const current = unsubscribeRef.current.get(linkId);
+          if (!current) return;
+          await current.transport.disconnect();
+          detach(linkId);
+        })
+      );
+    },
+    [detach]
+  );
+
+  const connect = useCallback(
+    async (next: IMUTransport, profile: DeviceProfile | null = null) => {
+      // reconnecting the same device replaces its old link
+      await disconnect(next.id);
+      const id = next.id;
+
+      const unsubscribe = next.subscribe((ev) => {
+        switch (ev.type) {
+          case "status":
+            patch(id, (l) => ({ status: ev.status, message: ev.message ?? l.message }));
+            if (ev.message) setConnectMessage(`${next.name}: ${ev.message}`);
+            break;
+          case "samples":
+            for (const l of sampleListenersRef.current) l(ev.samples);
+            setLatestByStream((prev) => {
+              const merged = { ...prev };
+              for (const s of ev.samples) {
+                const key = streamKey(id, s.imuId);
+                // keep a gap seen earlier in the same batch so the charts still break the line
+                const carried = merged[key] !== prev[key] ? (merged[key]?.gap ?? 0) : 0;
+                merged[key] = carried > 0 ? { ...s, gap: carried + (s.gap ?? 0) } : s;
+              }
+              return merged;
+            });
+            break;
+          case "packet":
+            patch(id, (l) => ({ lastPacketHex: toHex(ev.bytes), packetsReceived: l.packetsReceived + (ev.count ?? 1) }));
+            break;
+          case "stats":
+            patch(id, () => ({ frameStats: ev.stats }));
+            break;
+          case "loss":
+            patch(id, () => ({ lossByIMU: ev.loss }));
+            break;
+          case "clock":
+            patch(id, () => ({ clock: ev.clock }));
+            break;
+        }
+      });
+      unsubscribeRef.current.set(id, { transport: next, unsubscribe });
+      setLinks((prev) => ({
+        ...prev,
+        [id]: {
+          transport: next,
+          profile,
+          status: next.status,
+          message: null,
+          packetsReceived: 0,
+          lastPacketHex: null,
+          frameStats: null,
+          lossByIMU: {},
+          clock: null,
+        },
+      }));
+
+      const ok = await next.connect();
+      if (!ok) detach(id);
+      return ok;
+    },
+    [disconnect, detach, patch]
+  );
+
+  // Every batch of samples from every link, as delivered (byte-stream links batch at display rate)
+  const onSamples = useCallback((listener: SampleListener) => {
+    sampleListenersRef.current.add(listener);
+    return () => {
+      sampleListenersRef.current.delete(listener);
+    };
+  }, []);
+
+  useEffect(() => {
+    const subscriptions = unsubscribeRef.current;
+    return () => {
+      for (const { transport, unsubscribe } of subscriptions.values()) {
+        transport.disconnect();
+        unsubscribe();
+      }
+    };
+  }, []);
+
+  const linkList = useMemo(() => Object.values(links), [links]);
+  const status = useMemo<TransportStatus>(
+    () => STATUS_PRIORITY.find((s) => linkList.some((l) => l.status === s)) ?? "idle",
+    [linkList]
+  );
+
+  return {
+    links: linkList,
+    linksById: links,
+    status,
+    isConnected: linkList.some((l) => isLive(l.status)),
+    connectMessage,
+    latestByStream,
+
+    connect,
+    disconnect,
+    onSamples,
+  };
+}
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { TrialRunner, playCue, type TrialActions, type TrialPlan, type TrialState } from "@/lib/trialRunner";
+
+const errorText = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// Timed, countdown and multi-trial recordings. `actions` may change every render; the running
+// sequence always calls the latest. `remainingMs` counts down the current phase.
+export function useTrials(actions: TrialActions) {
+  const runnerRef = useRef<TrialRunner | null>(null);
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+  const [state, setState] = useState<TrialState | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  // redraw the time left while a sequence runs
+  useEffect(() => {
+    if (!state) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  // leaving the dashboard stops the sequence; a trial in progress is kept
+  useEffect(() => {
+    const runners = runnerRef;
+    return () => {
+      runners.current?.cancel().catch(() => {
+        // the page is going away; recoverSessions closes the session out next time
+      });
+      runners.current = null;
+    };
+  }, []);
+
+  // never rejects: a failure to stop the sequence it replaces ends up in `error`
+  const begin = useCallback(async (plan: TrialPlan) => {
+    const previous = runnerRef.current;
+    runnerRef.current = null;
+    setError(null);
+    try {
+      await previous?.cancel();
+    } catch (e) {
+      setError(errorText(e));
+    }
+    const runner = new TrialRunner(plan, {
+      start: (trial, trials) => actionsRef.current.start(trial, trials),
+      stop: (trial, trials) => actionsRef.current.stop(trial, trials),
+    });
+    runner.onState = (s) => {
+      setNow(Date.now());
+      setState(s);
+    };
+    runner.onCue = playCue;
+    runner.onError = (e) => setError(errorText(e));
+    runnerRef.current = runner;
+    runner.begin();
+  }, []);
+
+  // never rejects: a failure to stop the trial in progress ends up in `error`
+  const cancel = useCallback(async () => {
+    const runner = runnerRef.current;
+    runnerRef.current = null;
+    try {
+      await runner?.cancel();
+    } catch (e) {
+      setError(errorText(e));
+    }
+  }, []);
+
+  return {
+    state,
+    active: state !== null,
+    remainingMs: state?.endsAt != null ? Math.max(state.endsAt - now, 0) : null,
+    error,
+    begin,
+    cancel,
+  };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { IMUSample } from "@/lib/imuParser";
+import type { RecordingInit } from "@/lib/sessionRecorder";
+import type { SessionMeta } from "@/lib/sessionDb";
+import {
+  TriggerRecorder,
+  type TriggerChannel,
+  type TriggerConfig,
+  type TriggerEvent,
+  type TriggerState,
+} from "@/lib/triggerRecorder";
+
+type SubscribeSamples = (listener: (samples: IMUSample[]) => void) => () => void;
+
+// Threshold-triggered recording: while armed, every crossing saves its pre/post window as a
+// session. `lastEvent` and `saved` change as triggers fire and their sessions are stored.
+export function useTrigger(onSamples: SubscribeSamples) {
+  const triggerRef = useRef<TriggerRecorder | null>(null);
+  const [state, setState] = useState<TriggerState>("idle");
+  const [lastEvent, setLastEvent] = useState<TriggerEvent | null>(null);
+  // sessions saved since the trigger was armed
+  const [saved, setSaved] = useState<SessionMeta[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(
+    () =>
+      onSamples((samples) => {
+        const trigger = triggerRef.current;
+        if (!trigger) return;
+        trigger.append(samples);
+        setState(trigger.state);
+      }),
+    [onSamples]
+  );
+
+  // leaving the dashboard keeps what was already triggered
+  useEffect(() => {
+    const triggers = triggerRef;
+    return () => {
+      triggers.current?.finish();
+      triggers.current = null;
+    };
+  }, []);
+
+  const arm = useCallback(
+    (
+      config: TriggerConfig,
+      init: () => RecordingInit,
+      unitOf: (source: string, channel: TriggerChannel) => string
+    ) => {
+      triggerRef.current?.finish();
+      const trigger = new TriggerRecorder(config, init, unitOf);
+      trigger.onFire = setLastEvent;
+      trigger.onSaved = (meta) => setSaved((list) => [...list, meta]);
+      trigger.onError = (e) => setError(e instanceof Error ? e.message : "Failed to write to IndexedDB");
+      triggerRef.current = trigger;
+      setError(null);
+      setSaved([]);
+      setLastEvent(null);
+      setState(trigger.state);
+    },
+    []
+  );
+
+  // never rejects: a capture that fails to save ends up in `error`
+  const disarm = useCallback(async () => {
+    const trigger = triggerRef.current;
+    if (!trigger) return;
+    triggerRef.current = null;
+    setState("idle");
+    try {
+      await trigger.finish();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to write to IndexedDB");
+    }
+  }, []);
+
+  return { state, isArmed: state !== "idle", lastEvent, saved, error, arm, disarm };
+}
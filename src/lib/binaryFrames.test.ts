@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { BINARY_HEADER_F32, BINARY_HEADER_I16, decodeBinary, encodeBinary } from "@/lib/binaryFrames";
+import type { IMUSample } from "@/lib/imuParser";
+
+const sample = (imuId: number, ax = 1): IMUSample => ({
+  imuId,
+  accel: { x: ax, y: 2, z: 3 },
+  gyro: { x: 0.5, y: 0.25, z: -0.5 },
+  mag: { x: 10, y: 20, z: 30 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+describe("binary frames", () => {
+  it("round-trips float32 records", () => {
+    const { samples, consumed, skipped } = decodeBinary(encodeBinary([sample(0), sample(1, 4)], BINARY_HEADER_F32));
+    expect(samples).toEqual([sample(0), sample(1, 4)]);
+    expect(consumed).toBe(108);
+    expect(skipped).toBe(0);
+  });
+
+  it("scales int16 records", () => {
+    const [s] = decodeBinary(encodeBinary([sample(2, -9.81)], BINARY_HEADER_I16)).samples;
+    expect(s.imuId).toBe(2);
+    expect(s.accel.x).toBeCloseTo(-9.81, 2);
+    expect(s.gyro.y).toBeCloseTo(0.25, 3);
+    expect(s.quat.w).toBeCloseTo(1, 4);
+  });
+
+  it("skips garbage before a header and leaves a partial record unconsumed", () => {
+    const record = encodeBinary([sample(0)], BINARY_HEADER_I16);
+    const { samples, consumed, skipped } = decodeBinary(new Uint8Array([0x00, 0x13, ...record, ...record.slice(0, 10)]));
+    expect(samples).toHaveLength(1);
+    expect(skipped).toBe(2);
+    expect(consumed).toBe(2 + record.length);
+  });
+});
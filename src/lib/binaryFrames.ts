@@ -0,0 +1,142 @@
+import type { IMUSample } from "@/lib/imuParser";
+
+/*
+ * Compact binary IMU record, little-endian, one or more per packet:
+ *
+ *   [header u8][imuId u8][seq u16]?[time u32]?[ax ay az gx gy gz mx my mz qx qy qz qw]
+ *
+ * The header's high nibble is the magic 0xA, the low nibble holds flags:
+ *   bit 0  int16 fields multiplied by BinaryScales (else float32)
+ *   bit 1  a u16 sequence counter follows imuId
+ *   bit 2  a u32 device timestamp in µs follows (wraps every ~71 min)
+ *
+ *   0xA0  float32            → 2 + 13 × 4 = 54 bytes
+ *   0xA1  int16              → 2 + 13 × 2 = 28 bytes
+ *   0xA2  float32 + sequence → 56 bytes
+ *   0xA3  int16 + sequence   → 30 bytes
+ *   0xA4…0xA7  as above + timestamp → 4 more bytes
+ */
+export const BINARY_HEADER_F32 = 0xa0;
+export const BINARY_HEADER_I16 = 0xa1;
+export const BINARY_FLAG_SEQ = 0x02;
+export const BINARY_FLAG_TIME = 0x04;
+
+const FLAG_I16 = 0x01;
+const FIELD_COUNT = 13;
+
+export type BinaryScales = {
+  accel: number;
+  gyro: number;
+  mag: number;
+  quat: number;
+};
+
+// LSB sizes: 0.01 m/s², 0.001 rad/s, 0.01 µT, Q14 quaternion
+export const DEFAULT_INT16_SCALES: BinaryScales = {
+  accel: 0.01,
+  gyro: 0.001,
+  mag: 0.01,
+  quat: 1 / 16384,
+};
+
+export const isBinaryHeader = (b: number) => (b & 0xf8) === BINARY_HEADER_F32;
+
+const hasSeq = (header: number) => (header & BINARY_FLAG_SEQ) !== 0;
+const hasTime = (header: number) => (header & BINARY_FLAG_TIME) !== 0;
+const isI16 = (header: number) => (header & FLAG_I16) !== 0;
+
+// bytes between the header/imuId pair and the first field
+const prefixLength = (header: number) => (hasSeq(header) ? 2 : 0) + (hasTime(header) ? 4 : 0);
+
+export const binaryRecordLength = (header: number) =>
+  isBinaryHeader(header) ? 2 + prefixLength(header) + FIELD_COUNT * (isI16(header) ? 2 : 4) : 0;
+
+const scaleFor = (i: number, scales: BinaryScales) =>
+  i < 3 ? scales.accel : i < 6 ? scales.gyro : i < 9 ? scales.mag : scales.quat;
+
+export type BinaryDecodeResult = {
+  samples: IMUSample[];
+  // bytes up to the end of the last complete record (plus any skipped garbage)
+  consumed: number;
+  // bytes dropped while hunting for a header
+  skipped: number;
+};
+
+export function decodeBinary(bytes: Uint8Array, scales: BinaryScales = DEFAULT_INT16_SCALES): BinaryDecodeResult {
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples: IMUSample[] = [];
+  let offset = 0;
+  let skipped = 0;
+
+  while (offset < bytes.length) {
+    const header = bytes[offset];
+    if (!isBinaryHeader(header)) {
+      offset++;
+      skipped++;
+      continue;
+    }
+    const len = binaryRecordLength(header);
+    if (offset + len > bytes.length) break; // partial record, wait for more bytes
+
+    const imuId = bytes[offset + 1];
+    const seq = hasSeq(header) ? dv.getUint16(offset + 2, true) : undefined;
+    const deviceTime = hasTime(header) ? dv.getUint32(offset + (hasSeq(header) ? 4 : 2), true) : undefined;
+    const base = offset + 2 + prefixLength(header);
+    const v = new Array<number>(FIELD_COUNT);
+    for (let i = 0; i < FIELD_COUNT; i++) {
+      v[i] = isI16(header)
+        ? dv.getInt16(base + i * 2, true) * scaleFor(i, scales)
+        : dv.getFloat32(base + i * 4, true);
+    }
+
+    const sample: IMUSample = {
+      imuId,
+      accel: { x: v[0], y: v[1], z: v[2] },
+      gyro: { x: v[3], y: v[4], z: v[5] },
+      mag: { x: v[6], y: v[7], z: v[8] },
+      quat: { x: v[9], y: v[10], z: v[11], w: v[12] },
+    };
+    if (seq !== undefined) sample.seq = seq;
+    if (deviceTime !== undefined) sample.deviceTime = deviceTime;
+    samples.push(sample);
+    offset += len;
+  }
+
+  return { samples, consumed: offset, skipped };
+}
+
+// Inverse of decodeBinary, handy for bridges and fake devices
+export function encodeBinary(
+  samples: IMUSample[],
+  header: number = BINARY_HEADER_F32,
+  scales: BinaryScales = DEFAULT_INT16_SCALES
+): Uint8Array {
+  const len = binaryRecordLength(header);
+  const out = new Uint8Array(len * samples.length);
+  const dv = new DataView(out.buffer);
+
+  samples.forEach((s, n) => {
+    const offset = n * len;
+    const v = [
+      s.accel.x, s.accel.y, s.accel.z,
+      s.gyro.x, s.gyro.y, s.gyro.z,
+      s.mag.x, s.mag.y, s.mag.z,
+      s.quat.x, s.quat.y, s.quat.z, s.quat.w,
+    ];
+    out[offset] = header;
+    out[offset + 1] = s.imuId;
+    if (hasSeq(header)) dv.setUint16(offset + 2, (s.seq ?? 0) & 0xffff, true);
+    if (hasTime(header)) dv.setUint32(offset + (hasSeq(header) ? 4 : 2), (s.deviceTime ?? 0) >>> 0, true);
+    const base = offset + 2 + prefixLength(header);
+    for (let i = 0; i < FIELD_COUNT; i++) {
+      if (isI16(header)) {
+        const raw = Math.round(v[i] / scaleFor(i, scales));
+        dv.setInt16(base + i * 2, Math.max(-32768, Math.min(32767, raw)), true);
+      } else {
+        dv.setFloat32(base + i * 4, v[i], true);
+      }
+    }
+  });
+
+  return out;
+}
@@ -0,0 +1,59 @@
+import type { StreamWindow } from "@/lib/sampleStore";
+
+export type ChannelStats = {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  // standard deviation
+  std: number;
+  rms: number;
+};
+
+// Summary of one channel over a window; NaN values are ignored. null when there is no data.
+export function channelStats(values: Float64Array): ChannelStats | null {
+  let count = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let squares = 0;
+  for (const v of values) {
+    if (Number.isNaN(v)) continue;
+    count++;
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+    sum += v;
+    squares += v * v;
+  }
+  if (count === 0) return null;
+  const mean = sum / count;
+  return { count, min, max, mean, std: Math.sqrt(Math.max(squares / count - mean * mean, 0)), rms: Math.sqrt(squares / count) };
+}
+
+// Euclidean norm of a vector channel group per row ("accel.x", "accel.y", "accel.z" → |accel|)
+export function magnitude(win: StreamWindow, channels: string[]): Float64Array {
+  const out = new Float64Array(win.time.length);
+  const cols = channels.map((c) => win.channels[c]).filter(Boolean);
+  for (let i = 0; i < out.length; i++) {
+    let sq = 0;
+    for (const col of cols) sq += col[i] * col[i];
+    out[i] = Math.sqrt(sq);
+  }
+  return out;
+}
+
+// Min/max per bin across [from, to) (host ms), for drawing a long signal in few pixels.
+// Empty bins are NaN.
+export function envelope(time: Float64Array, values: Float64Array, from: number, to: number, bins: number) {
+  const min = new Float64Array(bins).fill(NaN);
+  const max = new Float64Array(bins).fill(NaN);
+  const span = to - from || 1;
+  for (let i = 0; i < time.length; i++) {
+    const v = values[i];
+    if (Number.isNaN(v)) continue;
+    const b = Math.min(bins - 1, Math.max(0, Math.floor(((time[i] - from) / span) * bins)));
+    if (!(v >= min[b])) min[b] = v;
+    if (!(v <= max[b])) max[b] = v;
+  }
+  return { min, max };
+}
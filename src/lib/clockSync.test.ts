@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { ClockSync } from "./clockSync";
+
+const HOST0 = Date.UTC(2024, 0, 1);
+
+// device µs → arrival host ms, with a device clock `ppm` fast and latency 5–25 ms (min 5 every 7th)
+function feed(clock: ClockSync, seconds: number, ppm: number, startUs = 10_000_000) {
+  for (let i = 0; i < seconds * 50; i++) {
+    const hostMs = i * 20;
+    const deviceUs = startUs + hostMs * 1000 * (1 + ppm / 1e6);
+    const latency = i % 7 === 0 ? 5 : 5 + ((i * 37) % 20);
+    clock.observe(clock.unwrap(deviceUs % 2 ** 32), HOST0 + hostMs + latency);
+  }
+}
+
+describe("ClockSync", () => {
+  it("maps device time onto the host clock at the lowest latency seen", () => {
+    const clock = new ClockSync();
+    feed(clock, 1, 0);
+    // device 10 s ↔ host HOST0 (+ the 5 ms floor)
+    expect(clock.toHost(10_000)).toBeCloseTo(HOST0 + 5, 3);
+    expect(clock.estimate).toMatchObject({ windows: 1, driftPpm: 0 });
+  });
+
+  it("estimates drift from a device clock running fast", () => {
+    const clock = new ClockSync();
+    feed(clock, 30, 200);
+    const { driftPpm, windows } = clock.estimate;
+    expect(windows).toBe(30);
+    expect(driftPpm).toBeCloseTo(200, 0);
+    // 29 s of device time later, still on the host's clock within a millisecond
+    const deviceMs = 10_000 + 29_000 * (1 + 200e-6);
+    expect(Math.abs(clock.toHost(deviceMs) - (HOST0 + 29_000 + 5))).toBeLessThan(1);
+  });
+
+  it("unwraps the 32-bit microsecond counter", () => {
+    const clock = new ClockSync();
+    const near = 2 ** 32 - 1000;
+    expect(clock.unwrap(near)).toBeCloseTo(near / 1000);
+    expect(clock.unwrap(500)).toBeCloseTo((2 ** 32 + 500) / 1000);
+  });
+
+  it("forgets the fit on reset", () => {
+    const clock = new ClockSync();
+    feed(clock, 3, 0);
+    clock.reset();
+    expect(clock.estimate).toBeNull();
+    clock.observe(0, HOST0 + 100);
+    expect(clock.toHost(0)).toBe(HOST0 + 100);
+  });
+});
@@ -0,0 +1,104 @@
+export type ClockEstimate = {
+  // host epoch ms minus device ms at the most recent sample
+  offsetMs: number;
+  // how much faster the device clock runs than the host's, in parts per million
+  driftPpm: number;
+  // number of one-second windows the fit is based on
+  windows: number;
+};
+
+type Point = { d: number; h: number };
+
+const WRAP_US = 2 ** 32; // u32 µs counters roll over every ~71.6 min
+const WINDOW_MS = 1000;
+const MAX_WINDOWS = 120;
+
+/*
+ * Maps device timestamps onto the host clock.
+ *
+ * Transport latency only ever delays arrival, so within each one-second window of device
+ * time the sample with the smallest (arrival − device time) is the best guess of the true
+ * offset. A least-squares line through those per-window minima gives offset and drift.
+ */
+export class ClockSync {
+  private windows: Point[] = [];
+  private lastRaw: number | null = null;
+  private epochs = 0;
+  // first observation; everything is stored relative to it to keep the fit well conditioned
+  private d0 = 0;
+  private h0 = 0;
+  private slope = 1;
+  private intercept = 0;
+  private lastDevice = 0;
+
+  // Device µs (possibly wrapped) → monotonic device ms
+  unwrap(deviceTimeUs: number): number {
+    if (this.lastRaw !== null && deviceTimeUs < this.lastRaw - WRAP_US / 2) this.epochs++;
+    this.lastRaw = deviceTimeUs;
+    return (deviceTimeUs + this.epochs * WRAP_US) / 1000;
+  }
+
+  observe(deviceMs: number, arrivalMs: number) {
+    if (this.windows.length === 0) {
+      this.d0 = deviceMs;
+      this.h0 = arrivalMs;
+    }
+    this.lastDevice = deviceMs;
+    const p = { d: deviceMs - this.d0, h: arrivalMs - this.h0 };
+    const last = this.windows[this.windows.length - 1];
+
+    if (last && Math.floor(last.d / WINDOW_MS) === Math.floor(p.d / WINDOW_MS)) {
+      if (p.h - p.d < last.h - last.d) this.windows[this.windows.length - 1] = p;
+    } else {
+      this.windows.push(p);
+      if (this.windows.length > MAX_WINDOWS) this.windows.shift();
+    }
+    this.fit();
+  }
+
+  private fit() {
+    const n = this.windows.length;
+    const first = this.windows[0];
+    const last = this.windows[n - 1];
+    // Too little history for a slope: assume both clocks tick at the same rate
+    if (n < 3 || last.d - first.d < 2 * WINDOW_MS) {
+      this.slope = 1;
+      this.intercept = Math.min(...this.windows.map((p) => p.h - p.d));
+      return;
+    }
+    let sd = 0, sh = 0, sdd = 0, sdh = 0;
+    for (const p of this.windows) {
+      sd += p.d;
+      sh += p.h;
+      sdd += p.d * p.d;
+      sdh += p.d * p.h;
+    }
+    const slope = (n * sdh - sd * sh) / (n * sdd - sd * sd);
+    this.slope = Number.isFinite(slope) ? slope : 1;
+    this.intercept = (sh - this.slope * sd) / n;
+    // Drop the line onto the lower envelope so no window sits below it
+    const lowest = Math.min(...this.windows.map((p) => p.h - (this.intercept + this.slope * p.d)));
+    this.intercept += lowest;
+  }
+
+  toHost(deviceMs: number): number {
+    return this.h0 + this.intercept + this.slope * (deviceMs - this.d0);
+  }
+
+  get estimate(): ClockEstimate | null {
+    if (this.windows.length === 0) return null;
+    return {
+      offsetMs: this.toHost(this.lastDevice) - this.lastDevice,
+      driftPpm: (1 / this.slope - 1) * 1e6,
+      windows: this.windows.length,
+    };
+  }
+
+  reset() {
+    this.windows = [];
+    this.lastRaw = null;
+    this.epochs = 0;
+    this.slope = 1;
+    this.intercept = 0;
+  }
+}
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CommandChannel, CommandError, formatCommand, parseKeyValues } from "./commands";
+
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("CommandChannel", () => {
+  it("numbers each command and resolves it with the matching reply", async () => {
+    const written: string[] = [];
+    const channel = new CommandChannel(async (bytes) => void written.push(text(bytes)));
+    const rate = channel.send({ type: "setRate", hz: 200 });
+    const id = channel.send({ type: "identify" });
+    await Promise.resolve();
+    expect(written).toEqual(["#1 ODR 200\n", "#2 ID?\n"]);
+
+    channel.handleLine("#2 OK name=WIMU fw=1.2.0");
+    channel.handleLine("#1 OK");
+    expect(await id).toEqual({ id: 2, ok: true, payload: "name=WIMU fw=1.2.0" });
+    expect(await rate).toMatchObject({ id: 1, ok: true });
+  });
+
+  it("rejects on ERR replies with the device's reason", async () => {
+    const channel = new CommandChannel(async () => {});
+    const sent = channel.send({ type: "raw", text: "FOO" });
+    channel.handleLine("#1 ERR unknown verb");
+    await expect(sent).rejects.toMatchObject({ name: "CommandError", message: "unknown verb" });
+  });
+
+  it("times out when the device never answers", async () => {
+    vi.useFakeTimers();
+    const channel = new CommandChannel(async () => {}, 500);
+    const sent = channel.send({ type: "start" });
+    const failed = expect(sent).rejects.toThrow("No response");
+    await vi.advanceTimersByTimeAsync(500);
+    await failed;
+  });
+
+  it("reports a write that stalls past the timeout without an unhandled rejection", async () => {
+    vi.useFakeTimers();
+    let finishWrite: () => void;
+    const channel = new CommandChannel(() => new Promise<void>((resolve) => (finishWrite = resolve)), 500);
+    const unhandled = vi.fn();
+    process.on("unhandledRejection", unhandled);
+    try {
+      const sent = channel.send({ type: "stop" });
+      await vi.advanceTimersByTimeAsync(600);
+      finishWrite();
+      await expect(sent).rejects.toBeInstanceOf(CommandError);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off("unhandledRejection", unhandled);
+    }
+  });
+
+  it("fails a command whose write fails, and everything pending on close", async () => {
+    const failing = new CommandChannel(async () => {
+      throw new Error("GATT write failed");
+    });
+    await expect(failing.send({ type: "start" })).rejects.toThrow("GATT write failed");
+
+    const channel = new CommandChannel(async () => {});
+    const sent = channel.send({ type: "start" });
+    await Promise.resolve();
+    channel.close();
+    await expect(sent).rejects.toThrow("Disconnected");
+  });
+
+  it("logs what was sent and received for the console", async () => {
+    const channel = new CommandChannel(async () => {});
+    const logs: string[][] = [];
+    channel.subscribe((log) => logs.push(log.map((e) => `${e.direction} ${e.text}`)));
+    const sent = channel.send({ type: "enableIMUs", imuIds: [0, 2] });
+    channel.handleLine("#1 OK ");
+    await sent;
+    expect(logs[logs.length - 1]).toEqual(["tx #1 IMUS 0,2", "rx #1 OK"]);
+  });
+});
+
+describe("command helpers", () => {
+  it("formats verbs and refuses empty raw commands", async () => {
+    expect(formatCommand({ type: "stop" })).toBe("STOP");
+    expect(formatCommand({ type: "setRate", hz: 99.6 })).toBe("ODR 100");
+    await expect(new CommandChannel(async () => {}).send({ type: "raw", text: "  " })).rejects.toThrow("Empty command");
+  });
+
+  it("parses key=value payloads, quoted or not", () => {
+    expect(parseKeyValues('name="Left Pod" fw=1.2.0 imus=6')).toEqual({ name: "Left Pod", fw: "1.2.0", imus: "6" });
+  });
+});
@@ -0,0 +1,164 @@
+/*
+ * Line-based command protocol over the UART RX characteristic (6e400002) or a serial port.
+ *
+ *   host → device   "#<id> <VERB> [args]\n"
+ *   device → host   "#<id> OK [payload]"  or  "#<id> ERR <reason>"   (on the notify/data stream)
+ *
+ * Lines starting with '#' never collide with data frames: CSV frames start with a digit and
+ * binary records with 0xA0–0xA7. A '#' line without an id is an unsolicited device message.
+ */
+export type IMUCommand =
+  | { type: "start" }
+  | { type: "stop" }
+  | { type: "setRate"; hz: number }
+  | { type: "enableIMUs"; imuIds: number[] }
+  | { type: "identify" }
+  | { type: "raw"; text: string };
+
+export type CommandResponse = {
+  id: number;
+  ok: boolean;
+  payload: string;
+};
+
+export type ConsoleEntry = {
+  at: number;
+  direction: "tx" | "rx" | "info" | "error";
+  text: string;
+};
+
+export class CommandError extends Error {
+  constructor(
+    message: string,
+    readonly response?: CommandResponse
+  ) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+export const RESPONSE_PREFIX = 0x23; // '#'
+
+export function formatCommand(cmd: IMUCommand): string {
+  switch (cmd.type) {
+    case "start":
+      return "START";
+    case "stop":
+      return "STOP";
+    case "setRate":
+      return `ODR ${Math.round(cmd.hz)}`;
+    case "enableIMUs":
+      return `IMUS ${cmd.imuIds.join(",")}`;
+    case "identify":
+      return "ID?";
+    case "raw":
+      return cmd.text.trim();
+  }
+}
+
+// "name=WIMU fw=1.2.0 imus=6" → { name: "WIMU", fw: "1.2.0", imus: "6" }
+export function parseKeyValues(payload: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const m of payload.matchAll(/(\w+)=("[^"]*"|\S+)/g)) {
+    out[m[1]] = m[2].replace(/^"|"$/g, "");
+  }
+  return out;
+}
+
+type Pending = {
+  resolve: (r: CommandResponse) => void;
+  reject: (e: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+type Writer = (bytes: Uint8Array) => Promise<void>;
+
+const MAX_LOG = 200;
+
+export class CommandChannel {
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+  private listeners = new Set<(log: ConsoleEntry[]) => void>();
+  private log: ConsoleEntry[] = [];
+
+  constructor(
+    private write: Writer,
+    private timeoutMs = 2000
+  ) {}
+
+  subscribe(listener: (log: ConsoleEntry[]) => void) {
+    this.listeners.add(listener);
+    listener(this.log);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private append(direction: ConsoleEntry["direction"], text: string) {
+    this.log = [...this.log, { at: Date.now(), direction, text }].slice(-MAX_LOG);
+    for (const l of this.listeners) l(this.log);
+  }
+
+  async send(cmd: IMUCommand): Promise<CommandResponse> {
+    const body = formatCommand(cmd);
+    if (!body) throw new CommandError("Empty command");
+    const id = this.nextId;
+    this.nextId = (this.nextId % 9999) + 1;
+    const line = `#${id} ${body}`;
+
+    const response = new Promise<CommandResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.append("error", `#${id} timed out after ${this.timeoutMs} ms`);
+        reject(new CommandError(`No response to "${body}" within ${this.timeoutMs} ms`));
+      }, this.timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+    // a write that stalls may outlast the timeout; the rejection is still seen below, once written
+    response.catch(() => undefined);
+
+    this.append("tx", line);
+    try {
+      await this.write(new TextEncoder().encode(`${line}\n`));
+    } catch (e) {
+      const p = this.pending.get(id);
+      if (p) clearTimeout(p.timer);
+      this.pending.delete(id);
+      const message = e instanceof Error ? e.message : "Write failed";
+      this.append("error", message);
+      throw new CommandError(message);
+    }
+    return response;
+  }
+
+  // Feed every '#' line from the device here; resolves the matching request
+  handleLine(line: string) {
+    const text = line.trim();
+    this.append("rx", text);
+    const m = text.match(/^#(\d+)\s+(OK|ERR)\b\s*(.*)$/i);
+    if (!m) return;
+
+    const id = parseInt(m[1], 10);
+    const p = this.pending.get(id);
+    if (!p) return;
+    clearTimeout(p.timer);
+    this.pending.delete(id);
+
+    const res: CommandResponse = { id, ok: m[2].toUpperCase() === "OK", payload: m[3] };
+    if (res.ok) p.resolve(res);
+    else p.reject(new CommandError(res.payload || "Device rejected the command", res));
+  }
+
+  info(text: string) {
+    this.append("info", text);
+  }
+
+  // Fails whatever is still waiting, e.g. on disconnect
+  close() {
+    for (const [, p] of this.pending) {
+      clearTimeout(p.timer);
+      p.reject(new CommandError("Disconnected"));
+    }
+    this.pending.clear();
+  }
+}
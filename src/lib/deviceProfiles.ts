@@ -0,0 +1,164 @@
+import { z } from "zod";
+import { DEFAULT_INT16_SCALES, type BinaryScales } from "@/lib/binaryFrames";
+import type { FrameFormat } from "@/lib/imuParser";
+import { limitsForUnits, type ChecksumKind, type SampleLimits } from "@/lib/frameIntegrity";
+import { frameLayoutSchema, type FrameLayout } from "@/lib/frameLayout";
+import { DEFAULT_FRAME_OPTIONS, type FrameAssemblerOptions } from "@/lib/frameAssembler";
+import {
+  TARGET_CHAR_NOTIFY_UUID,
+  TARGET_CHAR_WRITE_UUID,
+  TARGET_SERVICE_UUID,
+  type BLEServiceUUIDs,
+  type DecodeOptions,
+} from "@/lib/transports";
+
+// Everything needed to talk to one firmware family
+export type DeviceProfile = {
+  id: string;
+  name: string;
+  // shipped with the app: editable, but can't be deleted
+  builtIn?: boolean;
+  // advertised-name prefixes for the Bluetooth picker; empty matches anything exposing the service
+  namePrefixes: string[];
+  serviceUuid: string;
+  notifyUuid: string;
+  // omit for receive-only firmware (no command console)
+  writeUuid?: string;
+  frameFormat: FrameFormat;
+  checksum: ChecksumKind;
+  // leading CSV fields; binary records flag these in their header
+  sequence: boolean;
+  timestamp: boolean;
+  // LSB sizes of int16 binary records
+  scales: BinaryScales;
+  units: { accel: string; gyro: string; mag: string };
+  imuCount: number;
+  // largest plausible |value| per channel, in `units`; frames beyond them are dropped.
+  // Omitted: ±16 g, ±2000 °/s and ±5 mT converted to the units
+  limits?: SampleLimits;
+  // custom field order / extra channels; overrides sequence, timestamp and scales
+  layout?: FrameLayout;
+};
+
+const uuid = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/, "Expected a 128-bit UUID");
+
+const positive = z.number().positive();
+
+export const deviceProfileSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Name is required"),
+  builtIn: z.boolean().optional(),
+  namePrefixes: z.array(z.string().trim().min(1)),
+  serviceUuid: uuid,
+  notifyUuid: uuid,
+  writeUuid: uuid.optional(),
+  frameFormat: z.enum(["csv", "binary"]),
+  checksum: z.enum(["none", "crc8", "crc16"]),
+  sequence: z.boolean(),
+  timestamp: z.boolean(),
+  scales: z.object({ accel: positive, gyro: positive, mag: positive, quat: positive }),
+  units: z.object({ accel: z.string(), gyro: z.string(), mag: z.string() }),
+  imuCount: z.number().int().min(1).max(255),
+  limits: z.object({ accel: positive, gyro: positive, mag: positive, quat: positive }).optional(),
+  layout: frameLayoutSchema.optional(),
+});
+
+export const DEFAULT_PROFILE: DeviceProfile = {
+  id: "nus-csv",
+  name: "Nordic UART (CSV)",
+  builtIn: true,
+  namePrefixes: ["W"],
+  serviceUuid: TARGET_SERVICE_UUID,
+  notifyUuid: TARGET_CHAR_NOTIFY_UUID,
+  writeUuid: TARGET_CHAR_WRITE_UUID,
+  frameFormat: "csv",
+  checksum: "none",
+  sequence: false,
+  timestamp: false,
+  scales: DEFAULT_INT16_SCALES,
+  units: { accel: "m/s²", gyro: "rad/s", mag: "µT" },
+  imuCount: 6,
+};
+
+export const BUILT_IN_PROFILES: DeviceProfile[] = [DEFAULT_PROFILE];
+
+const STORAGE_KEY = "imu-monitor.deviceProfiles";
+
+// Saved profiles, with any missing built-ins added back. Entries that no longer validate are dropped.
+export function loadProfiles(): DeviceProfile[] {
+  let saved: unknown = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+  } catch {
+    // corrupt or unavailable storage: start from the built-ins
+  }
+  const profiles = (Array.isArray(saved) ? saved : []).flatMap((item) => {
+    const res = deviceProfileSchema.safeParse(item);
+    return res.success ? [res.data as DeviceProfile] : [];
+  });
+  const missing = BUILT_IN_PROFILES.filter((b) => !profiles.some((p) => p.id === b.id));
+  return [...missing, ...profiles];
+}
+
+export function saveProfiles(profiles: DeviceProfile[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  } catch {
+    // private mode or quota: profiles just won't survive a reload
+  }
+}
+
+export const findProfile = (profiles: DeviceProfile[], id: string) =>
+  profiles.find((p) => p.id === id) ?? profiles[0] ?? DEFAULT_PROFILE;
+
+// First profile whose name filter fits an advertised device name
+export function matchProfile(profiles: DeviceProfile[], deviceName: string | null | undefined) {
+  if (!deviceName) return null;
+  return profiles.find((p) => p.namePrefixes.some((prefix) => deviceName.startsWith(prefix))) ?? null;
+}
+
+export function copyProfile(base: DeviceProfile, name = `${base.name} (copy)`): DeviceProfile {
+  return { ...base, id: crypto.randomUUID(), name, builtIn: false, namePrefixes: [...base.namePrefixes] };
+}
+
+// Bluetooth picker options for one profile
+export function requestDeviceOptions(profile: DeviceProfile) {
+  const services = [profile.serviceUuid];
+  return profile.namePrefixes.length > 0
+    ? { filters: profile.namePrefixes.map((namePrefix) => ({ namePrefix })), optionalServices: services }
+    : { filters: [{ services }] };
+}
+
+export const profileUUIDs = (profile: DeviceProfile): BLEServiceUUIDs => ({
+  service: profile.serviceUuid,
+  notify: profile.notifyUuid,
+  write: profile.writeUuid,
+});
+
+// A layout's unit on a core field (e.g. "accel.x") wins over the profile's
+const coreUnit = (profile: DeviceProfile, group: "accel" | "gyro" | "mag") =>
+  profile.layout?.record.find((f) => f.name.startsWith(`${group}.`) && f.unit)?.unit ?? profile.units[group];
+
+export const profileLimits = (profile: DeviceProfile): SampleLimits =>
+  profile.limits ??
+  limitsForUnits({ accel: coreUnit(profile, "accel"), gyro: coreUnit(profile, "gyro"), mag: coreUnit(profile, "mag") });
+
+export function profileDecodeOptions(
+  profile: DeviceProfile,
+  framing: FrameAssemblerOptions = DEFAULT_FRAME_OPTIONS
+): DecodeOptions {
+  return {
+    format: profile.frameFormat,
+    checksum: profile.checksum,
+    sequence: profile.sequence,
+    timestamp: profile.timestamp,
+    scales: profile.scales,
+    layout: profile.layout,
+    limits: profileLimits(profile),
+    ...framing,
+  };
+}
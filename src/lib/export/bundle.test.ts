@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionDevice } from "@/lib/sessionDb";
+import { parseBundle } from "@/lib/import/bundle";
+import { writeBundle } from "./bundle";
+import { describeStreams, type ExportSource } from "./source";
+
+const START = Date.UTC(2024, 4, 1, 12);
+
+const sample = (imuId: number, i: number): IMUSample => ({
+  imuId,
+  source: "pod",
+  hostTime: START + i * 10,
+  accel: { x: i, y: imuId, z: 9.5 },
+  gyro: { x: 0.25, y: -0.5, z: 1 },
+  mag: { x: 20, y: -5, z: 42 },
+  quat: { x: 0, y: 0, z: 0.5, w: 0.75 },
+  extra: { temp: 20 + i },
+});
+
+const devices: SessionDevice[] = [{ source: "pod", name: "Pod A", kind: "serial", profile: null }];
+
+// two IMUs on one device, 10 samples each at 100 Hz, in two batches, one marker
+const source = (): ExportSource => ({
+  name: "walk",
+  startedAt: START,
+  streams: describeStreams(["pod#0", "pod#1"], devices),
+  devices,
+  settings: { samplingRate: 100 },
+  markers: [{ id: "m1", time: START + 45, label: "Heel strike", note: "left" }],
+  async *batches() {
+    const all = Array.from({ length: 10 }, (_, i) => [sample(0, i), sample(1, i)]).flat();
+    yield all.slice(0, 8);
+    yield all.slice(8);
+  },
+});
+
+async function exported(streams: string[]) {
+  const parts: Uint8Array[] = [];
+  await writeBundle(source(), { streams }, {
+    write: async (data) => void parts.push(typeof data === "string" ? new TextEncoder().encode(data) : data.slice()),
+  });
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+describe("session bundle export", () => {
+  it("round-trips samples, devices and markers", async () => {
+    const back = parseBundle(await exported(["pod#0", "pod#1"]));
+    expect(back.name).toBe("walk");
+    expect(back.devices.map((d) => d.name)).toEqual(["Pod A"]);
+    expect(back.samples).toHaveLength(20);
+    expect(back.samples.filter((s) => s.imuId === 0).map((s) => s.hostTime - START)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90]);
+    expect(back.samples[3]).toMatchObject({ imuId: 1, accel: { x: 1, y: 1, z: 9.5 }, extra: { temp: 21 } });
+    expect(back.markers).toEqual([{ id: "m1", time: START + 45, label: "Heel strike", note: "left" }]);
+  });
+
+  it("writes only the chosen streams", async () => {
+    const back = parseBundle(await exported(["pod#1"]));
+    expect(back.samples).toHaveLength(10);
+    expect(back.samples.every((s) => s.imuId === 1)).toBe(true);
+  });
+});
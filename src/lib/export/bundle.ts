@@ -0,0 +1,87 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { packSamples } from "@/lib/samplePacking";
+import type { SessionDevice, SessionMeta } from "@/lib/sessionDb";
+import type { EventMarker } from "@/lib/markers";
+import { ZipWriter } from "./zip";
+import type { ExportSource } from "./source";
+import type { ExportSink } from "./download";
+
+/*
+ * Session bundle (.imusession): the app's own lossless format, for moving recordings between
+ * browsers and loading them back for replay. A stored zip of
+ *   samples/<n>.f64   packed sample rows (PACKED_COLUMNS + extras), native (little-endian) float64
+ *   session.json      BundleManifest: session details, markers and which source each samples entry belongs to
+ */
+
+export const BUNDLE_FORMAT = "imu-monitor.session";
+export const BUNDLE_VERSION = 1;
+export const BUNDLE_EXTENSION = "imusession";
+
+export type BundlePart = {
+  entry: string;
+  source: string;
+  count: number;
+  extras: string[];
+};
+
+export type BundleManifest = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  name: string;
+  startedAt: number;
+  endedAt: number;
+  devices: SessionDevice[];
+  // streamKeys in the bundle
+  streams: string[];
+  settings: SessionMeta["settings"];
+  parts: BundlePart[];
+  // absent in bundles from before markers existed
+  markers?: EventMarker[];
+};
+
+export type BundleOptions = {
+  streams: string[];
+  onProgress?: (samples: number) => void;
+};
+
+export async function writeBundle(source: ExportSource, options: BundleOptions, sink: ExportSink) {
+  const keys = new Set(options.streams);
+  const zip = new ZipWriter(sink);
+  const parts: BundlePart[] = [];
+  let endedAt = source.startedAt;
+  let written = 0;
+
+  for await (const batch of source.batches()) {
+    const bySource = new Map<string, IMUSample[]>();
+    for (const s of batch) {
+      if (!s.source || !keys.has(`${s.source}#${s.imuId}`)) continue;
+      let list = bySource.get(s.source);
+      if (!list) bySource.set(s.source, (list = []));
+      list.push(s);
+      endedAt = Math.max(endedAt, s.hostTime ?? endedAt);
+    }
+    for (const [src, samples] of bySource) {
+      const packed = packSamples(samples);
+      const entry = `samples/${String(parts.length).padStart(6, "0")}.f64`;
+      await zip.add(entry, new Uint8Array(packed.data.buffer, packed.data.byteOffset, packed.data.byteLength));
+      parts.push({ entry, source: src, count: packed.count, extras: packed.extras });
+      written += packed.count;
+    }
+    options.onProgress?.(written);
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    name: source.name,
+    startedAt: source.startedAt,
+    endedAt,
+    devices: source.devices.filter((d) => parts.some((p) => p.source === d.source)),
+    streams: source.streams.filter((s) => keys.has(s.key)).map((s) => s.key),
+    settings: source.settings,
+    parts,
+    markers: source.markers,
+  };
+  await zip.add("session.json", new TextEncoder().encode(JSON.stringify(manifest, null, 2)));
+  await zip.finish();
+}
@@ -0,0 +1,93 @@
+// Little-endian byte builder for file formats that are assembled in memory piece by piece
+export class ByteWriter {
+  private buf = new Uint8Array(256);
+  private view = new DataView(this.buf.buffer);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(v: number) {
+    this.reserve(1);
+    this.view.setUint8(this.length, v);
+    this.length += 1;
+    return this;
+  }
+
+  u16(v: number) {
+    this.reserve(2);
+    this.view.setUint16(this.length, v, true);
+    this.length += 2;
+    return this;
+  }
+
+  u32(v: number) {
+    this.reserve(4);
+    this.view.setUint32(this.length, v, true);
+    this.length += 4;
+    return this;
+  }
+
+  i32(v: number) {
+    this.reserve(4);
+    this.view.setInt32(this.length, v, true);
+    this.length += 4;
+    return this;
+  }
+
+  u64(v: bigint | number) {
+    this.reserve(8);
+    this.view.setBigUint64(this.length, BigInt(v), true);
+    this.length += 8;
+    return this;
+  }
+
+  f64s(values: Float64Array) {
+    this.reserve(values.length * 8);
+    for (const v of values) {
+      this.view.setFloat64(this.length, v, true);
+      this.length += 8;
+    }
+    return this;
+  }
+
+  // zero bytes up to the next multiple of `n`
+  pad(n: number) {
+    const extra = (n - (this.length % n)) % n;
+    this.reserve(extra);
+    this.buf.fill(0, this.length, this.length + extra);
+    this.length += extra;
+    return this;
+  }
+
+  bytes(b: Uint8Array) {
+    this.reserve(b.length);
+    this.buf.set(b, this.length);
+    this.length += b.length;
+    return this;
+  }
+
+  // u32 length-prefixed UTF-8
+  string(s: string) {
+    const b = new TextEncoder().encode(s);
+    return this.u32(b.length).bytes(b);
+  }
+
+  // MCAP Map<string, string>: byte length, then key/value pairs
+  stringMap(map: Record<string, string>) {
+    const entries = new ByteWriter();
+    for (const [k, v] of Object.entries(map)) entries.string(k).string(v);
+    return this.u32(entries.length).bytes(entries.take());
+  }
+
+  take() {
+    return this.buf.slice(0, this.length);
+  }
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { fieldName, variableName } from "./columns";
+
+describe("variableName / fieldName", () => {
+  it("makes identifiers that start with a letter", () => {
+    expect(variableName("Pod A_imu1")).toBe("Pod_A_imu1");
+    expect(variableName("2nd-temp (°C)")).toBe("v_2nd_temp_C");
+  });
+
+  it("keeps struct field names within MATLAB's 31 characters", () => {
+    expect(fieldName("pressure of the left heel sensor")).toBe("pressure_of_the_left_heel_senso");
+  });
+});
@@ -0,0 +1,104 @@
+import { CORE_CHANNELS } from "@/lib/sampleStore";
+import { channelValue, type ExportSource, type ExportStream } from "./source";
+
+// Float64Array that doubles as it fills
+class Column {
+  private data = new Float64Array(1024);
+  length = 0;
+
+  push(v: number) {
+    if (this.length === this.data.length) {
+      const next = new Float64Array(this.data.length * 2);
+      next.set(this.data);
+      this.data = next;
+    }
+    this.data[this.length++] = v;
+  }
+
+  values() {
+    return this.data.subarray(0, this.length);
+  }
+}
+
+// Everything one stream recorded, a column per channel
+export type StreamColumns = {
+  stream: ExportStream;
+  count: number;
+  // seconds since the source started, and host epoch ms
+  time: Float64Array;
+  timestamp: Float64Array;
+  gap: Float64Array;
+  channels: Record<string, Float64Array>;
+};
+
+// One pass over the source for a single stream. Formats that store each variable
+// contiguously (MAT, NPY) export stream by stream so only one is in memory at a time.
+export async function collectStream(source: ExportSource, stream: ExportStream): Promise<StreamColumns> {
+  const names = [...CORE_CHANNELS, ...stream.extras.map((e) => e.name)];
+  const time = new Column();
+  const timestamp = new Column();
+  const gap = new Column();
+  const cols = names.map(() => new Column());
+
+  for await (const batch of source.batches()) {
+    for (const s of batch) {
+      if (`${s.source}#${s.imuId}` !== stream.key) continue;
+      const t = s.hostTime ?? source.startedAt;
+      time.push((t - source.startedAt) / 1000);
+      timestamp.push(t);
+      gap.push(s.gap ?? 0);
+      names.forEach((n, i) => cols[i].push(channelValue(s, n)));
+    }
+  }
+  return {
+    stream,
+    count: time.length,
+    time: time.values(),
+    timestamp: timestamp.values(),
+    gap: gap.values(),
+    channels: Object.fromEntries(names.map((n, i) => [n, cols[i].values()])),
+  };
+}
+
+// Median sample rate in Hz (robust to gaps); 0 with fewer than two samples
+export function sampleRate(time: Float64Array): number {
+  if (time.length < 2) return 0;
+  const dt = Array.from(time.subarray(1), (t, i) => t - time[i]).filter((d) => d > 0).sort((a, b) => a - b);
+  const median = dt[dt.length >> 1];
+  return median ? 1 / median : 0;
+}
+
+// Column-major matrix of the given channels (MAT layout)
+export function columnMajor(cols: StreamColumns, names: readonly string[]): Float64Array {
+  const out = new Float64Array(cols.count * names.length);
+  names.forEach((n, j) => out.set(cols.channels[n], j * cols.count));
+  return out;
+}
+
+// Row-major matrix of the given channels (NumPy C order)
+export function rowMajor(cols: StreamColumns, names: readonly string[]): Float64Array {
+  const out = new Float64Array(cols.count * names.length);
+  names.forEach((n, j) => {
+    const c = cols.channels[n];
+    for (let i = 0; i < cols.count; i++) out[i * names.length + j] = c[i];
+  });
+  return out;
+}
+
+// A valid identifier for MATLAB / Python: letters, digits, '_', starting with a letter
+export function variableName(name: string): string {
+  const id = name.replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+  return (/^[A-Za-z]/.test(id) ? id : `v_${id}`).slice(0, 63);
+}
+
+// MATLAB caps struct field names at 31 characters
+const MAX_FIELD_NAME = 31;
+
+// Extra channels (and other struct fields) as both .mat and .npz name them, so the two agree
+export const fieldName = (name: string) => variableName(name).slice(0, MAX_FIELD_NAME);
+
+// imu1, imu2, ... or podA_imu1 when several devices share the export
+export function streamVariable(stream: ExportStream, streams: ExportStream[]): string {
+  const several = new Set(streams.map((s) => s.device)).size > 1;
+  return variableName(several ? `${stream.device}_imu${stream.imuId + 1}` : `imu${stream.imuId + 1}`);
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { crc32, crc32Update } from "./crc32";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(bytes("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("gives the same result fed in pieces", () => {
+    expect(crc32Update(crc32(bytes("1234")), bytes("56789"))).toBe(0xcbf43926);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionDevice } from "@/lib/sessionDb";
+import { parseCsvRecording } from "@/lib/import/csv";
+import type { EventMarker } from "@/lib/markers";
+import { writeCsv, type CsvOptions } from "./csv";
+import { describeStreams, type ExportSource } from "./source";
+
+const START = Date.UTC(2024, 4, 1, 12);
+
+const sample = (imuId: number, i: number): IMUSample => ({
+  imuId,
+  source: "pod",
+  hostTime: START + i * 10,
+  accel: { x: i, y: imuId, z: 9.5 },
+  gyro: { x: 0.25, y: -0.5, z: 1 },
+  mag: { x: 20, y: -5, z: 42 },
+  quat: { x: 0, y: 0, z: 0.5, w: 0.75 },
+});
+
+const devices: SessionDevice[] = [{ source: "pod", name: "Pod A", kind: "serial", profile: null }];
+
+// two IMUs on one device, 3 samples each at 100 Hz
+const source = (markers: EventMarker[]): ExportSource => ({
+  name: "walk",
+  startedAt: START,
+  streams: describeStreams(["pod#0", "pod#1"], devices),
+  devices,
+  settings: { samplingRate: 100 },
+  markers,
+  async *batches() {
+    yield Array.from({ length: 3 }, (_, i) => [sample(0, i), sample(1, i)]).flat();
+  },
+});
+
+async function exported(options: Partial<CsvOptions>, markers: EventMarker[] = []) {
+  let text = "";
+  const streams = ["pod#0", "pod#1"];
+  const channels = ["accel.x", "accel.y", "quat.w"];
+  await writeCsv(source(markers), { layout: "wide", streams, channels, ...options }, {
+    write: async (data) => void (text += typeof data === "string" ? data : new TextDecoder().decode(data)),
+  });
+  return text.trimEnd().split("\n");
+}
+
+describe("CSV export", () => {
+  it("writes a row per timestamp and a column block per IMU in the wide layout", async () => {
+    const [heading, ...rows] = await exported({ layout: "wide" });
+    expect(heading).toBe(
+      "time [s],timestamp [ms],IMU 1 accel.x [m/s²],IMU 1 accel.y [m/s²],IMU 1 quat.w,IMU 2 accel.x [m/s²],IMU 2 accel.y [m/s²],IMU 2 quat.w"
+    );
+    expect(rows).toEqual([
+      `0.000000,${START},0,0,0.75,0,1,0.75`,
+      `0.010000,${START + 10},1,0,0.75,1,1,0.75`,
+      `0.020000,${START + 20},2,0,0.75,2,1,0.75`,
+    ]);
+  });
+
+  it("writes a row per sample in the long layout", async () => {
+    const [heading, ...rows] = await exported({ layout: "long" });
+    expect(heading).toBe("time [s],timestamp [ms],device,source,imu,seq,gap,accel.x [m/s²],accel.y [m/s²],quat.w");
+    expect(rows).toHaveLength(6);
+    expect(rows[1]).toBe(`0.000000,${START},Pod A,pod,2,,,0,1,0.75`);
+  });
+
+  it("writes only the chosen streams and channels", async () => {
+    const [heading, ...rows] = await exported({ streams: ["pod#1"], channels: ["accel.x"] });
+    expect(heading).toBe("time [s],timestamp [ms],IMU 2 accel.x [m/s²]");
+    expect(rows[2]).toBe(`0.020000,${START + 20},2`);
+  });
+
+  it.each(["wide", "long"] as const)("reads back what it writes in the %s layout", async (layout) => {
+    const lines = await exported({ layout, channels: ["accel.x", "accel.y", "quat.z", "quat.w"] });
+    const back = parseCsvRecording(lines.join("\n"), "walk");
+    expect(back.samples).toHaveLength(6);
+    expect(back.samples.filter((s) => s.imuId === 1).map((s) => s.accel.x)).toEqual([0, 1, 2]);
+    expect(back.samples[0]).toMatchObject({ hostTime: START, quat: { z: 0.5, w: 0.75 } });
+  });
+
+  it("gives markers a row of their own, in time order", async () => {
+    const markers = [{ id: "m1", time: START + 15, label: "Heel strike", note: 'left, "hard"' }];
+    const [heading, ...rows] = await exported({ streams: ["pod#0"], channels: ["accel.x"] }, markers);
+    expect(heading).toBe("time [s],timestamp [ms],IMU 1 accel.x [m/s²],marker,marker note");
+    expect(rows).toEqual([
+      `0.000000,${START},0,,`,
+      `0.010000,${START + 10},1,,`,
+      `0.015000,${START + 15},,Heel strike,"left, ""hard"""`,
+      `0.020000,${START + 20},2,,`,
+    ]);
+  });
+
+  it.each(["wide", "long"] as const)("reads markers back in the %s layout", async (layout) => {
+    const markers = [{ id: "m1", time: START + 15, label: "Heel strike", note: 'left, "hard"' }];
+    const back = parseCsvRecording((await exported({ layout }, markers)).join("\n"), "walk");
+    expect(back.samples).toHaveLength(6);
+    expect(back.markers).toMatchObject([{ time: START + 15, label: "Heel strike", note: 'left, "hard"' }]);
+  });
+});
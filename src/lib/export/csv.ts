@@ -0,0 +1,157 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { channelUnit, channelValue, type ExportSource, type ExportStream } from "./source";
+import type { ExportSink } from "./download";
+
+// wide: one row per timestamp, a column block per IMU. long: one row per sample.
+// Either way, markers get a row of their own with only the time and the "marker" columns.
+export type CsvLayout = "wide" | "long";
+
+export type CsvOptions = {
+  layout: CsvLayout;
+  // streamKeys to include
+  streams: string[];
+  // channel names ("accel.x", "temp", ...) to include
+  channels: string[];
+  // wide: samples this close in time (ms) share a row
+  toleranceMs?: number;
+  onProgress?: (samples: number) => void;
+};
+
+const quote = (s: string) => (/[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+const cell = (v: number | undefined) => (v === undefined || Number.isNaN(v) ? "" : String(v));
+
+const heading = (name: string, unit: string) => quote(unit ? `${name} [${unit}]` : name);
+
+// Channels a stream actually has: every core channel, extras only where its layout declares them
+const streamChannels = (stream: ExportStream, channels: string[]) =>
+  channels.filter((c) => c.includes(".") || stream.extras.some((e) => e.name === c));
+
+// the marker columns come last, and only when there are markers
+const MARKER_HEADINGS = ["marker", "marker note"];
+
+export async function writeCsv(source: ExportSource, options: CsvOptions, sink: ExportSink) {
+  const streams = source.streams.filter((s) => options.streams.includes(s.key));
+  const byKey = new Map(streams.map((s) => [s.key, s]));
+  const secondsAt = (t: number) => ((t - source.startedAt) / 1000).toFixed(6);
+  const seconds = (s: IMUSample) => secondsAt(s.hostTime ?? source.startedAt);
+  const { markers } = source;
+  const markerHeadings = markers.length > 0 ? MARKER_HEADINGS : [];
+  let written = 0;
+
+  // rows for the markers due by time `t`, `width` cells each
+  let nextMarker = 0;
+  const markerRows = (t: number, width: number) => {
+    const rows: string[] = [];
+    for (; nextMarker < markers.length && markers[nextMarker].time <= t; nextMarker++) {
+      const m = markers[nextMarker];
+      const row = new Array<string>(width).fill("");
+      row[0] = secondsAt(m.time);
+      row[1] = cell(m.time);
+      row[width - 2] = quote(m.label);
+      row[width - 1] = quote(m.note ?? "");
+      rows.push(row.join(",") + "\n");
+    }
+    return rows;
+  };
+
+  if (options.layout === "long") {
+    const channels = options.channels.filter((c) => streams.some((s) => streamChannels(s, [c]).length > 0));
+    // units normally agree; devices that disagree get both listed
+    const unit = (c: string) => [...new Set(streams.map((s) => channelUnit(s, c)))].filter(Boolean).join(" | ");
+    const headings = [
+      "time [s]",
+      "timestamp [ms]",
+      "device",
+      "source",
+      "imu",
+      "seq",
+      "gap",
+      ...channels.map((c) => heading(c, unit(c))),
+      ...markerHeadings,
+    ];
+    await sink.write(headings.join(",") + "\n");
+    for await (const batch of source.batches()) {
+      const lines: string[] = [];
+      for (const s of batch) {
+        const stream = byKey.get(`${s.source}#${s.imuId}`);
+        if (!stream) continue;
+        lines.push(...markerRows(s.hostTime ?? source.startedAt, headings.length));
+        lines.push(
+          [
+            seconds(s),
+            cell(s.hostTime),
+            quote(stream.device),
+            quote(s.source),
+            s.imuId + 1,
+            cell(s.seq),
+            cell(s.gap),
+            ...channels.map((c) => cell(channelValue(s, c))),
+            ...markerHeadings.map(() => ""),
+          ].join(",") + "\n"
+        );
+        written++;
+      }
+      if (lines.length > 0) await sink.write(lines.join(""));
+      options.onProgress?.(written);
+    }
+    const rest = markerRows(Infinity, headings.length);
+    if (rest.length > 0) await sink.write(rest.join(""));
+    return;
+  }
+
+  // wide: a block of columns per stream, in stream order
+  const blocks = new Map<string, { offset: number; channels: string[] }>();
+  const headings = ["time [s]", "timestamp [ms]"];
+  for (const stream of streams) {
+    const channels = streamChannels(stream, options.channels);
+    blocks.set(stream.key, { offset: headings.length, channels });
+    headings.push(...channels.map((c) => heading(`${stream.label} ${c}`, channelUnit(stream, c))));
+  }
+  headings.push(...markerHeadings);
+  await sink.write(headings.join(",") + "\n");
+
+  const tolerance = options.toleranceMs ?? 0.5;
+  let row: string[] | null = null;
+  let rowTime = 0;
+  const filled = new Set<string>();
+  let lines: string[] = [];
+  const endRow = () => {
+    if (row) lines.push(row.join(",") + "\n");
+    row = null;
+    filled.clear();
+  };
+
+  for await (const batch of source.batches()) {
+    for (const s of batch) {
+      const key = `${s.source}#${s.imuId}`;
+      const block = blocks.get(key);
+      if (!block) continue;
+      const t = s.hostTime ?? source.startedAt;
+      if (row && (Math.abs(t - rowTime) > tolerance || filled.has(key))) endRow();
+      const due = markerRows(t, headings.length);
+      if (due.length > 0) {
+        endRow();
+        lines.push(...due);
+      }
+      const current = row ?? new Array<string>(headings.length).fill("");
+      if (!row) {
+        current[0] = seconds(s);
+        current[1] = cell(t);
+        rowTime = t;
+        row = current;
+      }
+      block.channels.forEach((c, i) => {
+        current[block.offset + i] = cell(channelValue(s, c));
+      });
+      filled.add(key);
+      written++;
+    }
+    if (lines.length > 0) await sink.write(lines.join(""));
+    lines = [];
+    options.onProgress?.(written);
+  }
+  endRow();
+  lines.push(...markerRows(Infinity, headings.length));
+  if (lines.length > 0) await sink.write(lines.join(""));
+}
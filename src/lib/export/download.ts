@@ -0,0 +1,96 @@
+// Where exporters write: a file on disk when the browser can stream to one (File System
+// Access), otherwise Blob parts that the browser may page out, downloaded at the end.
+export interface ExportSink {
+  write(data: string | Uint8Array): Promise<void>;
+}
+
+type WritableFile = {
+  write(data: Blob | BufferSource | string): Promise<void>;
+  close(): Promise<void>;
+  abort(): Promise<void>;
+};
+
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<{ createWritable(): Promise<WritableFile> }>;
+
+// Blob parts are flushed every this many bytes so no single string grows unbounded
+const BLOB_PART_BYTES = 4 * 1024 * 1024;
+
+class BlobSink implements ExportSink {
+  private parts: Blob[] = [];
+  private pending: (string | Uint8Array)[] = [];
+  private pendingBytes = 0;
+
+  async write(data: string | Uint8Array) {
+    this.pending.push(data);
+    this.pendingBytes += typeof data === "string" ? data.length : data.byteLength;
+    if (this.pendingBytes >= BLOB_PART_BYTES) this.seal();
+  }
+
+  private seal() {
+    if (this.pending.length > 0) this.parts.push(new Blob(this.pending));
+    this.pending = [];
+    this.pendingBytes = 0;
+  }
+
+  finish(mime: string) {
+    this.seal();
+    return new Blob(this.parts, { type: mime });
+  }
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+export class ExportCancelled extends Error {
+  constructor() {
+    super("Export cancelled");
+    this.name = "ExportCancelled";
+  }
+}
+
+// Runs an exporter against a file the user picks (or a download). Call straight from a
+// click handler: the file picker needs the user gesture.
+export async function saveExport(
+  filename: string,
+  mime: string,
+  extension: string,
+  produce: (sink: ExportSink) => Promise<void>
+) {
+  const picker = (window as unknown as { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (picker) {
+    let handle: Awaited<ReturnType<SaveFilePicker>>;
+    try {
+      handle = await picker({
+        suggestedName: filename,
+        types: [{ description: extension.toUpperCase(), accept: { [mime]: [`.${extension}`] } }],
+      });
+    } catch (e) {
+      if (e instanceof DOMException && e.name === "AbortError") throw new ExportCancelled();
+      throw e;
+    }
+    const file = await handle.createWritable();
+    try {
+      await produce({ write: (data) => file.write(data) });
+      await file.close();
+    } catch (e) {
+      await file.abort();
+      throw e;
+    }
+    return;
+  }
+
+  const sink = new BlobSink();
+  await produce(sink);
+  downloadBlob(sink.finish(mime), filename);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionDevice } from "@/lib/sessionDb";
+import { parseCsvRecording } from "@/lib/import/csv";
+import { parseBundle } from "@/lib/import/bundle";
+import { writeArchive, writeExport } from "./formats";
+import { describeStreams, type ExportSource } from "./source";
+import { readZip } from "./zip";
+import type { ExportSink } from "./download";
+
+const START = Date.UTC(2024, 4, 1, 12);
+
+const sample = (imuId: number, i: number): IMUSample => ({
+  imuId,
+  source: "pod",
+  hostTime: START + i * 10,
+  accel: { x: i, y: imuId, z: 9.5 },
+  gyro: { x: 0.25, y: -0.5, z: 1 },
+  mag: { x: 20, y: -5, z: 42 },
+  quat: { x: 0, y: 0, z: 0.5, w: 0.75 },
+  extra: { temp: 20 + i },
+});
+
+const devices: SessionDevice[] = [{ source: "pod", name: "Pod A", kind: "serial", profile: null }];
+
+// two IMUs on one device, 10 samples each at 100 Hz
+function source(name = "walk"): ExportSource {
+  const streams = describeStreams(["pod#0", "pod#1"], devices);
+  for (const stream of streams) stream.extras.push({ name: "temp", unit: "°C" });
+  return {
+    name,
+    startedAt: START,
+    streams,
+    devices,
+    settings: { samplingRate: 100 },
+    markers: [],
+    async *batches() {
+      yield Array.from({ length: 10 }, (_, i) => [sample(0, i), sample(1, i)]).flat();
+    },
+  };
+}
+
+async function run(write: (sink: ExportSink) => Promise<void>) {
+  const parts: Uint8Array[] = [];
+  await write({ write: async (data) => void parts.push(typeof data === "string" ? new TextEncoder().encode(data) : data.slice()) });
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+const ascii = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("writeExport", () => {
+  it("writes every stream and channel by default", async () => {
+    const back = parseCsvRecording(ascii(await run((sink) => writeExport("csv", source(), {}, sink))), "walk");
+    expect(back.samples).toHaveLength(20);
+    expect(back.samples[0]).toMatchObject({ gyro: { z: 1 }, mag: { z: 42 }, extra: { temp: 20 } });
+  });
+
+  it("passes the chosen streams on", async () => {
+    const back = parseBundle(await run((sink) => writeExport("bundle", source(), { streams: ["pod#1"] }, sink)));
+    expect(back.samples.map((s) => s.imuId)).toEqual(Array(10).fill(1));
+  });
+});
+
+describe("writeArchive", () => {
+  it("streams one file per session, with distinct names", async () => {
+    const done: number[] = [];
+    const bytes = await run((sink) => writeArchive("csv", [source(), source()], sink, (n) => done.push(n)));
+    const entries = readZip(bytes);
+    expect([...entries.keys()]).toEqual(["walk.csv", "walk-2.csv"]);
+    expect(parseCsvRecording(ascii(entries.get("walk-2.csv")), "walk").samples).toHaveLength(20);
+    expect(done).toEqual([1, 2]);
+  });
+});
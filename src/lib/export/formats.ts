@@ -0,0 +1,68 @@
+import { CORE_CHANNELS } from "@/lib/sampleStore";
+import { writeCsv, type CsvLayout } from "./csv";
+import { writeMcap } from "./mcap";
+import { writeMat } from "./mat";
+import { writeNpz } from "./npz";
+import { BUNDLE_EXTENSION, writeBundle } from "./bundle";
+import { ZipWriter } from "./zip";
+import { fileBaseName, type ExportSource } from "./source";
+import type { ExportSink } from "./download";
+
+export const EXPORT_FORMATS = {
+  csv: { label: "CSV", extension: "csv", mime: "text/csv" },
+  mcap: { label: "MCAP (Foxglove)", extension: "mcap", mime: "application/octet-stream" },
+  mat: { label: "MATLAB (.mat)", extension: "mat", mime: "application/octet-stream" },
+  npz: { label: "NumPy (.npz)", extension: "npz", mime: "application/zip" },
+  bundle: { label: "Session bundle (.imusession)", extension: BUNDLE_EXTENSION, mime: "application/zip" },
+} as const;
+
+export type ExportFormat = keyof typeof EXPORT_FORMATS;
+
+export type ExportOptions = {
+  // streamKeys to include; all of the source's by default
+  streams?: string[];
+  // CSV only: layout (wide by default) and channels (every core and extra channel by default)
+  layout?: CsvLayout;
+  channels?: string[];
+  onProgress?: (samples: number) => void;
+};
+
+export function writeExport(format: ExportFormat, source: ExportSource, options: ExportOptions, sink: ExportSink) {
+  const streams = options.streams ?? source.streams.map((s) => s.key);
+  const { onProgress } = options;
+  switch (format) {
+    case "csv": {
+      const extras = [...new Set(source.streams.flatMap((s) => s.extras.map((e) => e.name)))];
+      const channels = options.channels ?? [...CORE_CHANNELS, ...extras];
+      return writeCsv(source, { layout: options.layout ?? "wide", streams, channels, onProgress }, sink);
+    }
+    case "mcap":
+      return writeMcap(source, { streams, onProgress }, sink);
+    case "mat":
+      return writeMat(source, { streams, onProgress }, sink);
+    case "npz":
+      return writeNpz(source, { streams, onProgress }, sink);
+    case "bundle":
+      return writeBundle(source, { streams, onProgress }, sink);
+  }
+}
+
+// Several sources as one zip with a file per source, each streamed straight into the archive
+export async function writeArchive(
+  format: ExportFormat,
+  sources: ExportSource[],
+  sink: ExportSink,
+  onFile?: (done: number) => void
+) {
+  const zip = new ZipWriter(sink);
+  const used = new Set<string>();
+  for (const [i, source] of sources.entries()) {
+    const base = fileBaseName(source.name);
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base}-${n}`;
+    used.add(name);
+    await zip.stream(`${name}.${EXPORT_FORMATS[format].extension}`, (file) => writeExport(format, source, {}, file));
+    onFile?.(i + 1);
+  }
+  await zip.finish();
+}
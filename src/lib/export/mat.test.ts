@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionDevice } from "@/lib/sessionDb";
+import { writeMat } from "./mat";
+import { describeStreams, type ExportSource } from "./source";
+
+const START = Date.UTC(2024, 4, 1, 12);
+
+const sample = (imuId: number, i: number): IMUSample => ({
+  imuId,
+  source: "pod",
+  hostTime: START + i * 10,
+  accel: { x: i, y: imuId, z: 9.5 },
+  gyro: { x: 0.25, y: -0.5, z: 1 },
+  mag: { x: 20, y: -5, z: 42 },
+  quat: { x: 0, y: 0, z: 0.5, w: 0.75 },
+  extra: { temp: 20 + i },
+});
+
+const devices: SessionDevice[] = [{ source: "pod", name: "Pod A", kind: "serial", profile: null }];
+
+// two IMUs on one device, 10 samples each at 100 Hz, with an extra channel and a marker
+function source(): ExportSource {
+  const streams = describeStreams(["pod#0", "pod#1"], devices);
+  for (const stream of streams) {
+    stream.extras.push({ name: "temp", unit: "°C" });
+  }
+  return {
+    name: "walk",
+    startedAt: START,
+    streams,
+    devices,
+    settings: { samplingRate: 100 },
+    markers: [{ id: "m1", time: START + 45, label: "Heel strike" }],
+    async *batches() {
+      yield Array.from({ length: 10 }, (_, i) => [sample(0, i), sample(1, i)]).flat();
+    },
+  };
+}
+
+async function exported() {
+  const parts: Uint8Array[] = [];
+  await writeMat(source(), { streams: ["pod#0", "pod#1"] }, {
+    write: async (data) => void parts.push(typeof data === "string" ? new TextEncoder().encode(data) : data.slice()),
+  });
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+const ascii = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// top-level variable names of a Level 5 MAT-file
+function matVariables(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const names: string[] = [];
+  for (let p = 128; p < bytes.length; ) {
+    expect(view.getUint32(p, true)).toBe(14); // miMATRIX
+    const size = view.getUint32(p + 4, true);
+    // array flags (16 bytes), dimensions (8-byte tag + padded data), then the name
+    const dims = 8 + 16 + 8 + Math.ceil(view.getUint32(p + 8 + 16 + 4, true) / 8) * 8;
+    const tag = view.getUint32(p + dims, true);
+    const small = tag >>> 16;
+    const name = small
+      ? bytes.subarray(p + dims + 4, p + dims + 4 + small)
+      : bytes.subarray(p + dims + 8, p + dims + 8 + view.getUint32(p + dims + 4, true));
+    names.push(ascii(name));
+    p += 8 + size;
+  }
+  return names;
+}
+
+describe("MATLAB export", () => {
+  it("writes a v5 header and a struct per IMU, markers and metadata", async () => {
+    const bytes = await exported();
+    expect(ascii(bytes.subarray(0, 19))).toBe("MATLAB 5.0 MAT-file");
+    expect(ascii(bytes.subarray(126, 128))).toBe("IM");
+    expect(matVariables(bytes)).toEqual(["imu1", "imu2", "markers", "metadata"]);
+  });
+});
@@ -0,0 +1,153 @@
+import { ByteWriter } from "./byteWriter";
+import { collectStream, columnMajor, fieldName, sampleRate, streamVariable, type StreamColumns } from "./columns";
+import { CHANNEL_GROUPS, type ExportSource } from "./source";
+import type { ExportSink } from "./download";
+
+/*
+ * MATLAB Level 5 MAT-file writer (uncompressed), readable by MATLAB's load() and scipy.io.loadmat.
+ * Each IMU becomes one struct variable (imu1, imu2, ... or <device>_imu<n> with several devices):
+ *   time [N×1 s since start], timestamp [N×1 epoch ms], gap [N×1],
+ *   accel, gyro, mag [N×3], quat [N×4 x y z w], plus an N×1 field per extra channel.
+ * A `metadata` struct holds the session name, start, devices, settings and, per IMU variable,
+ * its device, sample count, median sample rate (Hz) and units. With event markers, a `markers`
+ * struct has time [M×1 s], timestamp [M×1 epoch ms] and label, note as space-padded char
+ * matrices (one row each; cellstr(markers.label) gives a cell array).
+ */
+
+// a column-major real matrix
+export type MatMatrix = { rows: number; cols: number; data: Float64Array };
+// string[]: rows of a char matrix, padded with spaces
+export type MatValue = number | string | string[] | MatMatrix | MatStruct;
+export interface MatStruct {
+  [field: string]: MatValue;
+}
+
+const MI = { INT8: 1, UINT16: 4, INT32: 5, UINT32: 6, DOUBLE: 9, MATRIX: 14 } as const;
+const MX = { STRUCT: 2, CHAR: 4, DOUBLE: 6 } as const;
+// v5 struct field names are stored in fixed 32-byte slots
+const FIELD_SLOT = 32;
+
+const isMatrix = (v: MatValue): v is MatMatrix => typeof v === "object" && !Array.isArray(v) && v.data instanceof Float64Array;
+
+// miMATRIX element for one value; nested struct fields have an empty name
+function matrix(name: string, value: MatValue): Uint8Array {
+  const body = new ByteWriter();
+  const flags = (cls: number) => body.u32(MI.UINT32).u32(8).u32(cls).u32(0);
+  const dims = (rows: number, cols: number) => body.u32(MI.INT32).u32(8).i32(rows).i32(cols);
+  const arrayName = () => {
+    const bytes = new TextEncoder().encode(name);
+    body.u32(MI.INT8).u32(bytes.length).bytes(bytes).pad(8);
+  };
+
+  if (typeof value === "number" || isMatrix(value)) {
+    const m = typeof value === "number" ? { rows: 1, cols: 1, data: Float64Array.of(value) } : value;
+    flags(MX.DOUBLE);
+    dims(m.rows, m.cols);
+    arrayName();
+    body.u32(MI.DOUBLE).u32(m.data.length * 8).f64s(m.data);
+  } else if (typeof value === "string" || Array.isArray(value)) {
+    const rows = typeof value === "string" ? [value] : value;
+    const width = Math.max(0, ...rows.map((r) => r.length));
+    flags(MX.CHAR);
+    dims(rows.length, width);
+    arrayName();
+    body.u32(MI.UINT16).u32(rows.length * width * 2);
+    // column-major
+    for (let c = 0; c < width; c++) {
+      for (const r of rows) body.u16(c < r.length ? r.charCodeAt(c) : 0x20);
+    }
+    body.pad(8);
+  } else {
+    const fields = Object.keys(value);
+    flags(MX.STRUCT);
+    dims(1, 1);
+    arrayName();
+    // field name length, in the small (4-byte) element format
+    body.u16(MI.INT32).u16(4).i32(FIELD_SLOT);
+    const names = new Uint8Array(fields.length * FIELD_SLOT);
+    fields.forEach((f, i) => names.set(new TextEncoder().encode(fieldName(f)), i * FIELD_SLOT));
+    body.u32(MI.INT8).u32(names.length).bytes(names).pad(8);
+    for (const f of fields) body.bytes(matrix("", value[f]));
+  }
+
+  return new ByteWriter().u32(MI.MATRIX).u32(body.length).bytes(body.take()).take();
+}
+
+function fileHeader(): Uint8Array {
+  const text = `MATLAB 5.0 MAT-file, Platform: web, Created on: ${new Date().toUTCString()}`;
+  const head = new Uint8Array(128).fill(0x20);
+  head.set(new TextEncoder().encode(text).subarray(0, 116));
+  head.fill(0, 116, 124); // no subsystem data
+  head.set([0x00, 0x01, 0x49, 0x4d], 124); // version 0x0100, "IM": little-endian
+  return head;
+}
+
+const column = (data: Float64Array): MatMatrix => ({ rows: data.length, cols: 1, data });
+
+function imuStruct(cols: StreamColumns): MatStruct {
+  const block = (names: readonly string[]): MatMatrix => ({
+    rows: cols.count,
+    cols: names.length,
+    data: columnMajor(cols, names),
+  });
+  return {
+    time: column(cols.time),
+    timestamp: column(cols.timestamp),
+    gap: column(cols.gap),
+    accel: block(CHANNEL_GROUPS.accel),
+    gyro: block(CHANNEL_GROUPS.gyro),
+    mag: block(CHANNEL_GROUPS.mag),
+    quat: block(CHANNEL_GROUPS.quat),
+    ...Object.fromEntries(cols.stream.extras.map((e) => [fieldName(e.name), column(cols.channels[e.name])])),
+  };
+}
+
+export type MatOptions = {
+  streams: string[];
+  onProgress?: (samples: number) => void;
+};
+
+export async function writeMat(source: ExportSource, options: MatOptions, sink: ExportSink) {
+  const streams = source.streams.filter((s) => options.streams.includes(s.key));
+  const metadata: MatStruct = {
+    name: source.name,
+    started_at: new Date(source.startedAt).toISOString(),
+    devices: source.devices.map((d) => d.name).join(", "),
+    settings: Object.fromEntries(
+      Object.entries(source.settings).map(([k, v]) => [fieldName(k), typeof v === "boolean" ? Number(v) : v])
+    ),
+  };
+
+  await sink.write(fileHeader());
+  let written = 0;
+  for (const stream of streams) {
+    const cols = await collectStream(source, stream);
+    const name = streamVariable(stream, streams);
+    await sink.write(matrix(name, imuStruct(cols)));
+    metadata[name] = {
+      device: stream.device,
+      imu: stream.imuId + 1,
+      samples: cols.count,
+      sample_rate: sampleRate(cols.time),
+      units: {
+        ...stream.units,
+        ...Object.fromEntries(stream.extras.map((e) => [fieldName(e.name), e.unit])),
+      },
+    };
+    written += cols.count;
+    options.onProgress?.(written);
+  }
+  const { markers } = source;
+  if (markers.length > 0) {
+    const times = Float64Array.from(markers, (m) => m.time);
+    await sink.write(
+      matrix("markers", {
+        time: column(times.map((t) => (t - source.startedAt) / 1000)),
+        timestamp: column(times),
+        label: markers.map((m) => m.label),
+        note: markers.map((m) => m.note ?? ""),
+      })
+    );
+  }
+  await sink.write(matrix("metadata", metadata));
+}
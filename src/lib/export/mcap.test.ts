@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionDevice } from "@/lib/sessionDb";
+import { writeMcap } from "./mcap";
+import { describeStreams, type ExportSource } from "./source";
+
+const START = Date.UTC(2024, 4, 1, 12);
+
+const sample = (imuId: number, i: number): IMUSample => ({
+  imuId,
+  source: "pod",
+  hostTime: START + i * 10,
+  accel: { x: i, y: imuId, z: 9.5 },
+  gyro: { x: 0.25, y: -0.5, z: 1 },
+  mag: { x: 20, y: -5, z: 42 },
+  quat: { x: 0, y: 0, z: 0.5, w: 0.75 },
+});
+
+const devices: SessionDevice[] = [{ source: "pod", name: "Pod A", kind: "serial", profile: null }];
+
+// two IMUs on one device, 10 samples each at 100 Hz, one marker
+const source = (): ExportSource => ({
+  name: "walk",
+  startedAt: START,
+  streams: describeStreams(["pod#0", "pod#1"], devices),
+  devices,
+  settings: { samplingRate: 100 },
+  markers: [{ id: "m1", time: START + 45, label: "Heel strike", note: "left" }],
+  async *batches() {
+    yield Array.from({ length: 10 }, (_, i) => [sample(0, i), sample(1, i)]).flat();
+  },
+});
+
+async function exported() {
+  const parts: Uint8Array[] = [];
+  const streams = ["pod#0", "pod#1"];
+  await writeMcap(source(), { streams }, {
+    write: async (data) => void parts.push(typeof data === "string" ? new TextEncoder().encode(data) : data.slice()),
+  });
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+const ascii = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// records of an unchunked MCAP file
+function mcapRecords(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const records: { op: number; body: Uint8Array }[] = [];
+  for (let p = 8; p < bytes.length - 8; ) {
+    const length = Number(view.getBigUint64(p + 1, true));
+    records.push({ op: bytes[p], body: bytes.subarray(p + 9, p + 9 + length) });
+    p += 9 + length;
+  }
+  return records;
+}
+
+const mcapString = (body: Uint8Array, at: number) => {
+  const length = new DataView(body.buffer, body.byteOffset).getUint32(at, true);
+  return ascii(body.subarray(at + 4, at + 4 + length));
+};
+
+describe("MCAP export", () => {
+  it("writes a channel per IMU and a JSON message per sample and marker", async () => {
+    const bytes = await exported();
+    const magic = [0x89, 0x4d, 0x43, 0x41, 0x50, 0x30, 0x0d, 0x0a];
+    expect(Array.from(bytes.subarray(0, 8))).toEqual(magic);
+    expect(Array.from(bytes.subarray(bytes.length - 8))).toEqual(magic);
+
+    const records = mcapRecords(bytes);
+    const dataEnd = records.findIndex((r) => r.op === 0x0f);
+    const data = records.slice(0, dataEnd);
+    // schema: id u16, name; channel: id u16, schema id u16, topic
+    expect(data.filter((r) => r.op === 0x03).map((r) => mcapString(r.body, 2))).toEqual([
+      "imu_monitor.ImuSample",
+      "imu_monitor.Marker",
+    ]);
+    expect(data.filter((r) => r.op === 0x04).map((r) => mcapString(r.body, 4))).toEqual([
+      "/imu/Pod_A/1",
+      "/imu/Pod_A/2",
+      "/markers",
+    ]);
+
+    const messages = data.filter((r) => r.op === 0x05);
+    expect(messages).toHaveLength(21);
+    // channel id u16, sequence u32, log and publish time u64, then the payload
+    const payloads = messages.map((m) => JSON.parse(ascii(m.body.subarray(22))));
+    expect(payloads[0]).toMatchObject({ accel: { x: 0, y: 0, z: 9.5 } });
+    expect(payloads.find((p) => p.label)).toMatchObject({ label: "Heel strike", note: "left" });
+  });
+});
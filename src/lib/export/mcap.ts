@@ -0,0 +1,312 @@
+import type { IMUSample } from "@/lib/imuParser";
+import type { EventMarker } from "@/lib/markers";
+import { crc32 } from "./crc32";
+import { ByteWriter } from "./byteWriter";
+import type { ExportSink } from "./download";
+import type { ExportSource, ExportStream } from "./source";
+
+/*
+ * MCAP (https://mcap.dev/spec) export for Foxglove and friends. The file is unchunked: the
+ * data section holds Schema, Channel, Metadata and Message records in order, followed by a
+ * summary (schemas, channels, statistics) so readers can list topics without a full scan.
+ *
+ * One channel per IMU, topic /imu/<device>/<n> (n from 1), JSON-encoded messages under the
+ * "imu_monitor.ImuSample" JSON schema below. Channel metadata carries the units; the
+ * "session" and "device/<name>" metadata records carry what the recording knew. Event markers,
+ * if any, are "imu_monitor.Marker" messages on /markers.
+ */
+export const IMU_SAMPLE_SCHEMA = {
+  title: "imu_monitor.ImuSample",
+  description: "One IMU reading. Units are listed in the channel metadata",
+  type: "object",
+  properties: {
+    timestamp: {
+      type: "object",
+      description: "Host time (device clock aligned to the host where the firmware timestamps)",
+      properties: { sec: { type: "integer" }, nsec: { type: "integer" } },
+    },
+    imu_id: { type: "integer", description: "IMU index on the device, from 0" },
+    seq: { type: "integer", description: "Frame counter, when the firmware sends one" },
+    gap: { type: "integer", description: "Samples lost right before this one" },
+    accel: { $ref: "#/$defs/vector3" },
+    gyro: { $ref: "#/$defs/vector3" },
+    mag: { $ref: "#/$defs/vector3" },
+    orientation: {
+      type: "object",
+      description: "Unit quaternion",
+      properties: { x: { type: "number" }, y: { type: "number" }, z: { type: "number" }, w: { type: "number" } },
+    },
+    extra: {
+      type: "object",
+      description: "Channels beyond the core values (temperature, pressure, ...)",
+      additionalProperties: { type: "number" },
+    },
+  },
+  required: ["timestamp", "imu_id", "accel", "gyro", "mag", "orientation"],
+  $defs: {
+    vector3: {
+      type: "object",
+      properties: { x: { type: "number" }, y: { type: "number" }, z: { type: "number" } },
+    },
+  },
+};
+
+export const MARKER_SCHEMA = {
+  title: "imu_monitor.Marker",
+  description: "An event the operator marked during the recording",
+  type: "object",
+  properties: {
+    timestamp: {
+      type: "object",
+      description: "Host time",
+      properties: { sec: { type: "integer" }, nsec: { type: "integer" } },
+    },
+    label: { type: "string" },
+    note: { type: "string" },
+  },
+  required: ["timestamp", "label"],
+};
+
+const MAGIC = new Uint8Array([0x89, 0x4d, 0x43, 0x41, 0x50, 0x30, 0x0d, 0x0a]);
+
+const OP = {
+  header: 0x01,
+  footer: 0x02,
+  schema: 0x03,
+  channel: 0x04,
+  message: 0x05,
+  statistics: 0x0b,
+  metadata: 0x0c,
+  summaryOffset: 0x0e,
+  dataEnd: 0x0f,
+} as const;
+
+// Output is handed to the sink in pieces about this big
+const FLUSH_BYTES = 1024 * 1024;
+
+const record = (op: number, content: ByteWriter) =>
+  new ByteWriter().u8(op).u64(content.length).bytes(content.take()).take();
+
+const nanos = (ms: number) => BigInt(Math.round(ms * 1e6));
+
+// Streaming MCAP writer: records go to the sink as they are added; schemas, channels and
+// counts are remembered for the summary written by finish().
+export class McapWriter {
+  private pending: Uint8Array[] = [];
+  private pendingBytes = 0;
+  private offset = 0;
+  private schemaRecords: Uint8Array[] = [];
+  private channelRecords: Uint8Array[] = [];
+  private messageCount = 0n;
+  private metadataCount = 0;
+  private perChannel = new Map<number, bigint>();
+  private startTime: bigint | null = null;
+  private endTime: bigint | null = null;
+
+  constructor(private sink: ExportSink) {}
+
+  private async emit(bytes: Uint8Array) {
+    this.pending.push(bytes);
+    this.pendingBytes += bytes.length;
+    this.offset += bytes.length;
+    if (this.pendingBytes >= FLUSH_BYTES) await this.flush();
+  }
+
+  private async flush() {
+    if (this.pending.length === 0) return;
+    const out = new Uint8Array(this.pendingBytes);
+    let at = 0;
+    for (const p of this.pending) {
+      out.set(p, at);
+      at += p.length;
+    }
+    this.pending = [];
+    this.pendingBytes = 0;
+    await this.sink.write(out);
+  }
+
+  async start(profile: string, library: string) {
+    await this.emit(MAGIC);
+    await this.emit(record(OP.header, new ByteWriter().string(profile).string(library)));
+  }
+
+  async addSchema(id: number, name: string, encoding: string, data: Uint8Array) {
+    const rec = record(OP.schema, new ByteWriter().u16(id).string(name).string(encoding).u32(data.length).bytes(data));
+    this.schemaRecords.push(rec);
+    await this.emit(rec);
+  }
+
+  async addChannel(id: number, schemaId: number, topic: string, encoding: string, metadata: Record<string, string>) {
+    const rec = record(
+      OP.channel,
+      new ByteWriter().u16(id).u16(schemaId).string(topic).string(encoding).stringMap(metadata)
+    );
+    this.channelRecords.push(rec);
+    this.perChannel.set(id, 0n);
+    await this.emit(rec);
+  }
+
+  async addMetadata(name: string, metadata: Record<string, string>) {
+    this.metadataCount++;
+    await this.emit(record(OP.metadata, new ByteWriter().string(name).stringMap(metadata)));
+  }
+
+  async addMessage(channelId: number, sequence: number, logTime: bigint, data: Uint8Array) {
+    const content = new ByteWriter().u16(channelId).u32(sequence >>> 0).u64(logTime).u64(logTime).bytes(data);
+    this.messageCount++;
+    this.perChannel.set(channelId, (this.perChannel.get(channelId) ?? 0n) + 1n);
+    if (this.startTime === null || logTime < this.startTime) this.startTime = logTime;
+    if (this.endTime === null || logTime > this.endTime) this.endTime = logTime;
+    await this.emit(record(OP.message, content));
+  }
+
+  async finish() {
+    // 0: data section CRC not computed
+    await this.emit(record(OP.dataEnd, new ByteWriter().u32(0)));
+
+    const summaryStart = this.offset;
+    const summary: Uint8Array[] = [];
+    const offsets = new ByteWriter();
+    const group = (op: number, records: Uint8Array[]) => {
+      if (records.length === 0) return;
+      const start = summaryStart + summary.reduce((n, r) => n + r.length, 0);
+      summary.push(...records);
+      const length = records.reduce((n, r) => n + r.length, 0);
+      offsets.bytes(record(OP.summaryOffset, new ByteWriter().u8(op).u64(start).u64(length)));
+    };
+    group(OP.schema, this.schemaRecords);
+    group(OP.channel, this.channelRecords);
+
+    const counts = new ByteWriter();
+    for (const [id, n] of this.perChannel) counts.u16(id).u64(n);
+    const stats = new ByteWriter()
+      .u64(this.messageCount)
+      .u16(this.schemaRecords.length)
+      .u32(this.channelRecords.length)
+      .u32(0) // attachments
+      .u32(this.metadataCount)
+      .u32(0) // chunks
+      .u64(this.startTime ?? 0n)
+      .u64(this.endTime ?? 0n)
+      .u32(counts.length)
+      .bytes(counts.take());
+    group(OP.statistics, [record(OP.statistics, stats)]);
+
+    const summaryBytes = new ByteWriter();
+    for (const r of summary) summaryBytes.bytes(r);
+    const summaryOffsetStart = summaryStart + summaryBytes.length;
+    summaryBytes.bytes(offsets.take());
+
+    // the footer CRC covers the summary through the footer's summary_offset_start field
+    const footerHead = new ByteWriter().u8(OP.footer).u64(8 + 8 + 4).u64(summaryStart).u64(summaryOffsetStart);
+    const crcInput = new ByteWriter().bytes(summaryBytes.take()).bytes(footerHead.take()).take();
+    await this.emit(summaryBytes.take());
+    await this.emit(footerHead.take());
+    await this.emit(new ByteWriter().u32(crc32(crcInput)).take());
+    await this.emit(MAGIC);
+    await this.flush();
+  }
+}
+
+const topicName = (s: string) => s.replace(/[^\w-]+/g, "_").replace(/^_+|_+$/g, "") || "device";
+
+const stamp = (ns: bigint) => ({ sec: Number(ns / 1_000_000_000n), nsec: Number(ns % 1_000_000_000n) });
+
+const encode = (msg: unknown) => new TextEncoder().encode(JSON.stringify(msg));
+
+const markerMessageOf = (m: EventMarker) => {
+  const ns = nanos(m.time);
+  return { logTime: ns, data: encode({ timestamp: stamp(ns), label: m.label, ...(m.note ? { note: m.note } : {}) }) };
+};
+
+const messageOf = (s: IMUSample) => {
+  const ns = nanos(s.hostTime ?? 0);
+  const msg: Record<string, unknown> = {
+    timestamp: stamp(ns),
+    imu_id: s.imuId,
+    accel: s.accel,
+    gyro: s.gyro,
+    mag: s.mag,
+    orientation: s.quat,
+  };
+  if (s.seq !== undefined) msg.seq = s.seq;
+  if (s.gap !== undefined) msg.gap = s.gap;
+  if (s.extra) msg.extra = s.extra;
+  return { logTime: ns, data: encode(msg) };
+};
+
+const channelMetadata = (stream: ExportStream): Record<string, string> => ({
+  device: stream.device,
+  imu: String(stream.imuId + 1),
+  "accel.unit": stream.units.accel,
+  "gyro.unit": stream.units.gyro,
+  "mag.unit": stream.units.mag,
+  ...Object.fromEntries(stream.extras.map((e) => [`${e.name}.unit`, e.unit])),
+});
+
+export type McapOptions = {
+  streams: string[];
+  onProgress?: (samples: number) => void;
+};
+
+export async function writeMcap(source: ExportSource, options: McapOptions, sink: ExportSink) {
+  const writer = new McapWriter(sink);
+  await writer.start("", "imu-monitor");
+  await writer.addSchema(1, IMU_SAMPLE_SCHEMA.title, "jsonschema", encode(IMU_SAMPLE_SCHEMA));
+
+  const channels = new Map<string, number>();
+  let nextChannel = 1;
+  for (const stream of source.streams.filter((s) => options.streams.includes(s.key))) {
+    const id = nextChannel++;
+    channels.set(stream.key, id);
+    await writer.addChannel(id, 1, `/imu/${topicName(stream.device)}/${stream.imuId + 1}`, "json", channelMetadata(stream));
+  }
+  const { markers } = source;
+  const markerChannel = markers.length > 0 ? nextChannel++ : null;
+  if (markerChannel !== null) {
+    await writer.addSchema(2, MARKER_SCHEMA.title, "jsonschema", encode(MARKER_SCHEMA));
+    await writer.addChannel(markerChannel, 2, "/markers", "json", {});
+  }
+
+  await writer.addMetadata("session", {
+    name: source.name,
+    started_at: new Date(source.startedAt).toISOString(),
+    devices: source.devices.map((d) => d.name).join(", "),
+    ...Object.fromEntries(Object.entries(source.settings).map(([k, v]) => [k, String(v)])),
+  });
+  for (const d of source.devices) {
+    await writer.addMetadata(`device/${d.name}`, {
+      source: d.source,
+      kind: d.kind,
+      profile: d.profile?.name ?? "",
+      profile_json: d.profile ? JSON.stringify(d.profile) : "",
+    });
+  }
+
+  // markers go out in time order among the samples
+  let nextMarker = 0;
+  const writeMarkers = async (until: number) => {
+    for (; nextMarker < markers.length && markers[nextMarker].time <= until; nextMarker++) {
+      const { logTime, data } = markerMessageOf(markers[nextMarker]);
+      await writer.addMessage(markerChannel, nextMarker, logTime, data);
+    }
+  };
+
+  const sequences = new Map<number, number>();
+  let written = 0;
+  for await (const batch of source.batches()) {
+    for (const s of batch) {
+      const channel = channels.get(`${s.source}#${s.imuId}`);
+      if (channel === undefined) continue;
+      await writeMarkers(s.hostTime ?? 0);
+      const seq = sequences.get(channel) ?? 0;
+      sequences.set(channel, seq + 1);
+      const { logTime, data } = messageOf(s);
+      await writer.addMessage(channel, seq, logTime, data);
+      written++;
+    }
+    options.onProgress?.(written);
+  }
+  await writeMarkers(Infinity);
+  await writer.finish();
+}
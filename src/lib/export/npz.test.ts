@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionDevice } from "@/lib/sessionDb";
+import { writeNpz } from "./npz";
+import { describeStreams, type ExportSource } from "./source";
+import { readZip } from "./zip";
+
+const START = Date.UTC(2024, 4, 1, 12);
+
+const sample = (imuId: number, i: number): IMUSample => ({
+  imuId,
+  source: "pod",
+  hostTime: START + i * 10,
+  accel: { x: i, y: imuId, z: 9.5 },
+  gyro: { x: 0.25, y: -0.5, z: 1 },
+  mag: { x: 20, y: -5, z: 42 },
+  quat: { x: 0, y: 0, z: 0.5, w: 0.75 },
+  extra: { temp: 20 + i, "pressure of the left heel sensor": 1 },
+});
+
+const devices: SessionDevice[] = [{ source: "pod", name: "Pod A", kind: "serial", profile: null }];
+
+// two IMUs on one device, 10 samples each at 100 Hz, with two extra channels and a marker
+function source(): ExportSource {
+  const streams = describeStreams(["pod#0", "pod#1"], devices);
+  for (const stream of streams) {
+    stream.extras.push({ name: "temp", unit: "°C" }, { name: "pressure of the left heel sensor", unit: "kPa" });
+  }
+  return {
+    name: "walk",
+    startedAt: START,
+    streams,
+    devices,
+    settings: { samplingRate: 100 },
+    markers: [{ id: "m1", time: START + 45, label: "Heel strike" }],
+    async *batches() {
+      yield Array.from({ length: 10 }, (_, i) => [sample(0, i), sample(1, i)]).flat();
+    },
+  };
+}
+
+async function exported() {
+  const parts: Uint8Array[] = [];
+  await writeNpz(source(), { streams: ["pod#0", "pod#1"] }, {
+    write: async (data) => void parts.push(typeof data === "string" ? new TextEncoder().encode(data) : data.slice()),
+  });
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+const ascii = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+// .npy v1.0: magic, header length, a Python dict literal, then the data
+function readNpy(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerLength = view.getUint16(8, true);
+  const header = ascii(bytes.subarray(10, 10 + headerLength));
+  const descr = header.match(/'descr': '([^']+)'/)[1];
+  const shape = header.match(/'shape': \(([^)]*)\)/)[1].split(",").filter((d) => d.trim()).map(Number);
+  const data = bytes.slice(10 + headerLength);
+  return { descr, shape, data, offset: (10 + headerLength) % 64 };
+}
+
+describe("NumPy export", () => {
+  it("writes aligned .npy arrays per IMU, markers and metadata", async () => {
+    const entries = readZip(await exported());
+    expect([...entries.keys()]).toEqual(
+      expect.arrayContaining(["imu1_time.npy", "imu1_accel.npy", "imu2_quat.npy", "imu1_temp.npy", "markers_label.npy", "metadata.npy"])
+    );
+
+    const accel = readNpy(entries.get("imu2_accel.npy"));
+    expect(accel).toMatchObject({ descr: "<f8", shape: [10, 3], offset: 0 });
+    const values = new Float64Array(accel.data.buffer);
+    expect(Array.from(values.subarray(3, 6))).toEqual([1, 1, 9.5]);
+
+    const time = readNpy(entries.get("imu1_time.npy"));
+    expect(Array.from(new Float64Array(time.data.buffer)).slice(0, 3)).toEqual([0, 0.01, 0.02]);
+
+    const label = readNpy(entries.get("markers_label.npy"));
+    expect(label).toMatchObject({ descr: "<U11", shape: [1] });
+    expect(Array.from(new Float64Array(readNpy(entries.get("markers_time.npy")).data.buffer))).toEqual([0.045]);
+
+    const metadata = readNpy(entries.get("metadata.npy"));
+    expect(metadata.shape).toEqual([]);
+    const json = String.fromCodePoint(...new Uint32Array(metadata.data.buffer)).replace(/\0+$/, "");
+    expect(JSON.parse(json)).toMatchObject({ name: "walk", imus: { imu1: { units: { temp: "°C" } } } });
+  });
+
+  it("names extra channels as the .mat export does", async () => {
+    const entries = readZip(await exported());
+    expect(entries.has("imu1_pressure_of_the_left_heel_senso.npy")).toBe(true);
+    const metadata = readNpy(entries.get("metadata.npy"));
+    const json = String.fromCodePoint(...new Uint32Array(metadata.data.buffer)).replace(/\0+$/, "");
+    expect(JSON.parse(json).imus.imu1.units).toMatchObject({ pressure_of_the_left_heel_senso: "kPa" });
+  });
+});
@@ -0,0 +1,105 @@
+import { ByteWriter } from "./byteWriter";
+import { ZipWriter } from "./zip";
+import { collectStream, fieldName, rowMajor, sampleRate, streamVariable } from "./columns";
+import { CHANNEL_GROUPS, type ExportSource } from "./source";
+import type { ExportSink } from "./download";
+
+/*
+ * NumPy .npz writer: an uncompressed zip of .npy (format 1.0) arrays, for numpy.load().
+ * Per IMU variable v (imu1, ... or <device>_imu<n> with several devices):
+ *   v_time (N,) seconds since start, v_timestamp (N,) epoch ms, v_gap (N,),
+ *   v_accel, v_gyro, v_mag (N, 3), v_quat (N, 4) x y z w, v_<extra> (N,)
+ * `metadata` is a 0-d unicode array holding JSON: session name, start, devices, settings
+ * and per IMU variable its device, sample count, median sample rate (Hz) and units.
+ *   json.loads(np.load("x.npz")["metadata"].item())
+ * Event markers, if any: markers_time (M,) seconds, markers_timestamp (M,) epoch ms,
+ * markers_label and markers_note (M,) unicode.
+ */
+
+const NPY_MAGIC = [0x93, 0x4e, 0x55, 0x4d, 0x50, 0x59, 0x01, 0x00]; // \x93NUMPY v1.0
+
+function npy(descr: string, shape: number[], data: Uint8Array): Uint8Array {
+  const dims = shape.length === 1 ? `${shape[0]},` : shape.join(", ");
+  let header = `{'descr': '${descr}', 'fortran_order': False, 'shape': (${dims}), }`;
+  // magic + length field + header + '\n' is padded to a multiple of 64
+  const total = Math.ceil((NPY_MAGIC.length + 2 + header.length + 1) / 64) * 64;
+  header = header.padEnd(total - NPY_MAGIC.length - 2 - 1, " ") + "\n";
+  return new ByteWriter()
+    .bytes(Uint8Array.from(NPY_MAGIC))
+    .u16(header.length)
+    .bytes(new TextEncoder().encode(header))
+    .bytes(data)
+    .take();
+}
+
+const f64 = (values: Float64Array) => new ByteWriter().f64s(values).take();
+
+const float64Array = (values: Float64Array, shape: number[]) => npy("<f8", shape, f64(values));
+
+// '<U' array: UTF-32LE code points, each item zero-padded to the longest; shape [] for 0-d
+function unicodeArray(texts: string[], shape: number[]): Uint8Array {
+  const items = texts.map((t) => Array.from(t, (c) => c.codePointAt(0) ?? 0));
+  const width = Math.max(1, ...items.map((p) => p.length));
+  const data = new ByteWriter();
+  for (const points of items) {
+    for (let i = 0; i < width; i++) data.u32(points[i] ?? 0);
+  }
+  return npy(`<U${width}`, shape, data.take());
+}
+
+export type NpzOptions = {
+  streams: string[];
+  onProgress?: (samples: number) => void;
+};
+
+export async function writeNpz(source: ExportSource, options: NpzOptions, sink: ExportSink) {
+  const streams = source.streams.filter((s) => options.streams.includes(s.key));
+  const zip = new ZipWriter(sink);
+  const imus: Record<string, unknown> = {};
+  let written = 0;
+
+  for (const stream of streams) {
+    const cols = await collectStream(source, stream);
+    const v = streamVariable(stream, streams);
+    const n = cols.count;
+    await zip.add(`${v}_time.npy`, float64Array(cols.time, [n]));
+    await zip.add(`${v}_timestamp.npy`, float64Array(cols.timestamp, [n]));
+    await zip.add(`${v}_gap.npy`, float64Array(cols.gap, [n]));
+    for (const group of ["accel", "gyro", "mag", "quat"] as const) {
+      const names = CHANNEL_GROUPS[group];
+      await zip.add(`${v}_${group}.npy`, float64Array(rowMajor(cols, names), [n, names.length]));
+    }
+    for (const e of stream.extras) {
+      await zip.add(`${v}_${fieldName(e.name)}.npy`, float64Array(cols.channels[e.name], [n]));
+    }
+    imus[v] = {
+      device: stream.device,
+      imu: stream.imuId + 1,
+      samples: n,
+      sample_rate: sampleRate(cols.time),
+      units: { ...stream.units, ...Object.fromEntries(stream.extras.map((e) => [fieldName(e.name), e.unit])) },
+    };
+    written += n;
+    options.onProgress?.(written);
+  }
+
+  const { markers } = source;
+  if (markers.length > 0) {
+    const times = Float64Array.from(markers, (m) => m.time);
+    const count = markers.length;
+    await zip.add("markers_time.npy", float64Array(times.map((t) => (t - source.startedAt) / 1000), [count]));
+    await zip.add("markers_timestamp.npy", float64Array(times, [count]));
+    await zip.add("markers_label.npy", unicodeArray(markers.map((m) => m.label), [count]));
+    await zip.add("markers_note.npy", unicodeArray(markers.map((m) => m.note ?? ""), [count]));
+  }
+
+  const metadata = {
+    name: source.name,
+    started_at: new Date(source.startedAt).toISOString(),
+    devices: source.devices.map((d) => d.name),
+    settings: source.settings,
+    imus,
+  };
+  await zip.add("metadata.npy", unicodeArray([JSON.stringify(metadata)], []));
+  await zip.finish();
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { Recording } from "@/lib/import/recording";
+import { mergeByTime, recordingExportSource } from "./source";
+
+const sample = (source: string, hostTime: number): IMUSample => ({
+  imuId: 0,
+  source,
+  hostTime,
+  accel: { x: 0, y: 0, z: 0 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+async function* batches(source: string, ...times: number[][]) {
+  for (const batch of times) yield batch.map((t) => sample(source, t));
+}
+
+async function collect(merged: AsyncIterable<IMUSample[]>) {
+  const out: IMUSample[][] = [];
+  for await (const batch of merged) out.push(batch);
+  return out;
+}
+
+describe("mergeByTime", () => {
+  it("interleaves links whose chunks lag each other", async () => {
+    // link b's samples land a chunk later than link a's from the same moment
+    const out = await collect(mergeByTime([batches("a", [1, 3], [5, 7]), batches("b", [], [2, 4], [6])], 3));
+    expect(out.map((batch) => batch.length)).toEqual([3, 3, 1]);
+    expect(out.flat().map((s) => `${s.source}${s.hostTime}`)).toEqual(["a1", "b2", "a3", "b4", "a5", "b6", "a7"]);
+  });
+
+  it("yields nothing without input", async () => {
+    expect(await collect(mergeByTime([batches("a"), batches("b", [])], 10))).toEqual([]);
+  });
+});
+
+describe("recordingExportSource", () => {
+  const recording: Recording = {
+    name: "walk",
+    devices: [{ source: "a", name: "Pod", kind: "replay", profile: null }],
+    samples: [1000, 1500, 2000, 2500].map((t) => ({ ...sample("a", t), extra: t > 2000 ? { temp: 20 } : undefined })),
+    markers: [
+      { id: "m2", time: 2200, label: "late" },
+      { id: "m1", time: 1800, label: "step" },
+    ],
+    skipped: 0,
+  };
+
+  it("crops samples and markers to the range and names the file after it", async () => {
+    const source = recordingExportSource(recording, { samplingRate: 100 }, [1500, 2000]);
+    expect(source).toMatchObject({ name: "walk 0.5-1.0s", startedAt: 1500 });
+    expect((await collect(source.batches())).flat().map((s) => s.hostTime)).toEqual([1500, 2000]);
+    expect(source.streams[0].extras).toEqual([]);
+    expect(source.markers.map((m) => m.label)).toEqual(["step"]);
+  });
+
+  it("lists the extra channels found in the samples", () => {
+    const source = recordingExportSource(recording, { samplingRate: 100 });
+    expect(source.name).toBe("walk");
+    expect(source.streams.map((s) => [s.key, s.extras])).toEqual([["a#0", [{ name: "temp", unit: "" }]]]);
+  });
+});
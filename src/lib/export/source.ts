@@ -0,0 +1,235 @@
+import { parseStreamKey, type IMUSample } from "@/lib/imuParser";
+import { CORE_CHANNELS, type SampleStore } from "@/lib/sampleStore";
+import { unpackSamples } from "@/lib/samplePacking";
+import { extraChannels } from "@/lib/frameLayout";
+import { DEFAULT_PROFILE } from "@/lib/deviceProfiles";
+import { readSessionChunks, type SessionDevice, type SessionMeta } from "@/lib/sessionDb";
+import type { Recording } from "@/lib/import/recording";
+import { markersBetween, type EventMarker } from "@/lib/markers";
+
+export type ChannelUnits = { accel: string; gyro: string; mag: string };
+
+// One (device, IMU) stream as exporters see it
+export type ExportStream = {
+  key: string;
+  label: string;
+  device: string;
+  imuId: number;
+  units: ChannelUnits;
+  // layout channels beyond the core 13
+  extras: { name: string; unit: string }[];
+};
+
+// Something exportable: the live buffer or a recorded session. Samples come in batches,
+// in (roughly) time order, so exporters can stream instead of holding everything.
+export type ExportSource = {
+  // base file name
+  name: string;
+  // epoch ms that relative times count from
+  startedAt: number;
+  streams: ExportStream[];
+  devices: SessionDevice[];
+  settings: SessionMeta["settings"];
+  // in time order
+  markers: EventMarker[];
+  batches(): AsyncIterable<IMUSample[]>;
+};
+
+export const CHANNEL_GROUPS = {
+  accel: CORE_CHANNELS.slice(0, 3),
+  gyro: CORE_CHANNELS.slice(3, 6),
+  mag: CORE_CHANNELS.slice(6, 9),
+  quat: CORE_CHANNELS.slice(9),
+} as const;
+
+export type ChannelGroup = keyof typeof CHANNEL_GROUPS;
+
+// Value of a core ("gyro.y") or extra ("temp") channel; NaN when the sample lacks it
+export function channelValue(s: IMUSample, channel: string): number {
+  const [group, axis] = channel.split(".");
+  if (axis && group in CHANNEL_GROUPS) {
+    const v = (s[group as ChannelGroup] as Record<string, number>)[axis];
+    return v ?? NaN;
+  }
+  return s.extra?.[channel] ?? NaN;
+}
+
+// Unit of a channel on a stream; quaternions are unitless
+export function channelUnit(stream: ExportStream, channel: string): string {
+  const group = channel.split(".")[0];
+  if (group === "accel" || group === "gyro" || group === "mag") return stream.units[group];
+  if (group === "quat") return "";
+  return stream.extras.find((e) => e.name === channel)?.unit ?? "";
+}
+
+// File-name friendly: "Session 3/4/2025, 10:12:00" → "Session_3-4-2025_10-12-00"
+export const fileBaseName = (name: string) =>
+  name.replace(/[\\/:]/g, "-").replace(/[^\w.-]+/g, "_").replace(/^_+|_+$/g, "") || "imu-export";
+
+export function describeStreams(keys: string[], devices: SessionDevice[]): ExportStream[] {
+  const several = new Set(keys.map((k) => parseStreamKey(k).source)).size > 1;
+  return [...keys].sort().map((key) => {
+    const { source, imuId } = parseStreamKey(key);
+    const dev = devices.find((d) => d.source === source);
+    const device = dev?.name ?? source;
+    return {
+      key,
+      label: `${several ? `${device} · ` : ""}IMU ${imuId + 1}`,
+      device,
+      imuId,
+      units: dev?.profile?.units ?? DEFAULT_PROFILE.units,
+      extras: dev?.profile?.layout ? extraChannels(dev.profile.layout) : [],
+    };
+  });
+}
+
+// Rows per batch handed to exporters
+const BATCH_ROWS = 4096;
+
+const byTime = (a: IMUSample, b: IMUSample) => (a.hostTime ?? 0) - (b.hostTime ?? 0);
+
+// One link's samples across a session's chunks, in recorded order
+async function* sourceSamples(sessionId: string, source: string): AsyncGenerator<IMUSample[]> {
+  for await (const chunk of readSessionChunks(sessionId)) {
+    for (const part of chunk.parts) {
+      if (part.source === source) yield unpackSamples(part.samples, source).sort(byTime);
+    }
+  }
+}
+
+// Merges inputs that are each in time order into one time order, `size` samples per batch
+export async function* mergeByTime(inputs: AsyncIterable<IMUSample[]>[], size: number): AsyncGenerator<IMUSample[]> {
+  const heads = inputs.map((input) => ({ iterator: input[Symbol.asyncIterator](), batch: [] as IMUSample[], at: 0 }));
+  let out: IMUSample[] = [];
+  for (;;) {
+    // refill every input that ran dry, dropping the finished ones
+    for (let i = heads.length - 1; i >= 0; i--) {
+      const head = heads[i];
+      while (head.at === head.batch.length) {
+        const next = await head.iterator.next();
+        if (next.done) {
+          heads.splice(i, 1);
+          break;
+        }
+        head.batch = next.value;
+        head.at = 0;
+      }
+    }
+    if (heads.length === 0) break;
+    let first = heads[0];
+    for (const head of heads) if (byTime(head.batch[head.at], first.batch[first.at]) < 0) first = head;
+    out.push(first.batch[first.at++]);
+    if (out.length === size) {
+      yield out;
+      out = [];
+    }
+  }
+  if (out.length > 0) yield out;
+}
+
+export function sessionExportSource(meta: SessionMeta): ExportSource {
+  return {
+    name: meta.name,
+    startedAt: meta.startedAt,
+    streams: describeStreams(meta.streams, meta.devices),
+    devices: meta.devices,
+    settings: meta.settings,
+    markers: markersBetween(meta.markers ?? []),
+    // links are written to the same chunks but lag each other, so each is read on its own and merged
+    batches() {
+      const sources = [...new Set(meta.streams.map((key) => parseStreamKey(key).source))];
+      return mergeByTime(sources.map((source) => sourceSamples(meta.id, source)), BATCH_ROWS);
+    },
+  };
+}
+
+// What the dashboard currently holds in memory, every stream merged into time order
+export function liveExportSource(
+  store: SampleStore,
+  devices: SessionDevice[],
+  settings: SessionMeta["settings"],
+  markers: EventMarker[]
+): ExportSource {
+  const keys = store.streams();
+  const streams = describeStreams(keys, devices);
+  for (const stream of streams) {
+    const declared = new Set(stream.extras.map((e) => e.name));
+    for (const name of store.channels(stream.key).slice(CORE_CHANNELS.length)) {
+      if (!declared.has(name)) stream.extras.push({ name, unit: "" });
+    }
+  }
+  const firstTimes = keys.map((k) => store.firstTime(k) ?? Infinity);
+  const startedAt = Math.min(...firstTimes, Date.now());
+  return {
+    name: `Live buffer ${new Date().toLocaleString()}`,
+    startedAt,
+    streams,
+    devices,
+    settings,
+    // markers older than the buffer went with their samples
+    markers: markersBetween(markers, startedAt),
+    async *batches() {
+      const samples: IMUSample[] = [];
+      for (const key of keys) {
+        const win = store.window(key);
+        if (!win) continue;
+        const { source, imuId } = parseStreamKey(key);
+        const col = (name: string, i: number) => win.channels[name]?.[i] ?? NaN;
+        for (let i = 0; i < win.time.length; i++) {
+          const s: IMUSample = {
+            imuId,
+            source,
+            hostTime: win.time[i],
+            accel: { x: col("accel.x", i), y: col("accel.y", i), z: col("accel.z", i) },
+            gyro: { x: col("gyro.x", i), y: col("gyro.y", i), z: col("gyro.z", i) },
+            mag: { x: col("mag.x", i), y: col("mag.y", i), z: col("mag.z", i) },
+            quat: { x: col("quat.x", i), y: col("quat.y", i), z: col("quat.z", i), w: col("quat.w", i) },
+          };
+          if (win.gap[i] > 0) s.gap = win.gap[i];
+          for (const name of Object.keys(win.channels).slice(CORE_CHANNELS.length)) {
+            if (!Number.isNaN(win.channels[name][i])) (s.extra ??= {})[name] = win.channels[name][i];
+          }
+          samples.push(s);
+        }
+      }
+      samples.sort(byTime);
+      for (let i = 0; i < samples.length; i += BATCH_ROWS) yield samples.slice(i, i + BATCH_ROWS);
+    },
+  };
+}
+
+// A loaded recording, optionally cropped to [from, to] (recorded host ms)
+export function recordingExportSource(
+  recording: Recording,
+  settings: SessionMeta["settings"],
+  span?: [number, number]
+): ExportSource {
+  const [from, to] = span ?? [-Infinity, Infinity];
+  const samples = recording.samples.filter((s) => s.hostTime >= from && s.hostTime <= to);
+  const extrasByKey = new Map<string, Set<string>>();
+  for (const s of samples) {
+    const key = `${s.source}#${s.imuId}`;
+    const names = extrasByKey.get(key) ?? new Set<string>();
+    for (const name of Object.keys(s.extra ?? {})) names.add(name);
+    extrasByKey.set(key, names);
+  }
+  const streams = describeStreams([...extrasByKey.keys()], recording.devices);
+  for (const stream of streams) {
+    for (const name of extrasByKey.get(stream.key) ?? []) {
+      if (!stream.extras.some((e) => e.name === name)) stream.extras.push({ name, unit: "" });
+    }
+  }
+  const origin = recording.samples[0]?.hostTime ?? 0;
+  const seconds = (t: number) => ((t - origin) / 1000).toFixed(1);
+  return {
+    name: span ? `${recording.name} ${seconds(from)}-${seconds(to)}s` : recording.name,
+    startedAt: samples[0]?.hostTime ?? origin,
+    streams,
+    devices: recording.devices,
+    settings,
+    markers: markersBetween(recording.markers, from, to),
+    async *batches() {
+      for (let i = 0; i < samples.length; i += BATCH_ROWS) yield samples.slice(i, i + BATCH_ROWS);
+    },
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "./crc32";
+import { ZipWriter, readZip } from "./zip";
+import type { ExportSink } from "./download";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+// Collects what a writer produces, copying each piece as a file sink would
+function memorySink() {
+  const parts: Uint8Array[] = [];
+  const sink: ExportSink = {
+    write: async (data) => void parts.push(typeof data === "string" ? bytes(data) : data.slice()),
+  };
+  const all = () => {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let offset = 0;
+    for (const p of parts) {
+      out.set(p, offset);
+      offset += p.length;
+    }
+    return out;
+  };
+  return { sink, all };
+}
+
+describe("ZipWriter / readZip", () => {
+  it("round-trips entries added whole", async () => {
+    const { sink, all } = memorySink();
+    const zip = new ZipWriter(sink);
+    await zip.add("a.txt", bytes("hello"));
+    await zip.add("dir/ünïcode.bin", Uint8Array.of(0, 1, 2, 255));
+    await zip.add("empty", new Uint8Array(0));
+    await zip.finish();
+
+    const entries = readZip(all());
+    expect([...entries.keys()]).toEqual(["a.txt", "dir/ünïcode.bin", "empty"]);
+    expect(text(entries.get("a.txt"))).toBe("hello");
+    expect([...entries.get("dir/ünïcode.bin")]).toEqual([0, 1, 2, 255]);
+    expect(entries.get("empty")).toHaveLength(0);
+  });
+
+  it("streams entries with a data descriptor carrying the CRC and size", async () => {
+    const { sink, all } = memorySink();
+    const zip = new ZipWriter(sink);
+    await zip.stream("streamed.csv", async (file) => {
+      await file.write("time,value\n");
+      await file.write(bytes("0,1\n"));
+      await file.write("1,2\n");
+    });
+    await zip.add("after.txt", bytes("next"));
+    await zip.finish();
+
+    const out = all();
+    const entries = readZip(out);
+    expect(text(entries.get("streamed.csv"))).toBe("time,value\n0,1\n1,2\n");
+    expect(text(entries.get("after.txt"))).toBe("next");
+
+    const view = new DataView(out.buffer);
+    // local header: flag bit 3 set, CRC and sizes left zero
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true) & 0x0008).toBe(0x0008);
+    expect(view.getUint32(14, true)).toBe(0);
+    // the descriptor follows the data
+    const nameLength = view.getUint16(26, true);
+    const descriptor = 30 + nameLength + entries.get("streamed.csv").length;
+    expect(view.getUint32(descriptor, true)).toBe(0x08074b50);
+    expect(view.getUint32(descriptor + 4, true)).toBe(crc32(bytes("time,value\n0,1\n1,2\n")));
+    expect(view.getUint32(descriptor + 8, true)).toBe(19);
+  });
+
+  it("nests a zip streamed into another", async () => {
+    const { sink, all } = memorySink();
+    const outer = new ZipWriter(sink);
+    await outer.stream("inner.zip", async (file) => {
+      const inner = new ZipWriter(file);
+      await inner.add("x.npy", bytes("payload"));
+      await inner.finish();
+    });
+    await outer.finish();
+
+    const inner = readZip(readZip(all()).get("inner.zip"));
+    expect(text(inner.get("x.npy"))).toBe("payload");
+  });
+
+  it("rejects files that aren't zips", () => {
+    expect(() => readZip(bytes("definitely not a zip archive"))).toThrow("Not a zip file");
+  });
+});
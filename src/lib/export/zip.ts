@@ -0,0 +1,125 @@
+import { ByteWriter } from "./byteWriter";
+import { crc32, crc32Update } from "./crc32";
+import type { ExportSink } from "./download";
+
+// flags: UTF-8 names, and (bit 3) CRC and sizes in a data descriptor after the data
+const UTF8 = 0x0800;
+const DESCRIPTOR = 0x0008;
+const LIMIT = 0xffffffff;
+
+type Entry = { name: Uint8Array; flags: number; crc: number; size: number };
+
+const entryFields = (w: ByteWriter, { name, flags, crc, size }: Entry) =>
+  w
+    .u16(20) // version needed: 2.0
+    .u16(flags)
+    .u16(0) // stored
+    .u16(0) // time
+    .u16(0x21) // date: 1980-01-01
+    .u32(crc)
+    .u32(size)
+    .u32(size)
+    .u16(name.length)
+    .u16(0); // extra length
+
+// Stored (uncompressed) zip, written entry by entry; sizes are limited to 4 GiB (no ZIP64)
+export class ZipWriter {
+  private offset = 0;
+  private central = new ByteWriter();
+  private count = 0;
+
+  constructor(private sink: ExportSink) {}
+
+  async add(name: string, data: Uint8Array) {
+    if (data.length > LIMIT || this.offset > LIMIT) throw new Error("Export too large for a zip file (over 4 GiB)");
+    const entry = { name: new TextEncoder().encode(name), flags: UTF8, crc: crc32(data), size: data.length };
+    const start = this.offset;
+    await this.writeRaw(entryFields(new ByteWriter().u32(0x04034b50), entry).bytes(entry.name).take());
+    await this.writeRaw(data);
+    this.directory(entry, start);
+  }
+
+  // Writes an entry as `produce` generates it, without holding it in memory: the local header
+  // goes out with no CRC or size, and a data descriptor after the data carries them
+  async stream(name: string, produce: (sink: ExportSink) => Promise<void>) {
+    if (this.offset > LIMIT) throw new Error("Export too large for a zip file (over 4 GiB)");
+    const entry = { name: new TextEncoder().encode(name), flags: UTF8 | DESCRIPTOR, crc: 0, size: 0 };
+    const start = this.offset;
+    await this.writeRaw(entryFields(new ByteWriter().u32(0x04034b50), entry).bytes(entry.name).take());
+    const encoder = new TextEncoder();
+    await produce({
+      write: async (data) => {
+        const bytes = typeof data === "string" ? encoder.encode(data) : data;
+        entry.crc = crc32Update(entry.crc, bytes);
+        entry.size += bytes.length;
+        if (entry.size > LIMIT) throw new Error("Export too large for a zip file (over 4 GiB)");
+        await this.writeRaw(bytes);
+      },
+    });
+    await this.writeRaw(new ByteWriter().u32(0x08074b50).u32(entry.crc).u32(entry.size).u32(entry.size).take());
+    this.directory(entry, start);
+  }
+
+  private async writeRaw(bytes: Uint8Array) {
+    await this.sink.write(bytes);
+    this.offset += bytes.length;
+  }
+
+  private directory(entry: Entry, offset: number) {
+    entryFields(this.central.u32(0x02014b50).u16(20), entry)
+      .u16(0) // comment length
+      .u16(0) // disk
+      .u16(0) // internal attributes
+      .u32(0) // external attributes
+      .u32(offset)
+      .bytes(entry.name);
+    this.count++;
+  }
+
+  async finish() {
+    const directory = this.central.take();
+    await this.sink.write(directory);
+    await this.sink.write(
+      new ByteWriter()
+        .u32(0x06054b50)
+        .u16(0)
+        .u16(0)
+        .u16(this.count)
+        .u16(this.count)
+        .u32(directory.length)
+        .u32(this.offset)
+        .u16(0)
+        .take()
+    );
+  }
+}
+
+// Entries of a zip written by ZipWriter (or any other stored, non-ZIP64 zip), by name.
+// Entries are views into `bytes`, not copies.
+export function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // the end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error("Not a zip file");
+
+  const entries = new Map<string, Uint8Array>();
+  const count = view.getUint16(end + 10, true);
+  let p = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(p, true) !== 0x02014b50) throw new Error("Corrupt zip directory");
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    const local = view.getUint32(p + 42, true);
+    const name = decoder.decode(bytes.subarray(p + 46, p + 46 + nameLength));
+    if (method !== 0) throw new Error(`Compressed zip entry ${name} is not supported`);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    entries.set(name, bytes.subarray(start, start + size));
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
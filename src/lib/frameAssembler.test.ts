@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { BINARY_HEADER_F32, BINARY_HEADER_I16, encodeBinary } from "@/lib/binaryFrames";
+import { createFrameAssembler, unescapeDelimiter } from "@/lib/frameAssembler";
+import type { IMUSample } from "@/lib/imuParser";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const text = (frames: Uint8Array[]) => frames.map((f) => new TextDecoder().decode(f));
+
+const sample = (imuId: number): IMUSample => ({
+  imuId,
+  accel: { x: 1, y: 2, z: 3 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+describe("frame assembly", () => {
+  it("joins lines split across chunks and strips CR", () => {
+    const a = createFrameAssembler("csv");
+    expect(a.push(bytes("0,1,2"))).toEqual([]);
+    expect(text(a.push(bytes(",3\r\n4,5\n\n6")))).toEqual(["0,1,2,3", "4,5"]);
+    expect(a.stats).toMatchObject({ frames: 2, truncated: 0 });
+  });
+
+  it("drops a frame that grows past the limit and picks up at the next delimiter", () => {
+    const a = createFrameAssembler("csv", { delimiter: ";", maxFrameLength: 8 });
+    expect(a.push(bytes("0123456789"))).toEqual([]);
+    expect(text(a.push(bytes("abc;1,2;")))).toEqual(["1,2"]);
+    expect(a.stats.overflowed).toBe(1);
+  });
+
+  it("counts a partial frame dropped on reset as truncated", () => {
+    const a = createFrameAssembler("csv");
+    a.push(bytes("0,1"));
+    a.reset();
+    expect(text(a.push(bytes("2,3\n")))).toEqual(["2,3"]);
+    expect(a.stats.truncated).toBe(1);
+  });
+
+  it("passes chunks through whole without a delimiter", () => {
+    const a = createFrameAssembler("csv", { delimiter: "", maxFrameLength: 1024 });
+    expect(text(a.push(bytes("0,1\n2,3")))).toEqual(["0,1\n2,3"]);
+  });
+
+  it("cuts binary records by their header and resynchronises after garbage", () => {
+    const a = createFrameAssembler("binary");
+    const f32 = encodeBinary([sample(0)], BINARY_HEADER_F32);
+    const i16 = encodeBinary([sample(1)], BINARY_HEADER_I16);
+    const stream = new Uint8Array([0x01, 0x02, ...f32, ...i16]);
+    expect(a.push(stream.subarray(0, 30))).toEqual([]);
+    const frames = a.push(stream.subarray(30));
+    expect(frames.map((f) => f.length)).toEqual([f32.length, i16.length]);
+    expect(a.stats).toMatchObject({ frames: 2, truncated: 1 });
+  });
+
+  it("unescapes typed delimiters", () => {
+    expect(unescapeDelimiter("\\r\\n")).toBe("\r\n");
+    expect(unescapeDelimiter(";")).toBe(";");
+  });
+});
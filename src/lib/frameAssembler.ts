@@ -0,0 +1,208 @@
+import { binaryRecordLength, isBinaryHeader } from "@/lib/binaryFrames";
+import type { FrameFormat } from "@/lib/imuParser";
+
+export type FrameAssemblerStats = {
+  frames: number;
+  // frames cut short: partial records dropped on reset, or records missing fields
+  truncated: number;
+  // frames that grew past maxFrameLength before a delimiter showed up
+  overflowed: number;
+};
+
+export type FrameAssemblerOptions = {
+  // empty string → no reassembly, every chunk is one frame (the legacy BLE behaviour)
+  delimiter: string;
+  maxFrameLength: number;
+  // bytes following each binary record (checksum trailer)
+  trailerLength?: number;
+  // fixed-length binary records from a frame layout, instead of the 0xA0 header family.
+  // Without a magic byte there is nothing to sync on, so every chunk is one frame.
+  record?: { length: number; magic?: number };
+};
+
+export const DEFAULT_FRAME_OPTIONS: FrameAssemblerOptions = {
+  delimiter: "\n",
+  maxFrameLength: 1024,
+};
+
+export interface FrameAssembler {
+  readonly stats: FrameAssemblerStats;
+  // returns every frame completed by this chunk, delimiters stripped
+  push(chunk: Uint8Array): Uint8Array[];
+  markTruncated(): void;
+  reset(): void;
+}
+
+// Settings store the delimiter the way people type it: "\n", "\r\n", ";"
+export function unescapeDelimiter(text: string): string {
+  return text.replace(/\\([nrt0\\])/g, (_, c: string) =>
+    c === "n" ? "\n" : c === "r" ? "\r" : c === "t" ? "\t" : c === "0" ? "\0" : "\\"
+  );
+}
+
+const emptyStats = (): FrameAssemblerStats => ({ frames: 0, truncated: 0, overflowed: 0 });
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length === 0) return b.slice();
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+};
+
+const indexOf = (haystack: Uint8Array, needle: Uint8Array, from: number) => {
+  outer: for (let i = from; i + needle.length <= haystack.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+class DelimitedAssembler implements FrameAssembler {
+  stats = emptyStats();
+
+  private pending = new Uint8Array(0);
+  private delimiter: Uint8Array;
+  // true while skipping the rest of an overflowed frame
+  private discarding = false;
+
+  constructor(private options: FrameAssemblerOptions) {
+    this.delimiter = new TextEncoder().encode(options.delimiter);
+  }
+
+  push(chunk: Uint8Array) {
+    const frames: Uint8Array[] = [];
+    const buf = concat(this.pending, chunk);
+    let start = 0;
+
+    for (;;) {
+      const end = indexOf(buf, this.delimiter, start);
+      if (end < 0) break;
+      const frame = buf.subarray(start, end);
+      start = end + this.delimiter.length;
+
+      if (this.discarding) {
+        this.discarding = false;
+        continue;
+      }
+      if (frame.length > this.options.maxFrameLength) {
+        this.stats.overflowed++;
+        continue;
+      }
+      // "\r\n" line endings when splitting on "\n"
+      const trimmed = frame.length > 0 && frame[frame.length - 1] === 0x0d ? frame.subarray(0, -1) : frame;
+      if (trimmed.length === 0) continue;
+      this.stats.frames++;
+      frames.push(trimmed.slice());
+    }
+
+    this.pending = buf.slice(start);
+    if (this.pending.length > this.options.maxFrameLength) {
+      // Never saw a delimiter: drop what we have and skip to the next one
+      if (!this.discarding) this.stats.overflowed++;
+      this.discarding = true;
+      this.pending = new Uint8Array(0);
+    }
+    return frames;
+  }
+
+  markTruncated() {
+    this.stats.truncated++;
+  }
+
+  reset() {
+    if (this.pending.length > 0) this.stats.truncated++;
+    this.pending = new Uint8Array(0);
+    this.discarding = false;
+  }
+}
+
+// Each chunk is already a whole frame (one BLE notification, one WebSocket message)
+class PassthroughAssembler implements FrameAssembler {
+  stats = emptyStats();
+
+  constructor(private options: FrameAssemblerOptions) {}
+
+  push(chunk: Uint8Array) {
+    if (chunk.length > this.options.maxFrameLength) {
+      this.stats.overflowed++;
+      return [];
+    }
+    this.stats.frames++;
+    return [chunk];
+  }
+
+  markTruncated() {
+    this.stats.truncated++;
+  }
+
+  reset() {}
+}
+
+// Binary records carry their own length in the header byte, so no delimiter is needed
+class BinaryRecordAssembler implements FrameAssembler {
+  stats = emptyStats();
+
+  private pending = new Uint8Array(0);
+
+  constructor(
+    private options: FrameAssemblerOptions,
+    private isHeader: (b: number) => boolean = isBinaryHeader,
+    private recordLength: (header: number) => number = binaryRecordLength
+  ) {}
+
+  push(chunk: Uint8Array) {
+    const frames: Uint8Array[] = [];
+    const buf = concat(this.pending, chunk);
+    let offset = 0;
+    let garbage = false;
+
+    while (offset < buf.length) {
+      if (!this.isHeader(buf[offset])) {
+        // lost sync: a record whose head we never saw
+        if (!garbage) this.stats.truncated++;
+        garbage = true;
+        offset++;
+        continue;
+      }
+      garbage = false;
+      const len = this.recordLength(buf[offset]) + (this.options.trailerLength ?? 0);
+      if (offset + len > buf.length) break;
+      this.stats.frames++;
+      frames.push(buf.slice(offset, offset + len));
+      offset += len;
+    }
+
+    this.pending = buf.slice(offset);
+    if (this.pending.length > this.options.maxFrameLength) {
+      this.stats.overflowed++;
+      this.pending = new Uint8Array(0);
+    }
+    return frames;
+  }
+
+  markTruncated() {
+    this.stats.truncated++;
+  }
+
+  reset() {
+    if (this.pending.length > 0) this.stats.truncated++;
+    this.pending = new Uint8Array(0);
+  }
+}
+
+export function createFrameAssembler(
+  format: FrameFormat,
+  options: FrameAssemblerOptions = DEFAULT_FRAME_OPTIONS
+): FrameAssembler {
+  const { record } = options;
+  if (format === "binary" && record) {
+    if (record.magic === undefined) return new PassthroughAssembler(options);
+    return new BinaryRecordAssembler(options, (b) => b === record.magic, () => record.length);
+  }
+  if (format === "binary") return new BinaryRecordAssembler(options);
+  if (!options.delimiter) return new PassthroughAssembler(options);
+  return new DelimitedAssembler(options);
+}
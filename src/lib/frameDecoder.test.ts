@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DECODE_OPTIONS, FrameDecoder, type DecodeOptions } from "@/lib/frameDecoder";
+import { BINARY_HEADER_F32, encodeBinary } from "@/lib/binaryFrames";
+import { appendChecksum } from "@/lib/frameIntegrity";
+import type { IMUSample } from "@/lib/imuParser";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const sample = (imuId: number, ax = 1): IMUSample => ({
+  imuId,
+  accel: { x: ax, y: 2, z: 3 },
+  gyro: { x: 0.1, y: 0.2, z: 0.3 },
+  mag: { x: 10, y: 20, z: 30 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+const csvRecord = (imuId: number, ax = 1) => `${imuId},${ax},2,3,0.1,0.2,0.3,10,20,30,0,0,0,1`;
+
+const decoder = (options: Partial<DecodeOptions> = {}) => new FrameDecoder({ ...DEFAULT_DECODE_OPTIONS, ...options });
+
+describe("FrameDecoder", () => {
+  it("decodes CSV frames split across chunks", () => {
+    const d = decoder();
+    const frame = `${csvRecord(0)},${csvRecord(1)}\n`;
+    expect(d.push(bytes(frame.slice(0, 17))).samples).toEqual([]);
+    const { samples } = d.push(bytes(frame.slice(17)));
+    expect(samples.map((s) => s.imuId)).toEqual([0, 1]);
+    expect(samples[0].accel).toEqual({ x: 1, y: 2, z: 3 });
+    expect(d.stats).toMatchObject({ frames: 1, accepted: 1, rejected: 0 });
+  });
+
+  it("reads the leading counter and timestamp", () => {
+    const d = decoder({ sequence: true, timestamp: true });
+    const [s] = d.push(bytes(`7,123456,${csvRecord(0)}\n`)).samples;
+    expect(s).toMatchObject({ seq: 7, deviceTime: 123456 });
+  });
+
+  it("rejects frames with a wrong checksum and counts them", () => {
+    const d = decoder({ checksum: "crc8" });
+    const good = appendChecksum(bytes(csvRecord(0)), "csv", "crc8");
+    const bad = appendChecksum(bytes(csvRecord(0, 2)), "csv", "crc8");
+    bad[2] = "5".charCodeAt(0);
+    const { samples } = d.push(new Uint8Array([...good, 0x0a, ...bad, 0x0a]));
+    expect(samples).toHaveLength(1);
+    expect(d.stats).toMatchObject({ accepted: 1, rejected: 1, checksumErrors: 1 });
+  });
+
+  it("drops a whole frame when any value is out of range", () => {
+    const d = decoder();
+    expect(d.push(bytes(`${csvRecord(0)},${csvRecord(1, 500)}\n`)).samples).toEqual([]);
+    expect(d.stats).toMatchObject({ rejected: 1, invalidFields: 1 });
+  });
+
+  it("applies the profile's limits", () => {
+    const d = decoder({ limits: { accel: 1000, gyro: 35, mag: 5000, quat: 1.01 } });
+    expect(d.push(bytes(`${csvRecord(0, 500)}\n`)).samples).toHaveLength(1);
+  });
+
+  it("hands '#' lines to the command channel instead of decoding them", () => {
+    const d = decoder();
+    const { samples, replies } = d.push(bytes(`#OK rate 100\n${csvRecord(0)}\n`));
+    expect(replies).toEqual(["#OK rate 100"]);
+    expect(samples).toHaveLength(1);
+  });
+
+  it("decodes binary records and resynchronises after garbage", () => {
+    const d = decoder({ format: "binary" });
+    const records = encodeBinary([sample(0), sample(1, 4)], BINARY_HEADER_F32);
+    const { samples } = d.push(new Uint8Array([0x00, 0x13, ...records]));
+    expect(samples.map((s) => [s.imuId, s.accel.x])).toEqual([
+      [0, 1],
+      [1, 4],
+    ]);
+  });
+
+  it("decodes extra channels declared in a layout", () => {
+    const d = decoder({
+      layout: {
+        header: [{ name: "seq" }],
+        record: [
+          { name: "imuId" },
+          ...["accel", "gyro", "mag"].flatMap((g) => ["x", "y", "z"].map((a) => ({ name: `${g}.${a}` }))),
+          ...["x", "y", "z", "w"].map((a) => ({ name: `quat.${a}` })),
+          { name: "temp", scale: 0.01, unit: "°C" },
+        ],
+      },
+    });
+    const [s] = d.push(bytes(`3,${csvRecord(2)},2500\n`)).samples;
+    expect(s).toMatchObject({ imuId: 2, seq: 3, extra: { temp: 25 } });
+  });
+
+  it("forgets a partial frame on reset", () => {
+    const d = decoder();
+    d.push(bytes(csvRecord(0).slice(0, 10)));
+    d.reset();
+    expect(d.push(bytes(`${csvRecord(1)}\n`)).samples.map((s) => s.imuId)).toEqual([1]);
+  });
+});
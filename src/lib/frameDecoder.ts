@@ -0,0 +1,147 @@
+import { IMU_GROUP, decodePacket, type FrameFormat, type IMUSample } from "@/lib/imuParser";
+import {
+  DEFAULT_FRAME_OPTIONS,
+  createFrameAssembler,
+  type FrameAssembler,
+  type FrameAssemblerOptions,
+} from "@/lib/frameAssembler";
+import {
+  DEFAULT_SAMPLE_LIMITS,
+  checksumLength,
+  isValidSample,
+  verifyChecksum,
+  type ChecksumKind,
+  type SampleLimits,
+} from "@/lib/frameIntegrity";
+import type { BinaryScales } from "@/lib/binaryFrames";
+import { decodeWithLayout, layoutRecordLength, type FrameLayout } from "@/lib/frameLayout";
+import { RESPONSE_PREFIX } from "@/lib/commands";
+import type { FrameStats } from "@/lib/transports/types";
+
+export type DecodeOptions = FrameAssemblerOptions & {
+  format: FrameFormat;
+  checksum: ChecksumKind;
+  // CSV frames lead with a sequence counter and/or a µs timestamp
+  // (binary records flag both in their header)
+  sequence: boolean;
+  timestamp: boolean;
+  scales?: BinaryScales;
+  // replaces the standard field order when the firmware sends something else
+  layout?: FrameLayout;
+  limits?: SampleLimits;
+};
+
+export const DEFAULT_DECODE_OPTIONS: DecodeOptions = {
+  format: "csv",
+  checksum: "none",
+  sequence: false,
+  timestamp: false,
+  ...DEFAULT_FRAME_OPTIONS,
+};
+
+export const emptyFrameStats = (): FrameStats => ({
+  frames: 0,
+  truncated: 0,
+  overflowed: 0,
+  accepted: 0,
+  rejected: 0,
+  checksumErrors: 0,
+  invalidFields: 0,
+  dropped: 0,
+  lostBytes: 0,
+});
+
+// Rejects a decoded frame wholesale if any field is NaN or out of range
+export function screenFrame(
+  samples: IMUSample[],
+  stats: FrameStats,
+  limits: SampleLimits = DEFAULT_SAMPLE_LIMITS
+): IMUSample[] {
+  if (samples.length === 0 || !samples.every((s) => isValidSample(s, limits))) {
+    stats.invalidFields++;
+    stats.rejected++;
+    return [];
+  }
+  stats.accepted++;
+  return samples;
+}
+
+export type DecodedChunk = {
+  samples: IMUSample[];
+  // '#' command responses found among the frames
+  replies: string[];
+};
+
+// Raw bytes → screened samples: reassembly, checksums and field decoding, with no
+// DOM or transport dependencies so it runs the same on the main thread and in a worker.
+export class FrameDecoder {
+  private assembler: FrameAssembler;
+  private counters = emptyFrameStats();
+
+  constructor(private decode: DecodeOptions) {
+    const { layout } = decode;
+    this.assembler = createFrameAssembler(decode.format, {
+      ...decode,
+      trailerLength: checksumLength(decode.checksum),
+      record: layout && { length: layoutRecordLength(layout), magic: layout.magic },
+    });
+  }
+
+  get stats(): FrameStats {
+    return { ...this.counters, ...this.assembler.stats };
+  }
+
+  push(chunk: Uint8Array): DecodedChunk {
+    const { format, checksum, sequence, timestamp, scales, layout, limits } = this.decode;
+    const samples: IMUSample[] = [];
+    const replies: string[] = [];
+
+    // Command responses arrive as whole '#' text lines; binary records can't start with '#',
+    // except under a layout without a magic byte, where any first byte is possible
+    const answers = format === "csv" || !layout || (layout.magic !== undefined && layout.magic !== RESPONSE_PREFIX);
+    if (format === "binary" && answers && chunk[0] === RESPONSE_PREFIX) {
+      for (const line of new TextDecoder().decode(chunk).split(/\r?\n/)) {
+        if (line.trim()) replies.push(line);
+      }
+      return { samples, replies };
+    }
+
+    const leading = (sequence ? 1 : 0) + (timestamp ? 1 : 0);
+    for (const frame of this.assembler.push(chunk)) {
+      if (answers && frame[0] === RESPONSE_PREFIX) {
+        replies.push(new TextDecoder().decode(frame));
+        continue;
+      }
+      const body = verifyChecksum(frame, format, checksum);
+      if (!body) {
+        this.counters.checksumErrors++;
+        this.counters.rejected++;
+        continue;
+      }
+      if (layout) {
+        const decoded = decodeWithLayout(body, format, layout);
+        if (decoded.truncated) this.assembler.markTruncated();
+        samples.push(...screenFrame(decoded.samples, this.counters, limits));
+        continue;
+      }
+      if (format === "csv" && (countFields(body) - leading) % IMU_GROUP !== 0) {
+        this.assembler.markTruncated();
+      }
+      samples.push(...screenFrame(decodePacket(body, format, { sequence, timestamp, scales }), this.counters, limits));
+    }
+    return { samples, replies };
+  }
+
+  // Drops any partial frame, e.g. when the link goes away mid-record
+  reset() {
+    this.assembler.reset();
+  }
+}
+
+const COMMA = 0x2c;
+
+function countFields(frame: Uint8Array) {
+  let n = 1;
+  for (const b of frame) if (b === COMMA) n++;
+  return n;
+}
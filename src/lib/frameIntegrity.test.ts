@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SAMPLE_LIMITS,
+  appendChecksum,
+  crc16,
+  crc8,
+  isValidSample,
+  limitsForUnits,
+  verifyChecksum,
+} from "@/lib/frameIntegrity";
+import type { IMUSample } from "@/lib/imuParser";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const sample = (accelX: number): IMUSample => ({
+  imuId: 0,
+  accel: { x: accelX, y: 0, z: 9.81 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 20, y: 0, z: 40 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+describe("crc8 / crc16", () => {
+  // standard check values over "123456789"
+  it("computes CRC-8/SMBUS", () => {
+    expect(crc8(bytes("123456789"))).toBe(0xf4);
+  });
+
+  it("computes CRC-16/CCITT-FALSE", () => {
+    expect(crc16(bytes("123456789"))).toBe(0x29b1);
+  });
+});
+
+describe("verifyChecksum", () => {
+  it.each([
+    ["csv", "crc8"],
+    ["csv", "crc16"],
+    ["binary", "crc8"],
+    ["binary", "crc16"],
+  ] as const)("round-trips %s frames with %s trailers", (format, kind) => {
+    const body = bytes("0,1,2,3");
+    expect(verifyChecksum(appendChecksum(body, format, kind), format, kind)).toEqual(body);
+  });
+
+  it("writes CSV trailers as upper-case hex", () => {
+    expect(new TextDecoder().decode(appendChecksum(bytes("123456789"), "csv", "crc16"))).toBe("123456789*29B1");
+  });
+
+  it("rejects a corrupted body", () => {
+    const frame = appendChecksum(bytes("0,1,2,3"), "csv", "crc8");
+    frame[0] = "9".charCodeAt(0);
+    expect(verifyChecksum(frame, "csv", "crc8")).toBeNull();
+  });
+
+  it("rejects a missing or malformed trailer", () => {
+    expect(verifyChecksum(bytes("0,1,2,3"), "csv", "crc8")).toBeNull();
+    expect(verifyChecksum(bytes("0,1,2,3*zz"), "csv", "crc8")).toBeNull();
+    expect(verifyChecksum(Uint8Array.of(1), "binary", "crc16")).toBeNull();
+  });
+
+  it("passes frames through without a checksum", () => {
+    const frame = bytes("0,1,2,3");
+    expect(verifyChecksum(frame, "csv", "none")).toBe(frame);
+  });
+});
+
+describe("sample limits", () => {
+  it("accepts plausible samples and rejects out-of-range or NaN ones", () => {
+    expect(isValidSample(sample(1))).toBe(true);
+    expect(isValidSample(sample(200))).toBe(false);
+    expect(isValidSample(sample(NaN))).toBe(false);
+    expect(isValidSample({ ...sample(1), imuId: -1 })).toBe(false);
+  });
+
+  it("scales the default ranges to the device's units", () => {
+    expect(limitsForUnits({ accel: "g", gyro: "deg/s", mag: "mT" })).toEqual({
+      accel: 16,
+      gyro: 2000,
+      mag: 5,
+      quat: DEFAULT_SAMPLE_LIMITS.quat,
+    });
+    expect(limitsForUnits({ accel: "mg", gyro: "°/s", mag: "µT" })).toMatchObject({ accel: 16000, gyro: 2000, mag: 5000 });
+  });
+
+  it("keeps the SI defaults for units it doesn't know", () => {
+    const limits = limitsForUnits({ accel: "furlongs", gyro: "", mag: "?" });
+    expect(limits.accel).toBe(DEFAULT_SAMPLE_LIMITS.accel);
+    expect(limits.gyro).toBe(DEFAULT_SAMPLE_LIMITS.gyro);
+    expect(limits.mag).toBe(DEFAULT_SAMPLE_LIMITS.mag);
+  });
+
+  it("lets a deg/s device turn faster than 35 °/s", () => {
+    const fast = { ...sample(0), gyro: { x: 500, y: 0, z: 0 }, accel: { x: 0, y: 0, z: 1 } };
+    expect(isValidSample(fast)).toBe(false);
+    expect(isValidSample(fast, limitsForUnits({ accel: "g", gyro: "deg/s", mag: "µT" }))).toBe(true);
+  });
+});
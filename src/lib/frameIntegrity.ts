@@ -0,0 +1,122 @@
+import type { FrameFormat, IMUSample } from "@/lib/imuParser";
+
+export type ChecksumKind = "none" | "crc8" | "crc16";
+
+/*
+ * Optional checksum trailers:
+ *   CSV     "<values>*XX" (crc8) or "<values>*XXXX" (crc16), hex over every byte before '*'
+ *   binary  1 (crc8) or 2 (crc16, little-endian) bytes after each record, over the record bytes
+ *
+ * CRC-8 is CRC-8/SMBUS (poly 0x07, init 0x00); CRC-16 is CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF).
+ */
+export function crc8(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const b of bytes) {
+    crc ^= b;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+export function crc16(bytes: Uint8Array): number {
+  let crc = 0xffff;
+  for (const b of bytes) {
+    crc ^= b << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+export const checksumLength = (kind: ChecksumKind) => (kind === "crc8" ? 1 : kind === "crc16" ? 2 : 0);
+
+const compute = (kind: ChecksumKind, bytes: Uint8Array) => (kind === "crc8" ? crc8(bytes) : crc16(bytes));
+
+const STAR = 0x2a;
+
+// Returns the frame body with the trailer stripped, or null when the checksum is missing or wrong
+export function verifyChecksum(frame: Uint8Array, format: FrameFormat, kind: ChecksumKind): Uint8Array | null {
+  if (kind === "none") return frame;
+
+  if (format === "binary") {
+    const n = checksumLength(kind);
+    if (frame.length <= n) return null;
+    const body = frame.subarray(0, frame.length - n);
+    const expected = n === 1 ? frame[frame.length - 1] : frame[frame.length - 2] | (frame[frame.length - 1] << 8);
+    return compute(kind, body) === expected ? body : null;
+  }
+
+  const star = frame.lastIndexOf(STAR);
+  if (star < 0) return null;
+  const body = frame.subarray(0, star);
+  const trailer = new TextDecoder().decode(frame.subarray(star + 1)).trim();
+  if (!/^[0-9a-f]+$/i.test(trailer)) return null;
+  return compute(kind, body) === parseInt(trailer, 16) ? body : null;
+}
+
+// Appends a trailer; the inverse of verifyChecksum (for bridges and fake devices)
+export function appendChecksum(body: Uint8Array, format: FrameFormat, kind: ChecksumKind): Uint8Array {
+  if (kind === "none") return body;
+  const crc = compute(kind, body);
+  let trailer: Uint8Array;
+  if (format === "binary") {
+    trailer = kind === "crc8" ? Uint8Array.of(crc) : Uint8Array.of(crc & 0xff, crc >> 8);
+  } else {
+    const hex = crc.toString(16).toUpperCase().padStart(kind === "crc8" ? 2 : 4, "0");
+    trailer = new TextEncoder().encode(`*${hex}`);
+  }
+  const out = new Uint8Array(body.length + trailer.length);
+  out.set(body);
+  out.set(trailer, body.length);
+  return out;
+}
+
+export type SampleLimits = {
+  accel: number;
+  gyro: number;
+  mag: number;
+  quat: number;
+};
+
+// ±16 g, ±2000 °/s, ±5 mT, unit quaternion with some slack
+export const DEFAULT_SAMPLE_LIMITS: SampleLimits = {
+  accel: 16 * 9.81,
+  gyro: 35,
+  mag: 5000,
+  quat: 1.01,
+};
+
+// How many of each device unit make 1 g, 1 °/s and 1 µT
+const UNIT_SIZES: Record<"accel" | "gyro" | "mag", Record<string, number>> = {
+  accel: { g: 1, mg: 1000, "m/s²": 9.80665, "m/s^2": 9.80665, "m/s2": 9.80665 },
+  gyro: { "°/s": 1, "deg/s": 1, dps: 1, "rad/s": Math.PI / 180 },
+  mag: { µT: 1, uT: 1, nT: 1000, mT: 0.001, G: 0.01, gauss: 0.01, mG: 10 },
+};
+
+const FULL_SCALE = { accel: 16, gyro: 2000, mag: 5000 };
+
+// The default ranges expressed in the units a device reports; unknown units keep the SI default
+export function limitsForUnits(units: { accel: string; gyro: string; mag: string }): SampleLimits {
+  const limit = (k: keyof typeof FULL_SCALE) => {
+    const size = UNIT_SIZES[k][units[k].trim()];
+    return size === undefined ? DEFAULT_SAMPLE_LIMITS[k] : FULL_SCALE[k] * size;
+  };
+  return { accel: limit("accel"), gyro: limit("gyro"), mag: limit("mag"), quat: DEFAULT_SAMPLE_LIMITS.quat };
+}
+
+const inRange = (v: { [k: string]: number }, limit: number) =>
+  Object.values(v).every((n) => Number.isFinite(n) && Math.abs(n) <= limit);
+
+export function isValidSample(s: IMUSample, limits: SampleLimits = DEFAULT_SAMPLE_LIMITS): boolean {
+  return (
+    Number.isInteger(s.imuId) &&
+    s.imuId >= 0 &&
+    inRange(s.accel, limits.accel) &&
+    inRange(s.gyro, limits.gyro) &&
+    inRange(s.mag, limits.mag) &&
+    inRange(s.quat, limits.quat)
+  );
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { decodeWithLayout, extraChannels, parseFrameLayout, type FrameLayout } from "@/lib/frameLayout";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const core = ["accel", "gyro", "mag"].flatMap((g) => ["x", "y", "z"].map((a) => ({ name: `${g}.${a}` })));
+const quat = ["x", "y", "z", "w"].map((a) => ({ name: `quat.${a}` }));
+const csvRecord = (imuId: number) => `${imuId},1,2,3,0.1,0.2,0.3,10,20,30,0,0,0,1`;
+
+describe("frame layouts", () => {
+  it("validates layouts from JSON", () => {
+    expect(parseFrameLayout("{").error).toBeTruthy();
+    expect(parseFrameLayout(JSON.stringify({ record: [{ name: "imuId" }] })).error).toMatch(/missing accel\.x/);
+    const { layout, error } = parseFrameLayout(JSON.stringify({ record: [{ name: "imuId" }, ...core, ...quat] }));
+    expect(error).toBeNull();
+    expect(layout?.record).toHaveLength(14);
+  });
+
+  it("decodes CSV header fields, scaled extras and several records", () => {
+    const layout: FrameLayout = {
+      header: [{ name: "seq" }],
+      record: [{ name: "imuId" }, ...core, ...quat, { name: "temp", scale: 0.01, unit: "°C" }],
+    };
+    const { samples, truncated } = decodeWithLayout(bytes(`3,${csvRecord(0)},2500,${csvRecord(1)},2600`), "csv", layout);
+    expect(truncated).toBe(false);
+    expect(samples).toMatchObject([
+      { imuId: 0, seq: 3, accel: { x: 1 }, extra: { temp: 25 } },
+      { imuId: 1, seq: 3, extra: { temp: 26 } },
+    ]);
+    expect(extraChannels(layout)).toEqual([{ name: "temp", unit: "°C" }]);
+  });
+
+  it("reads typed binary fields after the magic byte", () => {
+    const layout: FrameLayout = {
+      record: [{ name: "imuId", type: "u8" }, ...[...core, ...quat].map((f) => ({ ...f, type: "i16" as const, scale: 0.5 }))],
+      magic: 0x55,
+    };
+    const body = new Uint8Array(1 + 1 + 13 * 2);
+    const dv = new DataView(body.buffer);
+    body[0] = 0x55;
+    body[1] = 4;
+    for (let i = 0; i < 13; i++) dv.setInt16(2 + i * 2, -2 * (i + 1), true);
+    const { samples } = decodeWithLayout(body, "binary", layout);
+    expect(samples).toMatchObject([{ imuId: 4, accel: { x: -1, y: -2, z: -3 }, quat: { w: -13 } }]);
+  });
+
+  it("flags a frame that stops part-way through a record", () => {
+    const layout: FrameLayout = { record: [{ name: "imuId" }, ...core, ...quat] };
+    const { samples, truncated } = decodeWithLayout(bytes(`${csvRecord(0)},1,2`), "csv", layout);
+    expect(samples).toHaveLength(1);
+    expect(truncated).toBe(true);
+  });
+});
@@ -0,0 +1,236 @@
+import { z } from "zod";
+import type { FrameFormat, IMUSample } from "@/lib/imuParser";
+
+/*
+ * Declarative description of what a frame contains, for firmware that doesn't send the
+ * standard 14-value group. A frame is
+ *
+ *   [header fields][record][record]...
+ *
+ * where header fields (counters, timestamps) are shared by every record, and each record
+ * describes one IMU. CSV splits on commas; binary reads each field's type, little-endian.
+ *
+ * Field names the decoder understands:
+ *   imuId                 which IMU the record belongs to (0 when absent)
+ *   seq                   frame counter, fed to loss tracking
+ *   time                  device timestamp, µs after scaling
+ *   accel.x … quat.w      the 13 core values, all required in the record
+ * Any other name is an extra channel (temperature, pressure, ...) that ends up in sample.extra.
+ */
+export const FIELD_TYPES = ["u8", "i8", "u16", "i16", "u32", "i32", "f32"] as const;
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+export type LayoutField = {
+  name: string;
+  // binary width and signedness; CSV ignores it
+  type?: FieldType;
+  // decoded value = raw × scale
+  scale?: number;
+  unit?: string;
+  // a blank or non-numeric value leaves the field out instead of rejecting the frame
+  optional?: boolean;
+};
+
+export type FrameLayout = {
+  header?: LayoutField[];
+  record: LayoutField[];
+  // binary: byte every record starts with, used to find records in a byte stream.
+  // Without one, each packet is a frame of its own.
+  magic?: number;
+};
+
+const CORE_FIELDS = [
+  "accel.x", "accel.y", "accel.z",
+  "gyro.x", "gyro.y", "gyro.z",
+  "mag.x", "mag.y", "mag.z",
+  "quat.x", "quat.y", "quat.z", "quat.w",
+];
+const KNOWN_FIELDS = new Set(["imuId", "seq", "time", ...CORE_FIELDS]);
+
+const layoutFieldSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][\w.]*$/, "Field names are letters, digits, '_' and '.'"),
+  type: z.enum(FIELD_TYPES).optional(),
+  scale: z.number().refine((n) => n !== 0, "Scale can't be 0").optional(),
+  unit: z.string().optional(),
+  optional: z.boolean().optional(),
+});
+
+export const frameLayoutSchema = z
+  .object({
+    header: z.array(layoutFieldSchema).optional(),
+    record: z.array(layoutFieldSchema).min(1),
+    magic: z.number().int().min(0).max(255).optional(),
+  })
+  .superRefine((layout, ctx) => {
+    const names = [...(layout.header ?? []), ...layout.record].map((f) => f.name);
+    const dup = names.find((n, i) => names.indexOf(n) !== i);
+    if (dup) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Field "${dup}" appears twice` });
+
+    const recordNames = layout.record.map((f) => f.name);
+    const missing = CORE_FIELDS.filter((n) => !recordNames.includes(n));
+    if (missing.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["record"], message: `Record is missing ${missing.join(", ")}` });
+    }
+    for (const f of [...(layout.header ?? []), ...layout.record]) {
+      if (f.optional && CORE_FIELDS.includes(f.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Core field "${f.name}" can't be optional` });
+      }
+    }
+    if (layout.magic !== undefined && (layout.header ?? []).length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["header"],
+        message: "Records found by a magic byte can't share header fields; move them into the record",
+      });
+    }
+  });
+
+// The layout the firmware has always sent: CSV groups of 14, or 0xA0 float32 records
+export const STANDARD_LAYOUT: FrameLayout = {
+  record: [{ name: "imuId", type: "u8" }, ...CORE_FIELDS.map((name) => ({ name, type: "f32" as const }))],
+  magic: 0xa0,
+};
+
+export function parseFrameLayout(json: string): { layout: FrameLayout | null; error: string | null } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    return { layout: null, error: e instanceof Error ? e.message : "Invalid JSON" };
+  }
+  const res = frameLayoutSchema.safeParse(raw);
+  if (!res.success) return { layout: null, error: res.error.issues[0]?.message ?? "Invalid layout" };
+  return { layout: res.data as FrameLayout, error: null };
+}
+
+const WIDTH: Record<FieldType, number> = { u8: 1, i8: 1, u16: 2, i16: 2, u32: 4, i32: 4, f32: 4 };
+
+const fieldWidth = (f: LayoutField) => WIDTH[f.type ?? "f32"];
+
+export const layoutBytes = (fields: LayoutField[] = []) => fields.reduce((n, f) => n + fieldWidth(f), 0);
+
+// Binary record length, including the magic byte
+export const layoutRecordLength = (layout: FrameLayout) =>
+  (layout.magic !== undefined ? 1 : 0) + layoutBytes(layout.record);
+
+// Extra channels (not imuId/seq/time/core) with their units, for charts and exports
+export const extraChannels = (layout: FrameLayout) =>
+  [...(layout.header ?? []), ...layout.record]
+    .filter((f) => !KNOWN_FIELDS.has(f.name))
+    .map((f) => ({ name: f.name, unit: f.unit ?? "" }));
+
+function readField(dv: DataView, offset: number, type: FieldType = "f32"): number {
+  switch (type) {
+    case "u8":
+      return dv.getUint8(offset);
+    case "i8":
+      return dv.getInt8(offset);
+    case "u16":
+      return dv.getUint16(offset, true);
+    case "i16":
+      return dv.getInt16(offset, true);
+    case "u32":
+      return dv.getUint32(offset, true);
+    case "i32":
+      return dv.getInt32(offset, true);
+    case "f32":
+      return dv.getFloat32(offset, true);
+  }
+}
+
+type Values = Map<string, number>;
+
+// Scales and checks raw values; null when a required field is unusable
+function collect(fields: LayoutField[], raw: number[]): Values | null {
+  const out: Values = new Map();
+  for (let i = 0; i < fields.length; i++) {
+    const f = fields[i];
+    const v = raw[i] * (f.scale ?? 1);
+    if (!Number.isFinite(v)) {
+      if (f.optional) continue;
+      return null;
+    }
+    out.set(f.name, v);
+  }
+  return out;
+}
+
+function toSample(header: Values, record: Values): IMUSample | null {
+  const v = (name: string) => record.get(name) ?? 0;
+  const imuId = record.get("imuId") ?? header.get("imuId") ?? 0;
+  if (!(Number.isInteger(imuId) && imuId >= 0)) return null;
+
+  const sample: IMUSample = {
+    imuId,
+    accel: { x: v("accel.x"), y: v("accel.y"), z: v("accel.z") },
+    gyro: { x: v("gyro.x"), y: v("gyro.y"), z: v("gyro.z") },
+    mag: { x: v("mag.x"), y: v("mag.y"), z: v("mag.z") },
+    quat: { x: v("quat.x"), y: v("quat.y"), z: v("quat.z"), w: v("quat.w") },
+  };
+  const seq = record.get("seq") ?? header.get("seq");
+  if (seq !== undefined) sample.seq = seq;
+  const time = record.get("time") ?? header.get("time");
+  if (time !== undefined) sample.deviceTime = time;
+
+  for (const [name, value] of [...header, ...record]) {
+    if (KNOWN_FIELDS.has(name)) continue;
+    (sample.extra ??= {})[name] = value;
+  }
+  return sample;
+}
+
+export type LayoutDecodeResult = {
+  samples: IMUSample[];
+  // the frame ended part-way through a record
+  truncated: boolean;
+};
+
+export function decodeWithLayout(body: Uint8Array, format: FrameFormat, layout: FrameLayout): LayoutDecodeResult {
+  const header = layout.header ?? [];
+  const samples: IMUSample[] = [];
+
+  if (format === "csv") {
+    const raw = new TextDecoder()
+      .decode(body)
+      .trim()
+      .split(",")
+      .map((s) => (s.trim() === "" ? NaN : Number(s)));
+    const head = collect(header, raw.slice(0, header.length));
+    if (!head) return { samples, truncated: false };
+    const group = layout.record.length;
+    let i = header.length;
+    for (; i + group <= raw.length; i += group) {
+      const rec = collect(layout.record, raw.slice(i, i + group));
+      const sample = rec && toSample(head, rec);
+      if (sample) samples.push(sample);
+    }
+    return { samples, truncated: i !== raw.length };
+  }
+
+  const dv = new DataView(body.buffer, body.byteOffset, body.byteLength);
+  const read = (fields: LayoutField[], at: number) => {
+    const raw: number[] = [];
+    for (const f of fields) {
+      raw.push(readField(dv, at, f.type));
+      at += fieldWidth(f);
+    }
+    return raw;
+  };
+
+  const headBytes = layoutBytes(header);
+  if (body.length < headBytes) return { samples, truncated: true };
+  const head = collect(header, read(header, 0));
+  if (!head) return { samples, truncated: false };
+
+  const recordLength = layoutRecordLength(layout);
+  const skip = layout.magic !== undefined ? 1 : 0;
+  let offset = headBytes;
+  for (; offset + recordLength <= body.length; offset += recordLength) {
+    if (skip && body[offset] !== layout.magic) return { samples, truncated: true };
+    const rec = collect(layout.record, read(layout.record, offset + skip));
+    const sample = rec && toSample(head, rec);
+    if (sample) samples.push(sample);
+  }
+  return { samples, truncated: offset !== body.length };
+}
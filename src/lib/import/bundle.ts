@@ -0,0 +1,36 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { PACKED_COLUMNS, unpackSamples } from "@/lib/samplePacking";
+import { readZip } from "@/lib/export/zip";
+import { BUNDLE_FORMAT, BUNDLE_VERSION, type BundleManifest } from "@/lib/export/bundle";
+import { byTime, type Recording } from "./recording";
+
+// Session bundle written by writeBundle
+export function parseBundle(bytes: Uint8Array): Recording {
+  const entries = readZip(bytes);
+  const manifestBytes = entries.get("session.json");
+  if (!manifestBytes) throw new Error("Not a session bundle (no session.json)");
+  const manifest = JSON.parse(new TextDecoder().decode(manifestBytes)) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error("Not a session bundle");
+  if (manifest.version > BUNDLE_VERSION) throw new Error(`Session bundle v${manifest.version} is newer than this app`);
+
+  const samples: IMUSample[] = [];
+  let skipped = 0;
+  for (const part of manifest.parts) {
+    const raw = entries.get(part.entry);
+    const stride = PACKED_COLUMNS.length + part.extras.length;
+    if (!raw || raw.length !== part.count * stride * 8) {
+      skipped += part.count;
+      continue;
+    }
+    // copied: entries are unaligned views into the zip
+    const data = new Float64Array(raw.slice().buffer);
+    for (const s of unpackSamples({ count: part.count, extras: part.extras, data }, part.source)) samples.push(s);
+  }
+  return {
+    name: manifest.name,
+    devices: manifest.devices,
+    samples: samples.sort(byTime),
+    markers: manifest.markers ?? [],
+    skipped,
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseCsvRecording } from "./csv";
+
+const HEADINGS = "time [s],timestamp [ms],device,source,imu,seq,gap,accel.x [m/s²]";
+
+describe("parseCsvRecording", () => {
+  it("keeps two devices of the same name apart in the long layout", () => {
+    const text = [HEADINGS, "0,1000,Pod,link-1,1,,,1", "0,1000,Pod,link-2,1,,,2", "0.01,1010,Pod,link-1,1,,,3"].join("\n");
+    const rec = parseCsvRecording(text, "walk");
+    expect(rec.devices).toMatchObject([
+      { source: "link-1", name: "Pod" },
+      { source: "link-2", name: "Pod" },
+    ]);
+    expect(rec.samples.map((s) => [s.source, s.accel.x])).toEqual([
+      ["link-1", 1],
+      ["link-2", 2],
+      ["link-1", 3],
+    ]);
+  });
+
+  it("falls back to the device name for files without a source column", () => {
+    const text = ["time [s],timestamp [ms],device,imu,accel.x", "0,1000,Pod,2,1", "0,1000,,1,2"].join("\n");
+    const rec = parseCsvRecording(text, "walk");
+    expect(rec.samples.map((s) => [s.source, s.imuId])).toEqual([
+      ["Pod", 1],
+      ["walk", 0],
+    ]);
+    expect(rec.devices.map((d) => d.name)).toEqual(["Pod", "walk"]);
+  });
+});
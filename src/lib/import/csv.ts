@@ -0,0 +1,144 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { CORE_CHANNELS } from "@/lib/sampleStore";
+import { createMarker, type EventMarker } from "@/lib/markers";
+import { byTime, namedDevices, type Recording } from "./recording";
+
+// Cells of one line; quoted cells may contain commas and doubled quotes
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ",") {
+      cells.push(cell);
+      cell = "";
+    } else cell += c;
+  }
+  cells.push(cell);
+  return cells;
+}
+
+// "accel.x [m/s²]" → "accel.x"
+const columnName = (heading: string) => heading.replace(/\s*\[[^\]]*\]\s*$/, "").trim();
+
+const num = (cell: string | undefined) => (cell === undefined || cell.trim() === "" ? NaN : Number(cell));
+
+// Channels a file left out read as 0 (identity for the quaternion), so the views still work
+function buildSample(imuId: number, value: (channel: string) => number, extras: string[]): IMUSample {
+  const [ax, ay, az, gx, gy, gz, mx, my, mz, qx, qy, qz, qw] = CORE_CHANNELS.map((c) => {
+    const v = value(c);
+    return Number.isNaN(v) ? (c === "quat.w" ? 1 : 0) : v;
+  });
+  const sample: IMUSample = {
+    imuId,
+    accel: { x: ax, y: ay, z: az },
+    gyro: { x: gx, y: gy, z: gz },
+    mag: { x: mx, y: my, z: mz },
+    quat: { x: qx, y: qy, z: qz, w: qw },
+  };
+  for (const name of extras) {
+    const v = value(name);
+    if (!Number.isNaN(v)) (sample.extra ??= {})[name] = v;
+  }
+  return sample;
+}
+
+// "IMU 2 accel.x" or "Pod A · IMU 2 accel.x": a wide-layout column
+const WIDE_COLUMN = /^(?:(.+) · )?IMU (\d+) (\S+)$/;
+
+// CSV as writeCsv produces it, in either layout. Timestamps come from "timestamp" (epoch ms)
+// or else "time" (s); units in the headings are dropped. Rows with a "marker" are markers.
+export function parseCsvRecording(text: string, name: string): Recording {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim() !== "");
+  if (lines.length === 0) throw new Error("Empty CSV file");
+  const columns = splitCsvLine(lines[0]).map(columnName);
+  const col = (n: string) => columns.indexOf(n);
+  const timestampCol = col("timestamp");
+  const timeCol = col("time");
+  if (timestampCol < 0 && timeCol < 0) throw new Error("CSV has no time or timestamp column");
+  const rowTime = (cells: string[]) => (timestampCol >= 0 ? num(cells[timestampCol]) : num(cells[timeCol]) * 1000);
+  const [markerCol, noteCol] = ["marker", "marker note"].map(col);
+
+  const samples: IMUSample[] = [];
+  const markers: EventMarker[] = [];
+  // source → device name
+  const devices = new Map<string, string>();
+  let skipped = 0;
+
+  // true when the row was a marker
+  const readMarker = (cells: string[], hostTime: number) => {
+    const label = markerCol >= 0 ? cells[markerCol]?.trim() : "";
+    if (!label) return false;
+    const note = noteCol >= 0 ? cells[noteCol]?.trim() : "";
+    markers.push({ ...createMarker(label, hostTime), ...(note ? { note } : {}) });
+    return true;
+  };
+
+  if (col("imu") >= 0) {
+    // long: one sample per row
+    const [imuCol, deviceCol, sourceCol, seqCol, gapCol] = ["imu", "device", "source", "seq", "gap"].map(col);
+    const channels = new Map(columns.map((c, i) => [c, i]));
+    const reserved = [timestampCol, timeCol, imuCol, deviceCol, sourceCol, seqCol, gapCol, markerCol, noteCol];
+    const extras = columns.filter((c, i) => !reserved.includes(i) && !c.includes("."));
+    for (const line of lines.slice(1)) {
+      const cells = splitCsvLine(line);
+      const hostTime = rowTime(cells);
+      if (!Number.isNaN(hostTime) && readMarker(cells, hostTime)) continue;
+      const imu = num(cells[imuCol]);
+      if (Number.isNaN(hostTime) || !Number.isInteger(imu) || imu < 1) {
+        skipped++;
+        continue;
+      }
+      // two devices may share a name (two of the same profile); the exported link id tells them apart
+      const device = (deviceCol >= 0 && cells[deviceCol]) || name;
+      const source = (sourceCol >= 0 && cells[sourceCol]) || device;
+      devices.set(source, device);
+      const sample = buildSample(imu - 1, (c) => num(cells[channels.get(c) ?? -1]), extras);
+      const seq = num(cells[seqCol]);
+      const gap = num(cells[gapCol]);
+      if (!Number.isNaN(seq)) sample.seq = seq;
+      if (gap > 0) sample.gap = gap;
+      samples.push({ ...sample, hostTime, source });
+    }
+    return { name, devices: namedDevices(devices), samples: samples.sort(byTime), markers, skipped };
+  }
+
+  // wide: a block of columns per IMU; a block with any value in a row is a sample
+  const blocks = new Map<string, { device: string; imuId: number; channels: Map<string, number> }>();
+  columns.forEach((c, i) => {
+    const m = WIDE_COLUMN.exec(c);
+    if (!m) return;
+    const device = m[1] ?? name;
+    const key = `${device}#${m[2]}`;
+    let block = blocks.get(key);
+    if (!block) blocks.set(key, (block = { device, imuId: parseInt(m[2], 10) - 1, channels: new Map() }));
+    block.channels.set(m[3], i);
+  });
+  if (blocks.size === 0) throw new Error("Unrecognised CSV columns: expected an exported IMU layout");
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line);
+    const hostTime = rowTime(cells);
+    if (Number.isNaN(hostTime)) {
+      skipped++;
+      continue;
+    }
+    if (readMarker(cells, hostTime)) continue;
+    for (const { device, imuId, channels } of blocks.values()) {
+      if (![...channels.values()].some((i) => cells[i]?.trim())) continue;
+      devices.set(device, device);
+      const extras = [...channels.keys()].filter((c) => !c.includes("."));
+      const sample = buildSample(imuId, (c) => num(cells[channels.get(c) ?? -1]), extras);
+      samples.push({ ...sample, hostTime, source: device });
+    }
+  }
+  return { name, devices: namedDevices(devices), samples: samples.sort(byTime), markers, skipped };
+}
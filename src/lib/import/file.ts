@@ -0,0 +1,22 @@
+import { BUNDLE_EXTENSION } from "@/lib/export/bundle";
+import type { Recording } from "./recording";
+import { parseCsvRecording } from "./csv";
+import { parseJsonlRecording } from "./jsonl";
+import { parseBundle } from "./bundle";
+
+// File types the import picker offers
+export const RECORDING_ACCEPT = `.csv,.jsonl,.ndjson,.${BUNDLE_EXTENSION},.zip`;
+
+const stem = (fileName: string) => fileName.replace(/\.[^.]+$/, "");
+
+// CSV (as exported, wide or long), JSON Lines (one sample per line) or a session bundle
+export async function readRecordingFile(file: File): Promise<Recording> {
+  const ext = file.name.split(".").pop()?.toLowerCase();
+  let rec: Recording;
+  if (ext === BUNDLE_EXTENSION || ext === "zip") rec = parseBundle(new Uint8Array(await file.arrayBuffer()));
+  else if (ext === "jsonl" || ext === "ndjson") rec = parseJsonlRecording(await file.text(), stem(file.name));
+  else if (ext === "csv") rec = parseCsvRecording(await file.text(), stem(file.name));
+  else throw new Error(`Unsupported file type .${ext ?? ""}`);
+  if (rec.samples.length === 0) throw new Error(`No samples found in ${file.name}`);
+  return rec;
+}
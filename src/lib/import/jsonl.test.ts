@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonlRecording } from "./jsonl";
+
+const core = {
+  imuId: 0,
+  accel: { x: 0, y: 0, z: 9.8 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+};
+
+const jsonl = (...lines: object[]) => lines.map((l) => JSON.stringify(l)).join("\n");
+
+const IMPORTED = Date.UTC(2024, 0, 2, 3, 4, 5);
+
+describe("parseJsonlRecording", () => {
+  it("reads host times under any of their names", () => {
+    const rec = parseJsonlRecording(
+      jsonl({ ...core, hostTime: 1000 }, { ...core, timestamp: 2000 }, { ...core, time: 3 }),
+      "log"
+    );
+    expect(rec.samples.map((s) => s.hostTime)).toEqual([1000, 2000, 3000]);
+  });
+
+  it("starts device-timed lines at the import time, not 1970", () => {
+    const rec = parseJsonlRecording(jsonl({ ...core, deviceTime: 5_000_000 }, { ...core, deviceTime: 5_010_000 }), "log", IMPORTED);
+    expect(rec.samples.map((s) => s.hostTime)).toEqual([IMPORTED, IMPORTED + 10]);
+  });
+
+  it("aligns device-timed lines with a line that has both clocks", () => {
+    const rec = parseJsonlRecording(
+      jsonl({ ...core, deviceTime: 1_000_000 }, { ...core, deviceTime: 2_000_000, hostTime: IMPORTED }),
+      "log"
+    );
+    expect(rec.samples.map((s) => s.hostTime)).toEqual([IMPORTED - 1000, IMPORTED]);
+  });
+
+  it("names devices and skips lines it can't read", () => {
+    const text = `${jsonl({ ...core, hostTime: 1, device: "left" }, { ...core, hostTime: 2 })}\nnot json\n${jsonl({ imuId: 0 })}`;
+    const rec = parseJsonlRecording(text, "log");
+    expect(rec.samples.map((s) => s.source)).toEqual(["left", "log"]);
+    expect(rec.devices.map((d) => d.name).sort()).toEqual(["left", "log"]);
+    expect(rec.skipped).toBe(2);
+  });
+});
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { imuSampleSchema, type IMUSample } from "@/lib/imuParser";
+import { byTime, namedDevices, type Recording } from "./recording";
+
+const lineSchema = imuSampleSchema.extend({
+  gap: z.number().nonnegative().optional(),
+  // epoch ms, under any of the names exports and loggers use
+  hostTime: z.number().optional(),
+  timestamp: z.number().optional(),
+  // seconds
+  time: z.number().optional(),
+  device: z.string().optional(),
+  source: z.string().optional(),
+});
+
+// One sample object per line, as parseIMUJson accepts them, plus a time and optionally a device
+// name. Lines with only a device µs timestamp are placed on the host clock: by the offset of the
+// first line that has both, else starting at the file's first host time, else at `importedAt`.
+// Lines that don't parse are skipped.
+export function parseJsonlRecording(text: string, name: string, importedAt = Date.now()): Recording {
+  const samples: IMUSample[] = [];
+  // device-timed samples, placed once the whole file is read
+  const untimed: IMUSample[] = [];
+  const devices = new Set<string>();
+  let skipped = 0;
+  // host ms − device ms, from the first line that has both
+  let offset: number | undefined;
+  let firstHostTime: number | undefined;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      skipped++;
+      continue;
+    }
+    const res = lineSchema.safeParse(parsed);
+    if (!res.success) {
+      skipped++;
+      continue;
+    }
+    const { device, source, timestamp, time, ...sample } = res.data;
+    const hostTime = sample.hostTime ?? timestamp ?? (time !== undefined ? time * 1000 : undefined);
+    if (hostTime === undefined && sample.deviceTime === undefined) {
+      skipped++;
+      continue;
+    }
+    const from = device ?? source ?? name;
+    devices.add(from);
+    if (hostTime === undefined) {
+      untimed.push({ ...(sample as IMUSample), source: from });
+      continue;
+    }
+    firstHostTime ??= hostTime;
+    if (offset === undefined && sample.deviceTime !== undefined) offset = hostTime - sample.deviceTime / 1000;
+    samples.push({ ...(sample as IMUSample), hostTime, source: from });
+  }
+
+  if (untimed.length > 0) {
+    offset ??= (firstHostTime ?? importedAt) - untimed[0].deviceTime / 1000;
+    for (const s of untimed) samples.push({ ...s, hostTime: offset + s.deviceTime / 1000 });
+  }
+  return { name, devices: namedDevices(devices), samples: samples.sort(byTime), markers: [], skipped };
+}
@@ -0,0 +1,50 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { unpackSamples } from "@/lib/samplePacking";
+import { readSessionChunks, type SessionDevice, type SessionMeta } from "@/lib/sessionDb";
+import type { EventMarker } from "@/lib/markers";
+
+// A finished capture held in memory for replay, whatever file or session it came from
+export type Recording = {
+  name: string;
+  devices: SessionDevice[];
+  // time order; every sample has hostTime (epoch ms) and source (one of `devices`)
+  samples: IMUSample[];
+  markers: EventMarker[];
+  // input rows that could not be read
+  skipped: number;
+  // the stored session it was read from, where marker edits are saved
+  sessionId?: string;
+};
+
+export const byTime = (a: IMUSample, b: IMUSample) => (a.hostTime ?? 0) - (b.hostTime ?? 0);
+
+// Devices for sources a text file only names, by name or as source → name; their profile
+// (units, layout) is unknown
+export const namedDevices = (names: Iterable<string> | Map<string, string>): SessionDevice[] =>
+  [...(names instanceof Map ? names : new Map([...names].map((name) => [name, name])))].map(([source, name]) => ({
+    source,
+    name,
+    kind: "replay",
+    profile: null,
+  }));
+
+export const recordingDuration = (rec: Recording) =>
+  rec.samples.length > 0 ? rec.samples[rec.samples.length - 1].hostTime - rec.samples[0].hostTime : 0;
+
+// A stored session, read whole
+export async function readSessionRecording(meta: SessionMeta): Promise<Recording> {
+  const samples: IMUSample[] = [];
+  for await (const chunk of readSessionChunks(meta.id)) {
+    for (const part of chunk.parts) {
+      for (const s of unpackSamples(part.samples, part.source)) samples.push(s);
+    }
+  }
+  return {
+    name: meta.name,
+    devices: meta.devices,
+    samples: samples.sort(byTime),
+    markers: meta.markers ?? [],
+    skipped: 0,
+    sessionId: meta.id,
+  };
+}
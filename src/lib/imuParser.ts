@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { decodeBinary, type BinaryScales } from "@/lib/binaryFrames";
+
+export type IMUSample = {
+  imuId: number;
+  accel: { x: number; y: number; z: number };
+  gyro: { x: number; y: number; z: number };
+  mag: { x: number; y: number; z: number };
+  quat: { x: number; y: number; z: number; w: number };
+  // per-frame sequence counter, when the firmware sends one
+  seq?: number;
+  // samples lost for this IMU right before this one (set by the transport from seq)
+  gap?: number;
+  // device clock in µs, when the firmware timestamps its frames
+  deviceTime?: number;
+  // host time in epoch ms: the aligned device time, or arrival time when there is none (replay
+  // stamps its own)
+  hostTime?: number;
+  // id of the link (device) that produced the sample; with imuId it names the stream
+  source?: string;
+  // channels beyond the core 13 values (temperature, pressure, ...), from a frame layout
+  extra?: Record<string, number>;
+};
+
+// "ble:abc#0": IMU 0 of one device. Two pods that both send IMU 0 stay apart.
+export const streamKey = (source: string, imuId: number) => `${source}#${imuId}`;
+
+export function parseStreamKey(key: string): { source: string; imuId: number } {
+  const at = key.lastIndexOf("#");
+  return { source: key.slice(0, at), imuId: parseInt(key.slice(at + 1), 10) };
+}
+
+const vec3 = z.object({ x: z.number(), y: z.number(), z: z.number() });
+
+export const imuSampleSchema = z.object({
+  imuId: z.number().int().nonnegative(),
+  accel: vec3,
+  gyro: vec3,
+  mag: vec3,
+  quat: vec3.extend({ w: z.number() }),
+  seq: z.number().int().nonnegative().optional(),
+  deviceTime: z.number().nonnegative().optional(),
+  extra: z.record(z.number()).optional(),
+});
+
+export const IMU_GROUP = 14; // id + 13 values
+
+// A payload can contain multiple IMUs: [id0,ax0,...,w0, id1,ax1,...,w1, ...]
+export function parseIMUValues(values: number[]): IMUSample[] {
+  const samples: IMUSample[] = [];
+
+  for (let i = 0; i + IMU_GROUP - 1 < values.length; i += IMU_GROUP) {
+    const imuId = values[i];
+    if (Number.isNaN(imuId)) continue;
+    samples.push({
+      imuId,
+      accel: { x: values[i + 1], y: values[i + 2], z: values[i + 3] },
+      gyro: { x: values[i + 4], y: values[i + 5], z: values[i + 6] },
+      mag: { x: values[i + 7], y: values[i + 8], z: values[i + 9] },
+      quat: {
+        x: values[i + 10],
+        y: values[i + 11],
+        z: values[i + 12],
+        w: values[i + 13],
+      },
+    });
+  }
+
+  return samples;
+}
+
+// Optional leading per-frame fields, shared by every IMU group in the frame
+export type FrameFields = {
+  // frame counter
+  sequence?: boolean;
+  // device timestamp in µs (after the counter when both are present)
+  timestamp?: boolean;
+  // LSB sizes for int16 binary records
+  scales?: BinaryScales;
+};
+
+export function parseIMUText(text: string, fields: FrameFields = {}): IMUSample[] {
+  const values = text
+    .trim()
+    .split(",")
+    .map((v) => parseFloat(v));
+
+  const seq = fields.sequence ? values.shift() : undefined;
+  const deviceTime = fields.timestamp ? values.shift() : undefined;
+  if (fields.sequence && !(Number.isInteger(seq) && seq >= 0)) return [];
+  if (fields.timestamp && !(Number.isFinite(deviceTime) && deviceTime >= 0)) return [];
+
+  const samples = parseIMUValues(values);
+  if (!fields.sequence && !fields.timestamp) return samples;
+  return samples.map((s) => ({
+    ...s,
+    ...(seq !== undefined && { seq }),
+    ...(deviceTime !== undefined && { deviceTime }),
+  }));
+}
+
+// Wire encoding a device sends: ASCII comma-separated values or packed binary records
+export type FrameFormat = "csv" | "binary";
+
+// Binary records flag their own counter and timestamp in the header; CSV needs to be told
+export function decodePacket(bytes: Uint8Array, format: FrameFormat, fields: FrameFields = {}): IMUSample[] {
+  if (format === "binary") return decodeBinary(bytes, fields.scales).samples;
+  return parseIMUText(new TextDecoder().decode(bytes), fields);
+}
+
+// JSON frames: a single sample, an array of samples, or { samples: [...] }
+export function parseIMUJson(text: string): IMUSample[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return [];
+  }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === "object" && "samples" in parsed && Array.isArray(parsed.samples)
+      ? parsed.samples
+      : [parsed];
+
+  const samples: IMUSample[] = [];
+  for (const item of list) {
+    const res = imuSampleSchema.safeParse(item);
+    if (res.success) samples.push(res.data as IMUSample);
+  }
+  return samples;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join(" ");
+}
+
+// Inverse of parseIMUText: the comma-separated layout the firmware sends
+export function formatIMUText(samples: IMUSample[]): string {
+  return samples
+    .map((s) =>
+      [
+        s.imuId,
+        s.accel.x, s.accel.y, s.accel.z,
+        s.gyro.x, s.gyro.y, s.gyro.z,
+        s.mag.x, s.mag.y, s.mag.z,
+        s.quat.x, s.quat.y, s.quat.z, s.quat.w,
+      ].join(",")
+    )
+    .join(",");
+}
@@ -0,0 +1,31 @@
+// A tagged moment in a recording ("heel strike", "subject fell"), stored with the session
+export type EventMarker = {
+  id: string;
+  // host time, epoch ms; the same clock as sample hostTime
+  time: number;
+  label: string;
+  // free-text annotation
+  note?: string;
+};
+
+// Quick labels offered on the dashboard; keys 1-9 add them in this order
+export const DEFAULT_MARKER_LABELS = "Marker, Heel strike, Start task, Subject fell";
+
+export const parseMarkerLabels = (text: string) =>
+  text
+    .split(",")
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .slice(0, 9);
+
+export const createMarker = (label: string, time = Date.now()): EventMarker => ({
+  id: crypto.randomUUID(),
+  time,
+  label,
+});
+
+export const byMarkerTime = (a: EventMarker, b: EventMarker) => a.time - b.time;
+
+// Markers in [from, to] (epoch ms), in time order
+export const markersBetween = (markers: EventMarker[], from = -Infinity, to = Infinity) =>
+  markers.filter((m) => m.time >= from && m.time <= to).sort(byMarkerTime);
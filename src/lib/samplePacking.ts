@@ -0,0 +1,75 @@
+import type { IMUSample } from "@/lib/imuParser";
+
+// Row layout of a packed sample. Optional fields that are absent are NaN.
+export const PACKED_COLUMNS = [
+  "imuId", "seq", "gap", "deviceTime", "hostTime",
+  "accel.x", "accel.y", "accel.z",
+  "gyro.x", "gyro.y", "gyro.z",
+  "mag.x", "mag.y", "mag.z",
+  "quat.x", "quat.y", "quat.z", "quat.w",
+] as const;
+
+// A batch of samples as one row-major Float64Array, cheap to post between threads
+// (the buffer is transferred, not copied). Extra channels follow the fixed columns.
+export type PackedSamples = {
+  count: number;
+  extras: string[];
+  data: Float64Array;
+};
+
+const orNaN = (v: number | undefined) => (v === undefined ? NaN : v);
+const orUndefined = (v: number) => (Number.isNaN(v) ? undefined : v);
+
+export function packSamples(samples: IMUSample[]): PackedSamples {
+  const extras = [...new Set(samples.flatMap((s) => (s.extra ? Object.keys(s.extra) : [])))];
+  const stride = PACKED_COLUMNS.length + extras.length;
+  const data = new Float64Array(samples.length * stride);
+
+  samples.forEach((s, i) => {
+    const row = i * stride;
+    data.set(
+      [
+        s.imuId, orNaN(s.seq), orNaN(s.gap), orNaN(s.deviceTime), orNaN(s.hostTime),
+        s.accel.x, s.accel.y, s.accel.z,
+        s.gyro.x, s.gyro.y, s.gyro.z,
+        s.mag.x, s.mag.y, s.mag.z,
+        s.quat.x, s.quat.y, s.quat.z, s.quat.w,
+      ],
+      row
+    );
+    extras.forEach((name, j) => {
+      data[row + PACKED_COLUMNS.length + j] = orNaN(s.extra?.[name]);
+    });
+  });
+  return { count: samples.length, extras, data };
+}
+
+export function unpackSamples({ count, extras, data }: PackedSamples, source?: string): IMUSample[] {
+  const stride = PACKED_COLUMNS.length + extras.length;
+  const samples: IMUSample[] = [];
+  for (let i = 0; i < count; i++) {
+    const r = i * stride;
+    const sample: IMUSample = {
+      imuId: data[r],
+      accel: { x: data[r + 5], y: data[r + 6], z: data[r + 7] },
+      gyro: { x: data[r + 8], y: data[r + 9], z: data[r + 10] },
+      mag: { x: data[r + 11], y: data[r + 12], z: data[r + 13] },
+      quat: { x: data[r + 14], y: data[r + 15], z: data[r + 16], w: data[r + 17] },
+    };
+    const seq = orUndefined(data[r + 1]);
+    if (seq !== undefined) sample.seq = seq;
+    const gap = orUndefined(data[r + 2]);
+    if (gap !== undefined) sample.gap = gap;
+    const deviceTime = orUndefined(data[r + 3]);
+    if (deviceTime !== undefined) sample.deviceTime = deviceTime;
+    const hostTime = orUndefined(data[r + 4]);
+    if (hostTime !== undefined) sample.hostTime = hostTime;
+    if (source !== undefined) sample.source = source;
+    extras.forEach((name, j) => {
+      const v = orUndefined(data[r + PACKED_COLUMNS.length + j]);
+      if (v !== undefined) (sample.extra ??= {})[name] = v;
+    });
+    samples.push(sample);
+  }
+  return samples;
+}
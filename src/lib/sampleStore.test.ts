@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import { CORE_CHANNELS, SampleStore } from "./sampleStore";
+
+const sample = (source: string, imuId: number, hostTime: number, extra?: Record<string, number>): IMUSample => ({
+  imuId,
+  source,
+  hostTime,
+  accel: { x: hostTime, y: 0, z: 9.8 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+  extra,
+});
+
+const times = (store: SampleStore, key: string, since?: number, until?: number) =>
+  Array.from(store.window(key, since, ["accel.x"], until)?.time ?? []);
+
+describe("SampleStore", () => {
+  it("keeps a ring per device and IMU", () => {
+    const store = new SampleStore(10);
+    store.append([sample("a", 0, 1), sample("a", 1, 1), sample("b", 0, 2)]);
+    expect(store.streams().sort()).toEqual(["a#0", "a#1", "b#0"]);
+    store.removeSource("a");
+    expect(store.streams()).toEqual(["b#0"]);
+  });
+
+  it("overwrites the oldest rows and reads windows across the wrap", () => {
+    const store = new SampleStore(4);
+    store.append([1, 2, 3, 4, 5, 6].map((t) => sample("a", 0, t)));
+    expect(times(store, "a#0")).toEqual([3, 4, 5, 6]);
+    expect(store.firstTime("a#0")).toBe(3);
+    expect(store.lastTime("a#0")).toBe(6);
+    expect(times(store, "a#0", 4, 6)).toEqual([4, 5]);
+    expect(Array.from(store.window("a#0", 5).channels["accel.x"])).toEqual([5, 6]);
+  });
+
+  it("keeps times in order when hostTime steps back", () => {
+    const store = new SampleStore(8);
+    // a clock refit moved the stream 30 ms back
+    store.append([100, 110, 120, 90, 130].map((t) => sample("a", 0, t)));
+    expect(times(store, "a#0")).toEqual([100, 110, 120, 120, 130]);
+    expect(times(store, "a#0", 115, 125)).toEqual([120, 120]);
+  });
+
+  it("adds extra channels as they appear, NaN before", () => {
+    const store = new SampleStore(4);
+    store.append([sample("a", 0, 1), sample("a", 0, 2, { temp: 25 })]);
+    expect(store.channels("a#0")).toEqual([...CORE_CHANNELS, "temp"]);
+    expect(Array.from(store.window("a#0").channels.temp)).toEqual([NaN, 25]);
+  });
+
+  it("keeps the newest rows when shrunk", () => {
+    const store = new SampleStore(5);
+    store.append([1, 2, 3, 4, 5, 6, 7].map((t) => sample("a", 0, t)));
+    store.setCapacity(2);
+    expect(times(store, "a#0")).toEqual([6, 7]);
+    store.append([sample("a", 0, 8)]);
+    expect(times(store, "a#0")).toEqual([7, 8]);
+  });
+});
@@ -0,0 +1,191 @@
+import { streamKey, parseStreamKey, type IMUSample } from "@/lib/imuParser";
+
+// The 13 values every sample carries, in column order
+export const CORE_CHANNELS = [
+  "accel.x", "accel.y", "accel.z",
+  "gyro.x", "gyro.y", "gyro.z",
+  "mag.x", "mag.y", "mag.z",
+  "quat.x", "quat.y", "quat.z", "quat.w",
+] as const;
+
+const coreValues = (s: IMUSample) => [
+  s.accel.x, s.accel.y, s.accel.z,
+  s.gyro.x, s.gyro.y, s.gyro.z,
+  s.mag.x, s.mag.y, s.mag.z,
+  s.quat.x, s.quat.y, s.quat.z, s.quat.w,
+];
+
+// A chronological copy of part of one stream. time is host epoch ms; gap[i] > 0 means
+// samples went missing right before row i.
+export type StreamWindow = {
+  time: Float64Array;
+  gap: Float64Array;
+  channels: Record<string, Float64Array>;
+};
+
+// Preallocated columns for one (device, IMU) stream; the oldest rows are overwritten
+class StreamRing {
+  time: Float64Array;
+  gap: Float64Array;
+  columns = new Map<string, Float64Array>();
+  private extras: string[] = [];
+  // index the next row is written to, and rows currently held
+  private head = 0;
+  length = 0;
+
+  constructor(public capacity: number) {
+    this.time = new Float64Array(capacity);
+    this.gap = new Float64Array(capacity);
+    for (const name of CORE_CHANNELS) this.columns.set(name, new Float64Array(capacity));
+  }
+
+  private set(name: string, i: number, value: number) {
+    const col = this.columns.get(name);
+    if (col) col[i] = value;
+  }
+
+  push(s: IMUSample) {
+    const i = this.head;
+    // kept non-decreasing for the lookups by time: a clock refit or an outage can move hostTime back
+    const time = s.hostTime ?? Date.now();
+    this.time[i] = this.length > 0 ? Math.max(time, this.newest()) : time;
+    this.gap[i] = s.gap ?? 0;
+    coreValues(s).forEach((v, c) => this.set(CORE_CHANNELS[c], i, v));
+    for (const name of this.extras) this.set(name, i, s.extra?.[name] ?? NaN);
+    // extra channels get a column the first time they show up, NaN for the rows before
+    for (const [name, v] of Object.entries(s.extra ?? {})) {
+      if (this.columns.has(name)) continue;
+      this.extras.push(name);
+      this.columns.set(name, new Float64Array(this.capacity).fill(NaN));
+      this.set(name, i, v);
+    }
+    this.head = (i + 1) % this.capacity;
+    this.length = Math.min(this.length + 1, this.capacity);
+  }
+
+  // Physical index of the n-th oldest row
+  private at(n: number) {
+    return (this.head - this.length + n + this.capacity) % this.capacity;
+  }
+
+  oldest() {
+    return this.time[this.at(0)];
+  }
+
+  newest() {
+    return this.time[this.at(this.length - 1)];
+  }
+
+  // First row (oldest = 0) with time >= since; rows are appended in time order
+  private firstSince(since: number) {
+    let lo = 0;
+    let hi = this.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.time[this.at(mid)] < since) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  read(since: number, names: Iterable<string>, until = Infinity): StreamWindow {
+    const from = this.firstSince(since);
+    const n = Math.max((until === Infinity ? this.length : this.firstSince(until)) - from, 0);
+    const copy = (src: Float64Array) => {
+      const out = new Float64Array(n);
+      const start = this.at(from);
+      const firstPart = Math.min(n, this.capacity - start);
+      out.set(src.subarray(start, start + firstPart));
+      if (firstPart < n) out.set(src.subarray(0, n - firstPart), firstPart);
+      return out;
+    };
+    const channels: Record<string, Float64Array> = {};
+    for (const name of names) {
+      const col = this.columns.get(name);
+      if (col) channels[name] = copy(col);
+    }
+    return { time: copy(this.time), gap: copy(this.gap), channels };
+  }
+
+  resize(capacity: number) {
+    const kept = this.read(-Infinity, this.columns.keys());
+    const drop = Math.max(0, kept.time.length - capacity);
+    this.capacity = capacity;
+    this.time = new Float64Array(capacity);
+    this.gap = new Float64Array(capacity);
+    this.time.set(kept.time.subarray(drop));
+    this.gap.set(kept.gap.subarray(drop));
+    for (const [name, values] of Object.entries(kept.channels)) {
+      const col = new Float64Array(capacity).fill(NaN);
+      col.set(values.subarray(drop));
+      this.columns.set(name, col);
+    }
+    this.length = kept.time.length - drop;
+    this.head = this.length % capacity;
+  }
+}
+
+// Recent history of every live stream, one ring of Float64Array columns per
+// streamKey(source, imuId), so views can switch IMUs without losing what was already received.
+export class SampleStore {
+  private rings = new Map<string, StreamRing>();
+
+  // capacity: rows kept per stream
+  constructor(private capacity: number) {}
+
+  append(samples: IMUSample[]) {
+    for (const s of samples) {
+      if (!s.source) continue;
+      const key = streamKey(s.source, s.imuId);
+      let ring = this.rings.get(key);
+      if (!ring) {
+        ring = new StreamRing(this.capacity);
+        this.rings.set(key, ring);
+      }
+      ring.push(s);
+    }
+  }
+
+  streams(): string[] {
+    return [...this.rings.keys()];
+  }
+
+  // Every channel the stream has data for: the core 13, then extras in order of appearance
+  channels(key: string): string[] {
+    return [...(this.rings.get(key)?.columns.keys() ?? [])];
+  }
+
+  // Host time of the oldest / newest row, null for an unknown or empty stream
+  firstTime(key: string): number | null {
+    const ring = this.rings.get(key);
+    return ring && ring.length > 0 ? ring.oldest() : null;
+  }
+
+  lastTime(key: string): number | null {
+    const ring = this.rings.get(key);
+    return ring && ring.length > 0 ? ring.newest() : null;
+  }
+
+  // Rows at or after `since` and before `until` (host epoch ms); all channels unless some are named
+  window(key: string, since = -Infinity, channels?: string[], until = Infinity): StreamWindow | null {
+    const ring = this.rings.get(key);
+    return ring ? ring.read(since, channels ?? ring.columns.keys(), until) : null;
+  }
+
+  // Keeps the newest rows that still fit
+  setCapacity(capacity: number) {
+    if (capacity === this.capacity) return;
+    this.capacity = capacity;
+    for (const ring of this.rings.values()) ring.resize(capacity);
+  }
+
+  removeSource(source: string) {
+    for (const key of this.rings.keys()) {
+      if (parseStreamKey(key).source === source) this.rings.delete(key);
+    }
+  }
+
+  clear() {
+    this.rings.clear();
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { SequenceTracker } from "@/lib/sequenceTracker";
+
+describe("SequenceTracker", () => {
+  it("counts consecutive counters as received with no loss", () => {
+    const tracker = new SequenceTracker();
+    for (let seq = 0; seq < 5; seq++) expect(tracker.observe(0, seq)).toBe(0);
+    expect(tracker.snapshot()[0]).toMatchObject({ received: 5, lost: 0, lossPercent: 0, bursts: 0 });
+  });
+
+  it("turns jumps into lost samples and bursts", () => {
+    const tracker = new SequenceTracker();
+    tracker.observe(0, 10);
+    expect(tracker.observe(0, 13)).toBe(2);
+    tracker.observe(0, 14);
+    expect(tracker.observe(0, 20)).toBe(5);
+    expect(tracker.snapshot()[0]).toMatchObject({
+      received: 4,
+      lost: 7,
+      bursts: 2,
+      lastBurst: 5,
+      maxBurst: 5,
+    });
+    expect(tracker.snapshot()[0].lossPercent).toBeCloseTo((7 / 11) * 100);
+  });
+
+  it("follows the counter across wrap-around", () => {
+    const tracker = new SequenceTracker();
+    tracker.observe(0, 65534);
+    expect(tracker.observe(0, 65535)).toBe(0);
+    expect(tracker.observe(0, 1)).toBe(1);
+  });
+
+  it("treats an implausible jump backwards as a device reset, not loss", () => {
+    const tracker = new SequenceTracker();
+    tracker.observe(0, 5000);
+    expect(tracker.observe(0, 3)).toBe(0);
+    expect(tracker.snapshot()[0].lost).toBe(0);
+  });
+
+  it("tracks every IMU on its own", () => {
+    const tracker = new SequenceTracker(256);
+    tracker.observe(0, 1);
+    tracker.observe(1, 100);
+    expect(tracker.observe(0, 2)).toBe(0);
+    expect(tracker.observe(1, 103)).toBe(2);
+    tracker.reset();
+    expect(tracker.snapshot()).toEqual({});
+  });
+});
@@ -0,0 +1,65 @@
+export type LossStats = {
+  received: number;
+  lost: number;
+  // lost / (received + lost), 0..100
+  lossPercent: number;
+  // runs of consecutive missing samples
+  bursts: number;
+  lastBurst: number;
+  maxBurst: number;
+};
+
+type Track = LossStats & { lastSeq: number | null };
+
+const SEQ_MODULUS = 65536; // u16 counter
+
+// Gaps bigger than this are treated as a device reset / reorder, not as loss
+const MAX_PLAUSIBLE_GAP = SEQ_MODULUS / 2;
+
+// Tracks sequence counters per imuId and turns jumps into loss statistics
+export class SequenceTracker {
+  private tracks = new Map<number, Track>();
+
+  constructor(private modulus: number = SEQ_MODULUS) {}
+
+  // Returns how many samples went missing for this IMU just before `seq`
+  observe(imuId: number, seq: number): number {
+    let t = this.tracks.get(imuId);
+    if (!t) {
+      t = { received: 0, lost: 0, lossPercent: 0, bursts: 0, lastBurst: 0, maxBurst: 0, lastSeq: null };
+      this.tracks.set(imuId, t);
+    }
+
+    let gap = 0;
+    if (t.lastSeq !== null) {
+      const delta = (seq - t.lastSeq + this.modulus) % this.modulus;
+      if (delta > 1 && delta < MAX_PLAUSIBLE_GAP) gap = delta - 1;
+    }
+
+    t.lastSeq = seq;
+    t.received++;
+    if (gap > 0) {
+      t.lost += gap;
+      t.bursts++;
+      t.lastBurst = gap;
+      t.maxBurst = Math.max(t.maxBurst, gap);
+    }
+    t.lossPercent = (t.lost / (t.received + t.lost)) * 100;
+    return gap;
+  }
+
+  snapshot(): Record<number, LossStats> {
+    const out: Record<number, LossStats> = {};
+    for (const [imuId, { lastSeq, ...stats }] of this.tracks) out[imuId] = stats;
+    return out;
+  }
+
+  // Carries on from counts taken by another tracker; each IMU's next counter starts a new run
+  resume(stats: Record<number, LossStats>) {
+    for (const [imuId, s] of Object.entries(stats)) this.tracks.set(Number(imuId), { ...s, lastSeq: null });
+  }
+
+  reset() {
+    this.tracks.clear();
+  }
+}
@@ -0,0 +1,147 @@
+import type { DeviceProfile } from "@/lib/deviceProfiles";
+import type { PackedSamples } from "@/lib/samplePacking";
+import type { TransportKind } from "@/lib/transports";
+import type { EventMarker } from "@/lib/markers";
+
+// One link that contributed samples to a session
+export type SessionDevice = {
+  // link id; samples carry it as `source`
+  source: string;
+  name: string;
+  kind: TransportKind;
+  // profile snapshot at record time (units, layout); null for generic sources
+  profile: DeviceProfile | null;
+};
+
+// "recovered": the tab went away mid-recording; everything up to the last chunk was kept
+export type SessionStatus = "recording" | "complete" | "recovered";
+
+export type SessionMeta = {
+  id: string;
+  name: string;
+  status: SessionStatus;
+  // epoch ms; endedAt moves with every chunk while recording
+  startedAt: number;
+  endedAt: number;
+  devices: SessionDevice[];
+  // streamKey(source, imuId) of every stream with data
+  streams: string[];
+  sampleCount: number;
+  chunkCount: number;
+  // stored sample payload
+  bytes: number;
+  // dashboard settings at record time
+  settings: Record<string, string | number | boolean>;
+  // user labels from the session library; absent on older sessions
+  tags?: string[];
+  // event markers set while recording or reviewing; absent on older sessions
+  markers?: EventMarker[];
+};
+
+// Samples in arrival order, packed per source
+export type SessionChunk = {
+  sessionId: string;
+  index: number;
+  startTime: number;
+  endTime: number;
+  parts: { source: string; samples: PackedSamples }[];
+};
+
+const DB_NAME = "imu-monitor";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const CHUNKS = "chunks";
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+
+let opening: Promise<IDBDatabase> | null = null;
+
+export function openSessionDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB is not available"));
+  opening ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(CHUNKS)) db.createObjectStore(CHUNKS, { keyPath: ["sessionId", "index"] });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((e) => {
+    opening = null;
+    throw e;
+  });
+  return opening;
+}
+
+const chunkRange = (sessionId: string, from = 0) => IDBKeyRange.bound([sessionId, from], [sessionId, Infinity]);
+
+export async function listSessions(): Promise<SessionMeta[]> {
+  const db = await openSessionDb();
+  const sessions = await request<SessionMeta[]>(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSession(id: string): Promise<SessionMeta | null> {
+  const db = await openSessionDb();
+  return (await request<SessionMeta | undefined>(db.transaction(SESSIONS).objectStore(SESSIONS).get(id))) ?? null;
+}
+
+export async function putSession(meta: SessionMeta) {
+  const db = await openSessionDb();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  tx.objectStore(SESSIONS).put(meta);
+  await done(tx);
+}
+
+// Chunk and the session's running totals land together, so a crash never leaves them out of step
+export async function appendChunk(meta: SessionMeta, chunk: SessionChunk) {
+  const db = await openSessionDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  tx.objectStore(CHUNKS).put(chunk);
+  tx.objectStore(SESSIONS).put(meta);
+  await done(tx);
+}
+
+// Name, tags or markers of a finished session, read and written in one transaction
+export async function updateSession(id: string, patch: Partial<Pick<SessionMeta, "name" | "tags" | "markers">>) {
+  const db = await openSessionDb();
+  const tx = db.transaction(SESSIONS, "readwrite");
+  const sessions = tx.objectStore(SESSIONS);
+  const meta = await request<SessionMeta | undefined>(sessions.get(id));
+  if (meta) sessions.put({ ...meta, ...patch });
+  await done(tx);
+}
+
+export async function deleteSession(id: string) {
+  const db = await openSessionDb();
+  const tx = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  tx.objectStore(CHUNKS).delete(chunkRange(id));
+  tx.objectStore(SESSIONS).delete(id);
+  await done(tx);
+}
+
+// Chunks in order, a page per transaction so a long session is never held in memory at once
+export async function* readSessionChunks(sessionId: string, pageSize = 32): AsyncGenerator<SessionChunk> {
+  const db = await openSessionDb();
+  let from = 0;
+  for (;;) {
+    const page = await request<SessionChunk[]>(
+      db.transaction(CHUNKS).objectStore(CHUNKS).getAll(chunkRange(sessionId, from), pageSize)
+    );
+    yield* page;
+    if (page.length < pageSize) return;
+    from = page[page.length - 1].index + 1;
+  }
+}
@@ -0,0 +1,65 @@
+import type { SessionMeta } from "@/lib/sessionDb";
+
+// Router state that asks the dashboard to load a stored session
+export type OpenSessionState = { openSession: string };
+
+export type SessionSort = "newest" | "oldest" | "name" | "duration" | "size";
+
+export const SESSION_SORTS: Record<SessionSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  name: "Name",
+  duration: "Longest first",
+  size: "Largest first",
+};
+
+export const sessionDuration = (meta: SessionMeta) => Math.max(meta.endedAt - meta.startedAt, 0);
+
+// IMU count across devices
+export const sessionIMUs = (meta: SessionMeta) => meta.streams.length;
+
+const COMPARE: Record<SessionSort, (a: SessionMeta, b: SessionMeta) => number> = {
+  newest: (a, b) => b.startedAt - a.startedAt,
+  oldest: (a, b) => a.startedAt - b.startedAt,
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }),
+  duration: (a, b) => sessionDuration(b) - sessionDuration(a),
+  size: (a, b) => b.bytes - a.bytes,
+};
+
+// Every whitespace-separated word has to appear in the name, a device name or a tag
+export function filterSessions(sessions: SessionMeta[], query: string, sort: SessionSort): SessionMeta[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const haystack = (s: SessionMeta) =>
+    [s.name, ...s.devices.map((d) => d.name), ...(s.tags ?? [])].join("\n").toLowerCase();
+  return sessions.filter((s) => words.every((w) => haystack(s).includes(w))).sort(COMPARE[sort]);
+}
+
+// "impact, trial 3,impact" → ["impact", "trial 3"]
+export const parseTags = (text: string) => [...new Set(text.split(",").map((t) => t.trim()).filter(Boolean))];
+
+// 1:02:03 or 2:03
+export function formatDuration(ms: number) {
+  const total = Math.round(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+// 2:03.4, for playheads and ranges
+export function formatTime(ms: number) {
+  const s = Math.max(ms, 0) / 1000;
+  return `${Math.floor(s / 60)}:${(s % 60).toFixed(1).padStart(4, "0")}`;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let v = bytes / 1024;
+  let i = 0;
+  while (v >= 1024 && i < units.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  return `${v.toFixed(v < 10 ? 1 : 0)} ${units[i]}`;
+}
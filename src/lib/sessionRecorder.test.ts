@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionChunk, SessionMeta } from "@/lib/sessionDb";
+import { createMarker } from "@/lib/markers";
+import { SessionRecorder, recoverSessions } from "./sessionRecorder";
+
+// IndexedDB doesn't exist under node; the recorder only needs these three calls
+const db = vi.hoisted(() => ({
+  sessions: new Map<string, SessionMeta>(),
+  chunks: [] as SessionChunk[],
+  failPut: false,
+}));
+
+vi.mock("@/lib/sessionDb", () => ({
+  putSession: async (meta: SessionMeta) => {
+    if (db.failPut) throw new Error("QuotaExceededError");
+    db.sessions.set(meta.id, meta);
+  },
+  appendChunk: async (meta: SessionMeta, chunk: SessionChunk) => {
+    db.sessions.set(meta.id, meta);
+    db.chunks.push(chunk);
+  },
+  listSessions: async () => [...db.sessions.values()],
+}));
+
+// Web Locks, held until the callback's promise settles
+class FakeLocks {
+  held = new Set<string>();
+
+  request(name: string, callback: () => Promise<void>) {
+    this.held.add(name);
+    return callback().then(() => void this.held.delete(name));
+  }
+
+  async query() {
+    return { held: [...this.held].map((name) => ({ name })) };
+  }
+}
+
+const sample = (source: string, imuId: number, hostTime: number): IMUSample => ({
+  imuId,
+  source,
+  hostTime,
+  accel: { x: 1, y: 2, z: 3 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+const START = Date.UTC(2024, 0, 1);
+const init = { devices: [], settings: { samplingRate: 100 }, startedAt: START };
+
+let locks: FakeLocks;
+
+beforeEach(() => {
+  db.sessions.clear();
+  db.chunks = [];
+  db.failPut = false;
+  locks = new FakeLocks();
+  vi.stubGlobal("navigator", { locks });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("SessionRecorder", () => {
+  it("writes samples in chunks per link and completes the session on stop", async () => {
+    const recorder = await SessionRecorder.start(init);
+    expect(db.sessions.get(recorder.session.id)).toMatchObject({ status: "recording", sampleCount: 0 });
+    expect(locks.held.size).toBe(1);
+
+    recorder.append([sample("a", 0, START + 10), sample("b", 1, START + 12)]);
+    await recorder.flush();
+    recorder.append([sample("a", 0, START + 20)]);
+    const meta = await recorder.stop();
+
+    expect(meta).toMatchObject({ status: "complete", sampleCount: 3, chunkCount: 2, streams: ["a#0", "b#1"] });
+    expect(db.sessions.get(meta.id)).toEqual(meta);
+    expect(db.chunks.map((c) => [c.index, c.parts.map((p) => `${p.source}:${p.samples.count}`)])).toEqual([
+      [0, ["a:1", "b:1"]],
+      [1, ["a:1"]],
+    ]);
+    await Promise.resolve();
+    expect(locks.held.size).toBe(0);
+    // nothing is taken after the stop
+    recorder.append([sample("a", 0, START + 30)]);
+    await recorder.flush();
+    expect(db.chunks).toHaveLength(2);
+  });
+
+  it("keeps devices that join later and markers from its start on", async () => {
+    const recorder = await SessionRecorder.start(init);
+    recorder.describe([{ source: "a", name: "Left", kind: "ble", profile: null }]);
+    recorder.describe([
+      { source: "a", name: "Left", kind: "ble", profile: null },
+      { source: "b", name: "Right", kind: "ble", profile: null },
+    ]);
+    recorder.setMarkers([createMarker("before", START - 1), createMarker("step", START + 5)]);
+    const meta = await recorder.stop();
+    expect(meta.devices.map((d) => d.name)).toEqual(["Left", "Right"]);
+    expect(meta.markers.map((m) => m.label)).toEqual(["step"]);
+  });
+
+  it("releases the lock when the session can't be created", async () => {
+    db.failPut = true;
+    await expect(SessionRecorder.start(init)).rejects.toThrow("QuotaExceededError");
+    await Promise.resolve();
+    expect(locks.held.size).toBe(0);
+  });
+});
+
+describe("recoverSessions", () => {
+  const orphan = (id: string, endedAt: number): SessionMeta => ({
+    id,
+    name: id,
+    status: "recording",
+    startedAt: endedAt - 1000,
+    endedAt,
+    devices: [],
+    streams: [],
+    sampleCount: 0,
+    chunkCount: 0,
+    bytes: 0,
+    settings: {},
+  });
+
+  it("closes out sessions whose tab no longer holds their lock", async () => {
+    const live = await SessionRecorder.start(init);
+    db.sessions.set("crashed", orphan("crashed", Date.now()));
+
+    const recovered = await recoverSessions();
+    expect(recovered.map((s) => s.id)).toEqual(["crashed"]);
+    expect(db.sessions.get("crashed").status).toBe("recovered");
+    expect(db.sessions.get(live.session.id).status).toBe("recording");
+    await live.stop();
+  });
+
+  it("goes by how long a session has been quiet without Web Locks", async () => {
+    vi.stubGlobal("navigator", {});
+    db.sessions.set("quiet", orphan("quiet", Date.now() - 60_000));
+    db.sessions.set("recent", orphan("recent", Date.now()));
+    expect((await recoverSessions()).map((s) => s.id)).toEqual(["quiet"]);
+  });
+});
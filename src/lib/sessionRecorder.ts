@@ -0,0 +1,174 @@
+import { streamKey, type IMUSample } from "@/lib/imuParser";
+import { packSamples } from "@/lib/samplePacking";
+import { markersBetween, type EventMarker } from "@/lib/markers";
+import {
+  appendChunk,
+  listSessions,
+  putSession,
+  type SessionChunk,
+  type SessionDevice,
+  type SessionMeta,
+} from "@/lib/sessionDb";
+
+// How often buffered samples are written; at most this much is lost if the tab dies
+const FLUSH_INTERVAL_MS = 1000;
+// ...or sooner, when a burst fills the buffer
+const MAX_BUFFERED = 5000;
+// Without Web Locks, a "recording" session this quiet is assumed orphaned
+const STALE_MS = 30_000;
+
+const lockName = (id: string) => `imu-monitor.recording.${id}`;
+
+export type RecordingInit = {
+  name?: string;
+  devices: SessionDevice[];
+  settings: SessionMeta["settings"];
+  // epoch ms, for sessions written after the fact (trigger captures); defaults to now
+  startedAt?: number;
+};
+
+// Appends every sample it is given to one IndexedDB session, in chunks. Holds a Web Lock
+// for the session while recording, which is how other tabs tell a live recording from one
+// whose tab crashed.
+export class SessionRecorder {
+  private buffer: IMUSample[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // writes are chained so chunks land in order
+  private writing: Promise<void> = Promise.resolve();
+  private releaseLock: (() => void) | null = null;
+  private stopped = false;
+  // called after every chunk is stored
+  onProgress: ((meta: SessionMeta) => void) | null = null;
+  onError: ((e: unknown) => void) | null = null;
+
+  private constructor(private meta: SessionMeta) {}
+
+  static async start({ name, devices, settings, startedAt = Date.now() }: RecordingInit): Promise<SessionRecorder> {
+    const recorder = new SessionRecorder({
+      id: crypto.randomUUID(),
+      name: name ?? `Session ${new Date(startedAt).toLocaleString()}`,
+      status: "recording",
+      startedAt,
+      endedAt: startedAt,
+      devices,
+      streams: [],
+      sampleCount: 0,
+      chunkCount: 0,
+      bytes: 0,
+      settings,
+    });
+    await recorder.holdLock();
+    try {
+      await putSession(recorder.meta);
+    } catch (e) {
+      recorder.releaseLock?.();
+      throw e;
+    }
+    recorder.timer = setInterval(() => recorder.flush(), FLUSH_INTERVAL_MS);
+    return recorder;
+  }
+
+  get session(): SessionMeta {
+    return this.meta;
+  }
+
+  private holdLock() {
+    if (!navigator.locks) return Promise.resolve();
+    return new Promise<void>((acquired) => {
+      navigator.locks.request(lockName(this.meta.id), () => {
+        acquired();
+        return new Promise<void>((release) => (this.releaseLock = release));
+      });
+    });
+  }
+
+  append(samples: IMUSample[]) {
+    if (this.stopped) return;
+    this.buffer.push(...samples);
+    if (this.buffer.length >= MAX_BUFFERED) this.flush();
+  }
+
+  // Adds links that joined after the recording started
+  describe(devices: SessionDevice[]) {
+    const known = new Set(this.meta.devices.map((d) => d.source));
+    const added = devices.filter((d) => !known.has(d.source));
+    if (added.length > 0) this.meta = { ...this.meta, devices: [...this.meta.devices, ...added] };
+  }
+
+  // Keeps the session's markers in step with the dashboard's; ones set before it started are left out
+  setMarkers(markers: EventMarker[]) {
+    if (this.stopped) return;
+    this.meta = { ...this.meta, markers: markersBetween(markers, this.meta.startedAt) };
+    this.writing = this.writing.then(() => putSession(this.meta)).catch((e) => this.onError?.(e));
+  }
+
+  flush(): Promise<void> {
+    const samples = this.buffer;
+    this.buffer = [];
+    if (samples.length > 0) {
+      this.writing = this.writing.then(() => this.writeChunk(samples)).catch((e) => this.onError?.(e));
+    }
+    return this.writing;
+  }
+
+  private async writeChunk(samples: IMUSample[]) {
+    const bySource = new Map<string, IMUSample[]>();
+    const streams = new Set(this.meta.streams);
+    let startTime = Infinity;
+    let endTime = -Infinity;
+    for (const s of samples) {
+      const source = s.source ?? "";
+      let list = bySource.get(source);
+      if (!list) bySource.set(source, (list = []));
+      list.push(s);
+      streams.add(streamKey(source, s.imuId));
+      const t = s.hostTime ?? Date.now();
+      startTime = Math.min(startTime, t);
+      endTime = Math.max(endTime, t);
+    }
+    const parts = [...bySource].map(([source, list]) => ({ source, samples: packSamples(list) }));
+    const chunk: SessionChunk = { sessionId: this.meta.id, index: this.meta.chunkCount, startTime, endTime, parts };
+    const meta: SessionMeta = {
+      ...this.meta,
+      endedAt: Math.max(this.meta.endedAt, endTime),
+      streams: [...streams].sort(),
+      sampleCount: this.meta.sampleCount + samples.length,
+      chunkCount: this.meta.chunkCount + 1,
+      bytes: this.meta.bytes + parts.reduce((n, p) => n + p.samples.data.byteLength, 0),
+    };
+    await appendChunk(meta, chunk);
+    // devices or markers may have changed while the chunk was written
+    this.meta = { ...meta, devices: this.meta.devices, markers: this.meta.markers };
+    this.onProgress?.(meta);
+  }
+
+  async stop(): Promise<SessionMeta> {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await this.flush();
+    this.stopped = true;
+    this.meta = { ...this.meta, status: "complete", endedAt: Math.max(this.meta.endedAt, Date.now()) };
+    try {
+      await putSession(this.meta);
+    } finally {
+      this.releaseLock?.();
+      this.releaseLock = null;
+    }
+    return this.meta;
+  }
+}
+
+// Marks sessions whose recording tab is gone as recovered. Everything written before the
+// crash (all but the last second or so) stays readable. Returns the sessions it fixed up.
+export async function recoverSessions(): Promise<SessionMeta[]> {
+  const sessions = (await listSessions()).filter((s) => s.status === "recording");
+  if (sessions.length === 0) return [];
+
+  const held = navigator.locks ? new Set((await navigator.locks.query()).held?.map((l) => l.name)) : null;
+  const orphaned = sessions.filter((s) =>
+    held ? !held.has(lockName(s.id)) : Date.now() - s.endedAt > STALE_MS
+  );
+  const recovered = orphaned.map((s): SessionMeta => ({ ...s, status: "recovered" }));
+  await Promise.all(recovered.map(putSession));
+  return recovered;
+}
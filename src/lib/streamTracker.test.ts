@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import { StreamTracker } from "./streamTracker";
+
+const sample = (imuId: number, seq: number): IMUSample => ({
+  imuId,
+  seq,
+  accel: { x: 0, y: 0, z: 0 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+describe("StreamTracker", () => {
+  it("breaks every known IMU's line once after an outage", () => {
+    const tracker = new StreamTracker();
+    tracker.observe([sample(0, 1), sample(1, 1)], "link", 1000);
+    tracker.markOutage();
+    const after = [sample(0, 2), sample(1, 2), sample(0, 3)];
+    tracker.observe(after, "link", 2000);
+    expect(after.map((s) => s.gap)).toEqual([1, 1, undefined]);
+  });
+
+  it("takes over loss counts and IMUs from a tracker that went away", () => {
+    const first = new StreamTracker();
+    first.observe([sample(0, 1), sample(0, 4)], "link", 1000);
+
+    const next = new StreamTracker();
+    next.resume(first.loss, [0]);
+    const after = [sample(0, 9), sample(0, 11)];
+    next.observe(after, "link", 2000);
+    // the unseen stretch between trackers is a gap in the chart, not counted loss
+    expect(after.map((s) => s.gap)).toEqual([1, 1]);
+    expect(next.loss[0]).toMatchObject({ received: 4, lost: 3, bursts: 2 });
+  });
+});
@@ -0,0 +1,74 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { SequenceTracker, type LossStats } from "@/lib/sequenceTracker";
+import { ClockSync, type ClockEstimate } from "@/lib/clockSync";
+
+// Per-link bookkeeping applied to every decoded batch: loss from sequence counters,
+// device → host clock mapping, and the gap markers owed after an outage.
+export class StreamTracker {
+  private sequences = new SequenceTracker();
+  private clock = new ClockSync();
+  private seenIMUs = new Set<number>();
+  // IMUs whose next sample still owes a gap marker after a link outage
+  private outageIMUs = new Set<number>();
+
+  get loss(): Record<number, LossStats> {
+    return this.sequences.snapshot();
+  }
+
+  get clockEstimate(): ClockEstimate | null {
+    return this.clock.estimate;
+  }
+
+  // Stamps source, gap and hostTime onto the samples in place; without a device time, a hostTime
+  // the source set itself stands. Reports whether the batch carried sequence counters / device
+  // timestamps, i.e. whether loss / clock changed.
+  observe(samples: IMUSample[], source: string, arrival: number) {
+    let sequenced = false;
+    let timed = false;
+    const deviceMs = new Array<number | undefined>(samples.length);
+
+    samples.forEach((sample, i) => {
+      sample.source = source;
+      this.seenIMUs.add(sample.imuId);
+      if (sample.seq !== undefined) {
+        sequenced = true;
+        const gap = this.sequences.observe(sample.imuId, sample.seq);
+        if (gap > 0) sample.gap = gap;
+      }
+      if (this.outageIMUs.delete(sample.imuId)) sample.gap = Math.max(sample.gap ?? 0, 1);
+      if (sample.deviceTime !== undefined) {
+        timed = true;
+        deviceMs[i] = this.clock.unwrap(sample.deviceTime);
+        this.clock.observe(deviceMs[i], arrival);
+      }
+    });
+
+    // Map after observing the whole batch so a burst shares one up-to-date estimate
+    samples.forEach((sample, i) => {
+      sample.hostTime = deviceMs[i] !== undefined ? this.clock.toHost(deviceMs[i]) : (sample.hostTime ?? arrival);
+    });
+
+    return { sequenced, timed };
+  }
+
+  // Call once a dropped link is back: every known IMU's next sample breaks the chart line, and
+  // the clock fit starts over because a browned-out device restarts its timer
+  markOutage() {
+    this.outageIMUs = new Set(this.seenIMUs);
+    this.clock.reset();
+  }
+
+  // Takes over a link tracked elsewhere until now (a decode worker that died): loss keeps
+  // counting from `loss`, and each of `imuIds` breaks its line as after an outage
+  resume(loss: Record<number, LossStats>, imuIds: Iterable<number>) {
+    this.sequences.resume(loss);
+    for (const imuId of imuIds) this.seenIMUs.add(imuId);
+    this.markOutage();
+  }
+
+  // A source that jumped (replay seek): loss counting starts over, and lines break as after an outage
+  restart() {
+    this.sequences.reset();
+    this.markOutage();
+  }
+}
@@ -0,0 +1,155 @@
+import { formatIMUText, type IMUSample } from "@/lib/imuParser";
+import type { SampleLimits } from "@/lib/frameIntegrity";
+import { emptyFrameStats, screenFrame, type DecodeOptions } from "@/lib/frameDecoder";
+import { StreamTracker } from "@/lib/streamTracker";
+import type { CommandChannel } from "@/lib/commands";
+import { createDecodeBackend, type DecodeBackend, type DecodeBatch } from "./decoding";
+import type {
+  FrameStats,
+  IMUTransport,
+  TransportKind,
+  TransportListener,
+  TransportStatus,
+  TransportEvent,
+} from "./types";
+
+export const errorMessage = (e: unknown, fallback: string) => (e instanceof Error ? e.message : fallback);
+
+let nextLinkId = 1;
+
+export abstract class BaseTransport implements IMUTransport {
+  abstract readonly kind: TransportKind;
+  abstract readonly name: string;
+  readonly id: string;
+
+  commands: CommandChannel | null = null;
+
+  private listeners = new Set<TransportListener>();
+  private _status: TransportStatus = "idle";
+
+  protected frameStats: FrameStats = emptyFrameStats();
+  private tracker = new StreamTracker();
+
+  constructor(id: string = `link-${nextLinkId++}`) {
+    this.id = id;
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  abstract connect(): Promise<boolean>;
+  abstract disconnect(): Promise<void>;
+
+  subscribe(listener: TransportListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  protected emit(event: TransportEvent) {
+    for (const l of this.listeners) l(event);
+  }
+
+  protected setStatus(status: TransportStatus, message?: string) {
+    this._status = status;
+    this.emit({ type: "status", status, message });
+  }
+
+  protected emitSamples(samples: IMUSample[]) {
+    if (samples.length === 0) return;
+    const { sequenced, timed } = this.tracker.observe(samples, this.id, Date.now());
+    this.emit({ type: "samples", samples });
+    if (sequenced) this.emit({ type: "loss", loss: this.tracker.loss });
+    if (timed) this.emit({ type: "clock", clock: this.tracker.clockEstimate });
+  }
+
+  // Call once a dropped link is back (see StreamTracker.markOutage)
+  protected markOutage() {
+    this.tracker.markOutage();
+  }
+
+  protected restartTracking() {
+    this.tracker.restart();
+  }
+
+  protected emitPacket(bytes: Uint8Array) {
+    this.emit({ type: "packet", bytes });
+  }
+
+  // Rejects a decoded frame wholesale if any field is NaN or out of range
+  protected screenFrame(samples: IMUSample[], limits?: SampleLimits): IMUSample[] {
+    return screenFrame(samples, this.frameStats, limits);
+  }
+
+  protected emitStats() {
+    this.emit({ type: "stats", stats: { ...this.frameStats } });
+  }
+
+  // Sources without a wire format (simulator, replay) report what the firmware would have sent
+  protected emitSynthetic(samples: IMUSample[]) {
+    this.emitSamples(samples);
+    this.emitPacket(new TextEncoder().encode(formatIMUText(samples)));
+  }
+}
+
+// Transports that receive raw bytes (BLE notifications, serial chunks). Reassembly and decoding
+// run in the decode worker (inline where there is none), which reports back in batches at
+// display rate instead of once per chunk.
+export abstract class ByteStreamTransport extends BaseTransport {
+  private decoder: DecodeBackend | null = null;
+
+  constructor(
+    protected decode: DecodeOptions,
+    id?: string
+  ) {
+    super(id);
+  }
+
+  private get backend() {
+    return (this.decoder ??= createDecodeBackend(this.id, this.decode, this.onBatch));
+  }
+
+  protected ingest(chunk: Uint8Array) {
+    this.backend.push(chunk);
+  }
+
+  // Drops a partial frame, e.g. after the link dropped mid-record
+  protected resetAssembler() {
+    this.decoder?.reset();
+  }
+
+  // Ends decoding for this connection; what is still pending is delivered first
+  protected releaseDecoder() {
+    this.decoder?.close();
+    this.decoder = null;
+  }
+
+  // Samples parsed on this thread (WebSocket JSON) are tracked apart from the decoder's
+  protected markOutage() {
+    super.markOutage();
+    this.decoder?.outage();
+  }
+
+  private onBatch = (batch: DecodeBatch) => {
+    // one chunk failed to decode; the link itself is still up
+    if (batch.error) {
+      this.setStatus(this.status, batch.error);
+      return;
+    }
+    if (batch.packets > 0 && batch.lastPacket) {
+      this.emit({ type: "packet", bytes: batch.lastPacket, count: batch.packets });
+    }
+    for (const line of batch.replies) this.commands?.handleLine(line);
+    if (batch.samples.length > 0) this.emit({ type: "samples", samples: batch.samples });
+    if (batch.loss) this.emit({ type: "loss", loss: batch.loss });
+    if (batch.clock) this.emit({ type: "clock", clock: batch.clock.estimate });
+    const { dropped, lostBytes } = this.frameStats;
+    Object.assign(this.frameStats, batch.stats, {
+      dropped: dropped + batch.dropped,
+      lostBytes: lostBytes + (batch.lostBytes ?? 0),
+    });
+    this.emitStats();
+  };
+}
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import { BLETransport, NORDIC_UART_UUIDS } from "./ble";
+import type { TransportEvent } from "./types";
+
+const csvFrame = (imuId: number) => `${imuId},1,2,3,0.1,0.2,0.3,10,20,30,0,0,0,1\n`;
+
+class FakeNotifyChar extends EventTarget {
+  value: DataView | null = null;
+
+  async startNotifications() {
+    return this;
+  }
+
+  notify(text: string) {
+    const bytes = new TextEncoder().encode(text);
+    this.value = new DataView(bytes.buffer);
+    this.dispatchEvent(new Event("characteristicvaluechanged"));
+  }
+}
+
+// A pod whose GATT connect fails `failures` times before it works again
+class FakeDevice extends EventTarget {
+  readonly id = "pod-1";
+  readonly name = "WIMU";
+  failures = 0;
+  notifyChar = new FakeNotifyChar();
+  gatt = {
+    connect: async () => {
+      if (this.failures > 0) {
+        this.failures--;
+        throw new Error("GATT Server is disconnected");
+      }
+      return {
+        getPrimaryService: async () => ({
+          getCharacteristic: async (uuid: string) => {
+            if (uuid === NORDIC_UART_UUIDS.notify) return this.notifyChar;
+            throw new Error("No RX characteristic");
+          },
+        }),
+      };
+    },
+    disconnect: vi.fn(),
+  };
+
+  drop() {
+    this.dispatchEvent(new Event("gattserverdisconnected"));
+  }
+}
+
+function setup(maxReconnectAttempts = 3) {
+  const device = new FakeDevice();
+  const transport = new BLETransport(device as unknown as BluetoothDevice, {
+    reconnect: { maxReconnectAttempts, reconnectBaseDelayMs: 500, reconnectMaxDelayMs: 1500 },
+  });
+  const events: TransportEvent[] = [];
+  transport.subscribe((ev) => events.push(ev));
+  const samples = () => events.flatMap((ev) => (ev.type === "samples" ? ev.samples : ([] as IMUSample[])));
+  const messages = () => events.flatMap((ev) => (ev.type === "status" ? [`${ev.status}: ${ev.message}`] : []));
+  return { device, transport, samples, messages };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("BLETransport reconnection", () => {
+  it("backs off exponentially and resumes with a gap after the outage", async () => {
+    const { device, transport, samples, messages } = setup();
+    expect(await transport.connect()).toBe(true);
+    device.notifyChar.notify(csvFrame(0));
+
+    device.failures = 2;
+    device.drop();
+    expect(transport.status).toBe("reconnecting");
+    await vi.advanceTimersByTimeAsync(500);
+    await vi.advanceTimersByTimeAsync(1000);
+    // capped at reconnectMaxDelayMs
+    await vi.advanceTimersByTimeAsync(1500);
+
+    expect(messages().filter((m) => m.startsWith("reconnecting"))).toEqual([
+      "reconnecting: Connection lost; reconnecting in 0.5 s (attempt 1/3)",
+      "reconnecting: Connection lost; reconnecting in 1.0 s (attempt 2/3)",
+      "reconnecting: Connection lost; reconnecting in 1.5 s (attempt 3/3)",
+    ]);
+    expect(transport.status).toBe("connected");
+
+    device.notifyChar.notify(csvFrame(0));
+    expect(samples().map((s) => s.gap ?? 0)).toEqual([0, 1]);
+    await transport.disconnect();
+  });
+
+  it("gives up after the configured number of attempts", async () => {
+    const { device, transport, messages } = setup(2);
+    await transport.connect();
+    device.failures = 10;
+    device.drop();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(transport.status).toBe("lost");
+    expect(messages().pop()).toBe("lost: Connection lost; gave up after 2 reconnect attempt(s)");
+    expect(device.gatt.disconnect).toHaveBeenCalled();
+  });
+
+  it("stops retrying once disconnected by the user", async () => {
+    const { device, transport } = setup();
+    await transport.connect();
+    device.drop();
+    await transport.disconnect();
+    const connect = vi.spyOn(device.gatt, "connect");
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(connect).not.toHaveBeenCalled();
+    expect(transport.status).toBe("disconnected");
+  });
+});
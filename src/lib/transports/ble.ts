@@ -0,0 +1,194 @@
+import { CommandChannel } from "@/lib/commands";
+import { DEFAULT_DECODE_OPTIONS, type DecodeOptions } from "@/lib/frameDecoder";
+import { ByteStreamTransport, errorMessage } from "./base";
+
+export const TARGET_SERVICE_UUID = "6e400001-b5a3-f393-e0a9-e50e24dcca9e";
+export const TARGET_CHAR_NOTIFY_UUID = "6e400003-b5a3-f393-e0a9-e50e24dcca9e";
+export const TARGET_CHAR_WRITE_UUID = "6e400002-b5a3-f393-e0a9-e50e24dcca9e";
+
+// Default ATT MTU leaves 20 bytes per write
+const BLE_WRITE_CHUNK = 20;
+
+// keyed by the device so the same pod can't be opened twice
+export const bleLinkId = (deviceId: string) => `ble:${deviceId}`;
+
+export type BLEReconnectOptions = {
+  // give up after this many consecutive failed reconnects (0 disables reconnecting)
+  maxReconnectAttempts?: number;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+};
+
+// GATT layout of the firmware; defaults to the Nordic UART service
+export type BLEServiceUUIDs = {
+  service: string;
+  notify: string;
+  // RX characteristic for commands, if the firmware has one
+  write?: string;
+};
+
+export const NORDIC_UART_UUIDS: BLEServiceUUIDs = {
+  service: TARGET_SERVICE_UUID,
+  notify: TARGET_CHAR_NOTIFY_UUID,
+  write: TARGET_CHAR_WRITE_UUID,
+};
+
+type BLETransportOptions = {
+  decode?: DecodeOptions;
+  uuids?: BLEServiceUUIDs;
+  reconnect?: BLEReconnectOptions;
+};
+
+export class BLETransport extends ByteStreamTransport {
+  readonly kind = "ble";
+  readonly name: string;
+
+  private notifyChar: BluetoothRemoteGATTCharacteristic | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closing = false;
+
+  private uuids: BLEServiceUUIDs;
+  private reconnect: BLEReconnectOptions;
+
+  constructor(
+    readonly device: BluetoothDevice,
+    options: BLETransportOptions = {}
+  ) {
+    super(options.decode ?? DEFAULT_DECODE_OPTIONS, bleLinkId(device.id));
+    this.name = device.name ?? "Unknown";
+    this.uuids = options.uuids ?? NORDIC_UART_UUIDS;
+    this.reconnect = options.reconnect ?? {};
+  }
+
+  // A record (e.g. [id0,ax0,...,w0, id1,ax1,...,w1, ...]) may straddle notifications; the assembler stitches them
+  private onNotify = (ev: Event) => {
+    const ch = ev.target as BluetoothRemoteGATTCharacteristic;
+    const dv = ch?.value;
+    if (!dv) return;
+
+    // copy: the browser may reuse the DataView's buffer for the next notification
+    this.ingest(new Uint8Array(dv.buffer, dv.byteOffset, dv.byteLength).slice());
+  };
+
+  // Fired by the browser when the link drops (brown-out, out of range, firmware reset)
+  private onGattDisconnected = () => {
+    if (this.closing || this.status === "reconnecting") return;
+    this.releaseLink();
+    this.resetAssembler();
+    this.scheduleReconnect();
+  };
+
+  async connect() {
+    this.closing = false;
+    this.attempts = 0;
+    this.setStatus("connecting", "Connecting…");
+    try {
+      await this.open();
+      this.device.addEventListener("gattserverdisconnected", this.onGattDisconnected);
+      this.setStatus("connected", "Receiving notifications…");
+      return true;
+    } catch (e) {
+      this.teardown();
+      this.setStatus("error", errorMessage(e, "Connection error"));
+      return false;
+    }
+  }
+
+  // GATT connect + notification subscription; shared by connect() and every reconnect attempt
+  private async open() {
+    const server = await this.device.gatt?.connect();
+    if (!server) throw new Error("Failed to connect");
+
+    const service = await server.getPrimaryService(this.uuids.service);
+    const notifyChar = await service.getCharacteristic(this.uuids.notify);
+
+    await notifyChar.startNotifications();
+    notifyChar.addEventListener("characteristicvaluechanged", this.onNotify);
+    this.notifyChar = notifyChar;
+    await this.openCommandChannel(service);
+  }
+
+  private scheduleReconnect() {
+    const { maxReconnectAttempts = 8, reconnectBaseDelayMs = 500, reconnectMaxDelayMs = 15_000 } = this.reconnect;
+    if (this.attempts >= maxReconnectAttempts) {
+      this.teardown();
+      this.releaseDecoder();
+      this.setStatus("lost", `Connection lost; gave up after ${this.attempts} reconnect attempt(s)`);
+      return;
+    }
+    this.attempts += 1;
+    const delay = Math.min(reconnectBaseDelayMs * 2 ** (this.attempts - 1), reconnectMaxDelayMs);
+    this.setStatus(
+      "reconnecting",
+      `Connection lost; reconnecting in ${(delay / 1000).toFixed(1)} s (attempt ${this.attempts}/${maxReconnectAttempts})`
+    );
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.closing) return;
+      try {
+        await this.open();
+      } catch {
+        this.releaseLink();
+        if (!this.closing) this.scheduleReconnect();
+        return;
+      }
+      if (this.closing) return;
+      this.attempts = 0;
+      this.markOutage();
+      this.setStatus("connected", "Reconnected; receiving notifications…");
+    }, delay);
+  }
+
+  // RX is optional: receive-only firmware simply gets no console
+  private async openCommandChannel(service: BluetoothRemoteGATTService) {
+    let rx: BluetoothRemoteGATTCharacteristic;
+    const rxUuid = this.uuids.write;
+    try {
+      if (!rxUuid) throw new Error("No RX characteristic");
+      rx = await service.getCharacteristic(rxUuid);
+    } catch {
+      this.commands = null;
+      return;
+    }
+    const write = (value: Uint8Array) =>
+      rx.writeValueWithoutResponse?.(value) ?? rx.writeValueWithResponse?.(value) ?? rx.writeValue(value);
+
+    this.commands = new CommandChannel(async (bytes) => {
+      for (let i = 0; i < bytes.length; i += BLE_WRITE_CHUNK) {
+        await write(bytes.subarray(i, i + BLE_WRITE_CHUNK));
+      }
+    });
+    this.commands.info(`Command channel open on ${rxUuid.slice(0, 8)}`);
+  }
+
+  // Drops the per-connection state but keeps listening for the device
+  private releaseLink() {
+    this.commands?.close();
+    try {
+      this.notifyChar?.removeEventListener("characteristicvaluechanged", this.onNotify);
+    } catch {
+      // characteristic already gone
+    }
+    this.notifyChar = null;
+  }
+
+  private teardown() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.device.removeEventListener("gattserverdisconnected", this.onGattDisconnected);
+    this.releaseLink();
+    try {
+      this.device.gatt?.disconnect();
+    } catch {
+      // already disconnected
+    }
+  }
+
+  async disconnect() {
+    this.closing = true;
+    this.teardown();
+    this.releaseDecoder();
+    this.setStatus("disconnected", "Disconnected");
+  }
+}
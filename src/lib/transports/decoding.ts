@@ -0,0 +1,224 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { FrameDecoder, emptyFrameStats, type DecodeOptions } from "@/lib/frameDecoder";
+import { StreamTracker } from "@/lib/streamTracker";
+import { unpackSamples } from "@/lib/samplePacking";
+import type { LossStats } from "@/lib/sequenceTracker";
+import type { ClockEstimate } from "@/lib/clockSync";
+import type { DecodeRequest, DecodeUpdate } from "@/workers/protocol";
+import type { FrameStats } from "./types";
+
+// Everything decoded from a link since the previous batch
+export type DecodeBatch = {
+  samples: IMUSample[];
+  replies: string[];
+  stats: FrameStats;
+  loss?: Record<number, LossStats>;
+  clock?: { estimate: ClockEstimate | null };
+  packets: number;
+  lastPacket: Uint8Array | null;
+  // samples discarded since the previous batch because the UI fell behind
+  dropped: number;
+  // bytes lost with a decode worker that failed
+  lostBytes?: number;
+  // decoding failed; later chunks are still decoded
+  error?: string;
+};
+
+// Where a byte-stream transport sends its raw chunks to be decoded
+export interface DecodeBackend {
+  push(chunk: Uint8Array): void;
+  // the link came back after dropping: see StreamTracker.markOutage
+  outage(): void;
+  // drop any partial frame
+  reset(): void;
+  close(): void;
+}
+
+type BatchHandler = (batch: DecodeBatch) => void;
+
+// What a link had reported by the time its decoding moved to this thread
+type Carried = { stats: FrameStats; loss: Record<number, LossStats>; imuIds: Iterable<number> };
+
+const addStats = (a: FrameStats, b: FrameStats) =>
+  Object.fromEntries(Object.entries(a).map(([k, v]) => [k, v + b[k as keyof FrameStats]])) as FrameStats;
+
+const emptyBatch = (): DecodeBatch => ({
+  samples: [],
+  replies: [],
+  stats: emptyFrameStats(),
+  packets: 0,
+  lastPacket: null,
+  dropped: 0,
+});
+
+// Decodes on the calling thread, one batch per chunk. Used where workers aren't available, and
+// for links whose worker failed, continuing their counters.
+class InlineDecodeBackend implements DecodeBackend {
+  private decoder: FrameDecoder;
+  private tracker = new StreamTracker();
+  private carried = emptyFrameStats();
+
+  constructor(
+    private linkId: string,
+    decode: DecodeOptions,
+    private onBatch: BatchHandler,
+    carried?: Carried
+  ) {
+    this.decoder = new FrameDecoder(decode);
+    if (carried) {
+      this.carried = carried.stats;
+      this.tracker.resume(carried.loss, carried.imuIds);
+    }
+  }
+
+  private get stats() {
+    return addStats(this.carried, this.decoder.stats);
+  }
+
+  push(chunk: Uint8Array) {
+    const { samples, replies } = this.decoder.push(chunk);
+    const { sequenced, timed } = this.tracker.observe(samples, this.linkId, Date.now());
+    this.onBatch({
+      samples,
+      replies,
+      stats: this.stats,
+      loss: sequenced ? this.tracker.loss : undefined,
+      clock: timed ? { estimate: this.tracker.clockEstimate } : undefined,
+      packets: 1,
+      lastPacket: chunk,
+      dropped: 0,
+    });
+  }
+
+  outage() {
+    this.tracker.markOutage();
+  }
+
+  reset() {
+    this.decoder.reset();
+    this.onBatch({ ...emptyBatch(), stats: this.stats });
+  }
+
+  close() {
+    this.decoder.reset();
+  }
+}
+
+// One worker decodes for every link; undefined until first needed, null if it can't start
+let worker: Worker | null | undefined;
+const handlers = new Map<number, { linkId: string; onBatch: BatchHandler; fallback: () => void }>();
+let nextChannel = 1;
+
+function decodeWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL("../../workers/decode.worker.ts", import.meta.url), { type: "module" });
+  } catch {
+    worker = null;
+    return worker;
+  }
+  worker.onmessage = (ev: MessageEvent<DecodeUpdate>) => {
+    const msg = ev.data;
+    const handler = handlers.get(msg.channel);
+    if (!handler) return;
+    if (msg.type === "error") {
+      handler.onBatch({ ...emptyBatch(), error: `Decoder error: ${msg.message}` });
+      return;
+    }
+    if (msg.final) handlers.delete(msg.channel);
+    handler.onBatch({
+      samples: unpackSamples(msg.samples, handler.linkId),
+      replies: msg.replies,
+      stats: msg.stats,
+      loss: msg.loss,
+      clock: msg.clock,
+      packets: msg.packets,
+      lastPacket: msg.lastPacket && new Uint8Array(msg.lastPacket),
+      dropped: msg.dropped,
+    });
+  };
+  // The worker failed to load or crashed: every link carries on decoding on this thread, and
+  // later links don't try the worker again
+  worker.onerror = (ev) => {
+    ev.preventDefault();
+    worker?.terminate();
+    worker = null;
+    const orphaned = [...handlers.values()];
+    handlers.clear();
+    for (const h of orphaned) h.fallback();
+  };
+  return worker;
+}
+
+// Hands chunks to the shared worker, which answers with batches at display rate. If the worker
+// dies, the rest of the link is decoded inline: counters carry on, the chunks the worker hadn't
+// answered for count as lost, and every IMU's line breaks there as after an outage.
+class WorkerDecodeBackend implements DecodeBackend {
+  private channel = nextChannel++;
+  private inline: InlineDecodeBackend | null = null;
+  // sizes of the chunks posted that no batch has accounted for yet
+  private inFlight: number[] = [];
+  // what the worker last reported
+  private stats = emptyFrameStats();
+  private loss: Record<number, LossStats> = {};
+  private imuIds = new Set<number>();
+
+  constructor(
+    private worker: Worker,
+    linkId: string,
+    decode: DecodeOptions,
+    onBatch: BatchHandler
+  ) {
+    const observe: BatchHandler = (batch) => {
+      if (!batch.error) {
+        this.inFlight.splice(0, batch.packets);
+        this.stats = batch.stats;
+        if (batch.loss) this.loss = batch.loss;
+        for (const s of batch.samples) this.imuIds.add(s.imuId);
+      }
+      onBatch(batch);
+    };
+    const fallback = () => {
+      const { stats, loss, imuIds } = this;
+      this.inline = new InlineDecodeBackend(linkId, decode, onBatch, { stats, loss, imuIds });
+      const lostBytes = this.inFlight.reduce((n, size) => n + size, 0);
+      this.inFlight = [];
+      onBatch({ ...emptyBatch(), stats, lostBytes });
+      onBatch({ ...emptyBatch(), error: "Decode worker failed; decoding continues on the main thread" });
+    };
+    handlers.set(this.channel, { linkId, onBatch: observe, fallback });
+    this.send({ type: "open", channel: this.channel, linkId, decode });
+  }
+
+  private send(msg: DecodeRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(msg, transfer);
+  }
+
+  push(chunk: Uint8Array) {
+    if (this.inline) return this.inline.push(chunk);
+    // copy so the transferred buffer never aliases one the caller still holds
+    const bytes = chunk.slice().buffer;
+    this.inFlight.push(bytes.byteLength);
+    this.send({ type: "chunk", channel: this.channel, bytes, arrival: Date.now() }, [bytes]);
+  }
+
+  outage() {
+    if (this.inline) return this.inline.outage();
+    this.send({ type: "outage", channel: this.channel });
+  }
+
+  reset() {
+    if (this.inline) return this.inline.reset();
+    this.send({ type: "reset", channel: this.channel });
+  }
+
+  close() {
+    if (this.inline) return this.inline.close();
+    this.send({ type: "close", channel: this.channel });
+  }
+}
+
+export function createDecodeBackend(linkId: string, decode: DecodeOptions, onBatch: BatchHandler): DecodeBackend {
+  const w = typeof Worker !== "undefined" ? decodeWorker() : null;
+  return w ? new WorkerDecodeBackend(w, linkId, decode, onBatch) : new InlineDecodeBackend(linkId, decode, onBatch);
+}
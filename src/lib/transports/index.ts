@@ -0,0 +1,18 @@
+export type { FrameStats, IMUTransport, TransportEvent, TransportKind, TransportListener, TransportStatus } from "./types";
+export type { DecodeOptions } from "@/lib/frameDecoder";
+export {
+  BLETransport,
+  bleLinkId,
+  NORDIC_UART_UUIDS,
+  TARGET_CHAR_NOTIFY_UUID,
+  TARGET_CHAR_WRITE_UUID,
+  TARGET_SERVICE_UUID,
+} from "./ble";
+export type { BLEReconnectOptions, BLEServiceUUIDs } from "./ble";
+export { SerialTransport, parsePortFilter, matchesFilter, requestSerialPort, supportsWebSerial } from "./serial";
+export type { SerialPortFilter, SerialPortInfo, SerialPortLike } from "./serial";
+export { WebSocketTransport } from "./websocket";
+export type { WebSocketFrameFormat } from "./websocket";
+export { SimulatorTransport } from "./simulator";
+export { ReplayPlayer, ReplayTransport, REPLAY_SPEEDS } from "./replay";
+export type { ReplayState } from "./replay";
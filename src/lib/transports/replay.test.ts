@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { Recording } from "@/lib/import/recording";
+import { ReplayPlayer } from "./replay";
+import type { TransportEvent } from "./types";
+
+const START = Date.UTC(2024, 0, 1);
+
+const sample = (source: string, i: number): IMUSample => ({
+  imuId: 0,
+  source,
+  hostTime: START + i * 10,
+  accel: { x: i, y: 0, z: 0 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+// two devices at 100 Hz for one second
+const recording: Recording = {
+  name: "walk",
+  devices: [
+    { source: "left", name: "Left", kind: "ble", profile: null },
+    { source: "right", name: "Right", kind: "ble", profile: null },
+  ],
+  samples: Array.from({ length: 101 }, (_, i) => [sample("left", i), sample("right", i)]).flat(),
+  markers: [],
+  skipped: 0,
+};
+
+async function setup() {
+  const player = new ReplayPlayer(recording);
+  const events = new Map<string, TransportEvent[]>();
+  for (const t of player.transports) {
+    events.set(t.name, []);
+    t.subscribe((ev) => events.get(t.name).push(ev));
+    await t.connect();
+  }
+  const received = (name: string) =>
+    events.get(name).flatMap((ev) => (ev.type === "samples" ? ev.samples : ([] as IMUSample[])));
+  return { player, received };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: Date.UTC(2025, 5, 1) });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("ReplayPlayer", () => {
+  it("plays each device on its own link at the recorded pace, on the host clock", async () => {
+    const { player, received } = await setup();
+    expect(player.transports.map((t) => t.name)).toEqual(["walk · Left", "walk · Right"]);
+    expect(player.duration).toBe(1000);
+
+    player.play();
+    vi.advanceTimersByTime(100);
+    const left = received("walk · Left");
+    expect(left.map((s) => s.accel.x)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(left.every((s) => s.source === player.transports[0].id)).toBe(true);
+    expect(left[9].hostTime).toBe(Date.now() - 10);
+    expect(received("walk · Right")).toHaveLength(10);
+  });
+
+  it("plays faster, pauses and breaks the line after a seek", async () => {
+    const { player, received } = await setup();
+    player.setSpeed(2);
+    player.play();
+    vi.advanceTimersByTime(100);
+    player.pause();
+    expect(player.state).toMatchObject({ playing: false, position: 200 });
+    expect(received("walk · Left")).toHaveLength(20);
+
+    player.seek(500);
+    player.play();
+    vi.advanceTimersByTime(20);
+    const after = received("walk · Left").slice(20);
+    expect(after[0]).toMatchObject({ accel: { x: 50 }, gap: 1 });
+  });
+
+  it("stops at the end of the recording, or loops within the range", async () => {
+    const { player, received } = await setup();
+    player.play();
+    vi.advanceTimersByTime(1100);
+    expect(player.state).toMatchObject({ playing: false, position: 1000 });
+    expect(received("walk · Left")).toHaveLength(101);
+
+    player.setRange([200, 300]);
+    player.setLoop(true);
+    player.seek(200);
+    player.play();
+    vi.advanceTimersByTime(150);
+    expect(player.state.playing).toBe(true);
+    expect(player.state.position).toBeGreaterThanOrEqual(200);
+    expect(player.state.position).toBeLessThanOrEqual(300);
+  });
+
+  it("holds the whole recording under its own link ids for the views", () => {
+    const player = new ReplayPlayer(recording);
+    const history = player.recordedHistory();
+    expect(history.streams().sort()).toEqual(player.transports.map((t) => `${t.id}#0`).sort());
+    expect(history.firstTime(`${player.transports[0].id}#0`)).toBe(START);
+  });
+});
@@ -0,0 +1,256 @@
+import type { IMUSample } from "@/lib/imuParser";
+import type { Recording } from "@/lib/import/recording";
+import { SampleStore } from "@/lib/sampleStore";
+import { BaseTransport } from "./base";
+
+export type ReplayState = {
+  playing: boolean;
+  // ms since the first sample
+  position: number;
+  duration: number;
+  speed: number;
+  loop: boolean;
+  // selected span (ms since the first sample); playback stops or loops at its end
+  range: [number, number] | null;
+};
+
+export const REPLAY_SPEEDS = [0.1, 0.25, 0.5, 1, 2, 5, 10];
+
+const TICK_MS = 20;
+// position updates while playing; views that follow the playhead redraw at this rate
+const NOTIFY_MS = 1000 / 30;
+
+// One recorded device, played back as a link of its own so the views see the same streams
+// as when it was captured. Driven by its ReplayPlayer; connecting only attaches it.
+export class ReplayTransport extends BaseTransport {
+  readonly kind = "replay";
+
+  constructor(
+    private player: ReplayPlayer,
+    readonly name: string,
+    // the recording's source id this link plays
+    readonly recordedSource: string
+  ) {
+    super();
+  }
+
+  async connect() {
+    this.player.attach(this);
+    this.setStatus("connected", `Replaying ${this.name}`);
+    return true;
+  }
+
+  async disconnect() {
+    this.player.detach(this);
+    this.setStatus("disconnected", "Replay stopped");
+  }
+
+  deliver(samples: IMUSample[]) {
+    this.emitSynthetic(samples);
+  }
+
+  // after a seek or loop: the charts break their lines and loss counting starts over
+  jumped() {
+    this.restartTracking();
+  }
+
+  finished() {
+    this.setStatus("connected", "Replay finished");
+  }
+}
+
+// Plays a Recording in real time (times `speed`), with pause, seek and loop. Samples are
+// re-stamped onto the host clock as they go out, so the views treat them like live data.
+export class ReplayPlayer {
+  readonly transports: ReplayTransport[];
+  readonly duration: number;
+  // recorded host time (epoch ms) of position 0
+  readonly startTime: number;
+
+  private attached = new Set<ReplayTransport>();
+  private bySource: Map<string, ReplayTransport>;
+  private listeners = new Set<(state: ReplayState) => void>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private cursor = 0;
+  private position = 0;
+  private speed = 1;
+  private loop = false;
+  private range: [number, number] | null = null;
+  private playing = false;
+  private lastTick = 0;
+  private lastNotify = 0;
+
+  constructor(readonly recording: Recording) {
+    const { samples, devices } = recording;
+    this.startTime = samples[0]?.hostTime ?? 0;
+    this.duration = samples.length > 0 ? samples[samples.length - 1].hostTime - this.startTime : 0;
+    this.transports = devices.map(
+      (d) => new ReplayTransport(this, devices.length > 1 ? `${recording.name} · ${d.name}` : recording.name, d.source)
+    );
+    this.bySource = new Map(this.transports.map((t) => [t.recordedSource, t]));
+  }
+
+  get state(): ReplayState {
+    const { playing, position, duration, speed, loop, range } = this;
+    return { playing, position, duration, speed, loop, range };
+  }
+
+  // where playback stops: the end of the range while the playhead is inside it
+  private get end() {
+    return this.range && this.position < this.range[1] ? this.range[1] : this.duration;
+  }
+
+  private get loopStart() {
+    return this.range?.[0] ?? 0;
+  }
+
+  subscribe(listener: (state: ReplayState) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  play() {
+    if (this.playing) return;
+    if (this.position >= this.end) this.seek(this.loopStart);
+    this.playing = true;
+    this.run();
+    this.notify();
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.advance();
+    this.playing = false;
+    this.run();
+    this.notify();
+  }
+
+  seek(position: number) {
+    this.position = Math.min(Math.max(position, 0), this.duration);
+    this.cursor = this.indexAt(this.position);
+    this.lastTick = Date.now();
+    for (const t of this.attached) t.jumped();
+    this.notify();
+  }
+
+  setSpeed(speed: number) {
+    // samples already due go out at the old speed
+    if (this.playing) this.advance();
+    this.speed = speed;
+    this.notify();
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+    this.notify();
+  }
+
+  setRange(range: [number, number] | null) {
+    const clamp = (v: number) => Math.min(Math.max(v, 0), this.duration);
+    this.range = range && [clamp(Math.min(...range)), clamp(Math.max(...range))];
+    this.notify();
+  }
+
+  // The whole recording in one store keyed by this player's link ids, for views that follow the
+  // playhead rather than the live feed. Times are as recorded: startTime + position.
+  recordedHistory(): SampleStore {
+    const { samples } = this.recording;
+    const counts = new Map<string, number>();
+    for (const s of samples) {
+      const key = `${s.source}#${s.imuId}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    const store = new SampleStore(Math.max(1, ...counts.values()));
+    const BATCH = 4096;
+    for (let i = 0; i < samples.length; i += BATCH) {
+      store.append(samples.slice(i, i + BATCH).map((s) => ({ ...s, source: this.bySource.get(s.source)?.id })));
+    }
+    return store;
+  }
+
+  attach(transport: ReplayTransport) {
+    this.attached.add(transport);
+    this.run();
+  }
+
+  detach(transport: ReplayTransport) {
+    this.attached.delete(transport);
+    if (this.attached.size === 0) this.playing = false;
+    this.run();
+  }
+
+  // first sample at or after `position`
+  private indexAt(position: number) {
+    const { samples } = this.recording;
+    const t = this.startTime + position;
+    let lo = 0;
+    let hi = samples.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (samples[mid].hostTime < t) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  // the timer only runs while playing into at least one connected link
+  private run() {
+    const wanted = this.playing && this.attached.size > 0;
+    if (wanted && !this.timer) {
+      this.lastTick = Date.now();
+      this.timer = setInterval(() => this.advance(), TICK_MS);
+    } else if (!wanted && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private advance() {
+    const now = Date.now();
+    const end = this.end;
+    const target = Math.min(this.position + (now - this.lastTick) * this.speed, end);
+    this.lastTick = now;
+    this.emitUntil(target, now);
+    this.position = target;
+
+    if (this.position >= end) {
+      if (this.loop && end > this.loopStart) {
+        this.seek(this.loopStart);
+      } else {
+        this.playing = false;
+        this.run();
+        for (const t of this.attached) t.finished();
+        this.notify();
+      }
+      return;
+    }
+    if (now - this.lastNotify >= NOTIFY_MS) this.notify();
+  }
+
+  // Sends every sample up to `target`, each stamped as if it had just arrived at its recorded pace
+  private emitUntil(target: number, now: number) {
+    const { samples } = this.recording;
+    const end = this.startTime + target;
+    const out = new Map<ReplayTransport, IMUSample[]>();
+    // at the very end the last sample is due as well
+    while (this.cursor < samples.length && (samples[this.cursor].hostTime < end || target >= this.duration)) {
+      const s = samples[this.cursor++];
+      const transport = this.bySource.get(s.source);
+      if (!transport || !this.attached.has(transport)) continue;
+      // the device clock isn't replayed: hostTime is all the views need
+      const { source: _source, deviceTime: _deviceTime, ...copy } = s;
+      let list = out.get(transport);
+      if (!list) out.set(transport, (list = []));
+      list.push({ ...copy, hostTime: now - (end - s.hostTime) / this.speed });
+    }
+    for (const [transport, list] of out) transport.deliver(list);
+  }
+
+  private notify() {
+    this.lastNotify = Date.now();
+    const state = this.state;
+    for (const l of this.listeners) l(state);
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_DECODE_OPTIONS } from "@/lib/frameDecoder";
+import type { IMUSample } from "@/lib/imuParser";
+import { SerialTransport, matchesFilter, parsePortFilter, type SerialPortLike } from "./serial";
+import type { TransportEvent } from "./types";
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+const csvRecord = (imuId: number, ax = 1) => `${imuId},${ax},2,3,0.1,0.2,0.3,10,20,30,0,0,0,1`;
+
+// A port whose device sends `chunks` and then whatever is fed to it, and answers every
+// command with "#<id> OK"
+class FakePort implements SerialPortLike {
+  readable: ReadableStream<Uint8Array> | null = null;
+  writable: WritableStream<Uint8Array> | null;
+  written: string[] = [];
+  opened: { baudRate: number } | null = null;
+  closed = false;
+  private device: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+  constructor(
+    private chunks: Uint8Array[],
+    private info = { usbVendorId: 0x0403, usbProductId: 0x6001 }
+  ) {
+    this.writable = new WritableStream({
+      write: (chunk) => {
+        const line = new TextDecoder().decode(chunk);
+        this.written.push(line);
+        const id = line.match(/^#(\d+) /)?.[1];
+        if (id) this.feed(`#${id} OK\n`);
+      },
+    });
+  }
+
+  async open(options: { baudRate: number }) {
+    this.opened = options;
+    this.readable = new ReadableStream({
+      start: (controller) => {
+        this.device = controller;
+        for (const chunk of this.chunks) controller.enqueue(chunk);
+      },
+    });
+  }
+
+  feed(text: string) {
+    this.device?.enqueue(bytes(text));
+  }
+
+  async close() {
+    this.closed = true;
+  }
+
+  getInfo() {
+    return this.info;
+  }
+}
+
+function record(transport: SerialTransport) {
+  const events: TransportEvent[] = [];
+  transport.subscribe((ev) => events.push(ev));
+  const samples = () => events.flatMap((ev) => (ev.type === "samples" ? ev.samples : [] as IMUSample[]));
+  return { events, samples };
+}
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("SerialTransport", () => {
+  it("opens the port at the configured rate and decodes frames split across reads", async () => {
+    const frame = `${csvRecord(0)},${csvRecord(1, 4)}\n`;
+    const port = new FakePort([bytes(frame.slice(0, 20)), bytes(frame.slice(20)), bytes(`${csvRecord(0, 5)}\n`)]);
+    const transport = new SerialTransport(port, { baudRate: 115200, devicePort: "0403:6001" });
+    const { events, samples } = record(transport);
+
+    expect(await transport.connect()).toBe(true);
+    await settle();
+
+    expect(port.opened).toEqual({ baudRate: 115200 });
+    expect(transport.name).toBe("USB 0403:6001");
+    expect(samples().map((s) => [s.imuId, s.accel.x])).toEqual([
+      [0, 1],
+      [1, 4],
+      [0, 5],
+    ]);
+    expect(samples().every((s) => s.source === transport.id && s.hostTime !== undefined)).toBe(true);
+    const stats = events.filter((ev) => ev.type === "stats").pop();
+    expect(stats).toMatchObject({ stats: { accepted: 2, rejected: 0 } });
+
+    await transport.disconnect();
+    expect(port.closed).toBe(true);
+    expect(transport.status).toBe("disconnected");
+  });
+
+  it("uses the profile's decode options", async () => {
+    const port = new FakePort([bytes(`41,${csvRecord(0)}\n43,${csvRecord(0)}\n`)]);
+    const transport = new SerialTransport(port, {
+      baudRate: 9600,
+      devicePort: "",
+      decode: { ...DEFAULT_DECODE_OPTIONS, sequence: true },
+    });
+    const { events, samples } = record(transport);
+
+    await transport.connect();
+    await settle();
+
+    expect(samples().map((s) => s.seq)).toEqual([41, 43]);
+    const loss = events.filter((ev) => ev.type === "loss").pop();
+    expect(loss).toMatchObject({ loss: { 0: { received: 2, lost: 1 } } });
+    await transport.disconnect();
+  });
+
+  it("writes commands to the port and resolves them with the device's '#' replies", async () => {
+    const port = new FakePort([bytes(`${csvRecord(0)}\n`)]);
+    const transport = new SerialTransport(port, { baudRate: 9600, devicePort: "" });
+    const { samples } = record(transport);
+    await transport.connect();
+
+    const response = await transport.commands.send({ type: "setRate", hz: 100 });
+
+    expect(port.written).toEqual(["#1 ODR 100\n"]);
+    expect(response).toEqual({ id: 1, ok: true, payload: "" });
+    // the reply is not mistaken for a data frame
+    expect(samples()).toHaveLength(1);
+    await transport.disconnect();
+  });
+
+  it("reports a port that can't be read", async () => {
+    const port = new FakePort([]);
+    port.open = async () => {};
+    const transport = new SerialTransport(port, { baudRate: 9600, devicePort: "" });
+    expect(await transport.connect()).toBe(false);
+    expect(transport.status).toBe("error");
+    expect(port.closed).toBe(true);
+  });
+});
+
+describe("port filters", () => {
+  it("parses VID:PID in either notation", () => {
+    expect(parsePortFilter("0403:6001")).toEqual({ usbVendorId: 0x0403, usbProductId: 0x6001 });
+    expect(parsePortFilter(" 0x10C4:0xEA60 ")).toEqual({ usbVendorId: 0x10c4, usbProductId: 0xea60 });
+  });
+
+  it("treats anything else as a label", () => {
+    expect(parsePortFilter("/dev/ttyUSB0")).toBeNull();
+    expect(parsePortFilter("")).toBeNull();
+  });
+
+  it("matches a port's USB ids", () => {
+    const filter = { usbVendorId: 0x0403, usbProductId: 0x6001 };
+    expect(matchesFilter({ usbVendorId: 0x0403, usbProductId: 0x6001 }, filter)).toBe(true);
+    expect(matchesFilter({ usbVendorId: 0x0403 }, filter)).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import { CommandChannel } from "@/lib/commands";
+import { DEFAULT_DECODE_OPTIONS, type DecodeOptions } from "@/lib/frameDecoder";
+import { ByteStreamTransport, errorMessage } from "./base";
+
+/* ---- Minimal Web Serial shims ---- */
+export type SerialPortInfo = {
+  usbVendorId?: number;
+  usbProductId?: number;
+};
+
+export type SerialPortFilter = {
+  usbVendorId?: number;
+  usbProductId?: number;
+};
+
+// Anything that quacks like a Web Serial port; lets a fake port be passed to the transport
+export interface SerialPortLike {
+  readable: ReadableStream<Uint8Array> | null;
+  writable?: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+  getInfo?(): SerialPortInfo;
+}
+
+interface WebSerial {
+  getPorts(): Promise<SerialPortLike[]>;
+  requestPort(options?: { filters?: SerialPortFilter[] }): Promise<SerialPortLike>;
+}
+/* ---------------------------------- */
+
+const webSerial = () =>
+  typeof navigator !== "undefined" ? (navigator as Navigator & { serial?: WebSerial }).serial : undefined;
+
+export const supportsWebSerial = () => !!webSerial();
+
+const hex4 = (n: number) => n.toString(16).padStart(4, "0");
+
+// "0403:6001" or "0x0403:0x6001" selects a USB-UART by vendor/product id.
+// Anything else (e.g. "/dev/ttyUSB0") is only used as a label, since browsers can't open ports by path.
+export function parsePortFilter(devicePort: string): SerialPortFilter | null {
+  const m = devicePort.trim().match(/^(?:0x)?([0-9a-f]{1,4}):(?:0x)?([0-9a-f]{1,4})$/i);
+  if (!m) return null;
+  return { usbVendorId: parseInt(m[1], 16), usbProductId: parseInt(m[2], 16) };
+}
+
+export const matchesFilter = (info: SerialPortInfo, filter: SerialPortFilter) =>
+  info.usbVendorId === filter.usbVendorId && info.usbProductId === filter.usbProductId;
+
+// Resolves to null when the user dismisses the browser's port picker
+export async function requestSerialPort(devicePort: string): Promise<SerialPortLike | null> {
+  const serial = webSerial();
+  if (!serial) throw new Error("Browser doesn't support Web Serial.");
+  const filter = parsePortFilter(devicePort);
+  try {
+    // Reuse a port the user already granted if it matches the configured VID:PID
+    if (filter) {
+      const granted = await serial.getPorts();
+      const known = granted.find((p) => matchesFilter(p.getInfo?.() ?? {}, filter));
+      if (known) return known;
+    }
+    return (await serial.requestPort({ filters: filter ? [filter] : [] })) ?? null;
+  } catch (e) {
+    if (e instanceof Error && e.name === "NotFoundError") return null;
+    throw e;
+  }
+}
+
+const portLabel = (port: SerialPortLike, devicePort: string) => {
+  const info = port.getInfo?.() ?? {};
+  if (info.usbVendorId !== undefined && info.usbProductId !== undefined) {
+    return `USB ${hex4(info.usbVendorId)}:${hex4(info.usbProductId)}`;
+  }
+  return devicePort || "Serial port";
+};
+
+type SerialTransportOptions = {
+  baudRate: number;
+  devicePort: string;
+  decode?: DecodeOptions;
+};
+
+export class SerialTransport extends ByteStreamTransport {
+  readonly kind = "serial";
+  readonly name: string;
+
+  private reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  private readLoop: Promise<void> | null = null;
+
+  constructor(
+    readonly port: SerialPortLike,
+    private options: SerialTransportOptions
+  ) {
+    super(options.decode ?? DEFAULT_DECODE_OPTIONS);
+    this.name = portLabel(port, options.devicePort);
+  }
+
+  async connect() {
+    this.setStatus("connecting", `Opening port at ${this.options.baudRate} baud…`);
+    try {
+      await this.port.open({ baudRate: this.options.baudRate });
+      if (!this.port.readable) {
+        await this.port.close();
+        this.setStatus("error", "Port is not readable");
+        return false;
+      }
+      this.reader = this.port.readable.getReader();
+      this.readLoop = this.read(this.reader);
+      const writable = this.port.writable;
+      if (writable) {
+        this.commands = new CommandChannel(async (bytes) => {
+          const writer = writable.getWriter();
+          try {
+            await writer.write(bytes);
+          } finally {
+            writer.releaseLock();
+          }
+        });
+      }
+      this.setStatus("connected", "Receiving serial data…");
+      return true;
+    } catch (e) {
+      this.setStatus("error", errorMessage(e, "Connection error"));
+      return false;
+    }
+  }
+
+  private async read(reader: ReadableStreamDefaultReader<Uint8Array>) {
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (value) this.ingest(value);
+      }
+    } catch (e) {
+      this.setStatus("error", errorMessage(e, "Serial read error"));
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  async disconnect() {
+    this.commands?.close();
+    try {
+      await this.reader?.cancel();
+    } catch {
+      // reader already released
+    }
+    this.reader = null;
+    try {
+      await this.readLoop;
+    } catch {
+      // errors are reported by the read loop itself
+    }
+    this.readLoop = null;
+    this.releaseDecoder();
+    try {
+      await this.port.close();
+    } catch {
+      // port already closed
+    }
+    this.setStatus("disconnected", "Disconnected");
+  }
+}
@@ -0,0 +1,91 @@
+import type { IMUSample } from "@/lib/imuParser";
+import { BaseTransport } from "./base";
+
+type Vec3 = { x: number; y: number; z: number };
+type Quat = { x: number; y: number; z: number; w: number };
+
+type SimulatorOptions = {
+  rateHz: number;
+  imuCount: number;
+};
+
+const generateSmoothValue = (prev: number, range: number, smoothness: number = 0.1) => {
+  const target = prev + (Math.random() - 0.5) * range;
+  return prev + (target - prev) * smoothness;
+};
+
+// q ⊗ (0, ω·dt/2), then renormalise
+const integrateGyro = (q: Quat, w: Vec3, dt: number): Quat => {
+  const hx = (w.x * dt) / 2;
+  const hy = (w.y * dt) / 2;
+  const hz = (w.z * dt) / 2;
+  const next = {
+    w: q.w - q.x * hx - q.y * hy - q.z * hz,
+    x: q.x + q.w * hx + q.y * hz - q.z * hy,
+    y: q.y + q.w * hy - q.x * hz + q.z * hx,
+    z: q.z + q.w * hz + q.x * hy - q.y * hx,
+  };
+  const n = Math.hypot(next.w, next.x, next.y, next.z) || 1;
+  return { x: next.x / n, y: next.y / n, z: next.z / n, w: next.w / n };
+};
+
+type SimState = { accel: Vec3; gyro: Vec3; mag: Vec3; quat: Quat };
+
+const initialState = (): SimState => ({
+  accel: { x: 0, y: 0, z: 9.8 },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 25, y: 0, z: 40 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+// Random-walk generator standing in for real hardware (demos, UI work without a device)
+export class SimulatorTransport extends BaseTransport {
+  readonly kind = "simulator";
+  readonly name = "Simulator";
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private states: SimState[] = [];
+
+  constructor(private options: SimulatorOptions) {
+    super();
+  }
+
+  async connect() {
+    const { rateHz, imuCount } = this.options;
+    this.states = Array.from({ length: imuCount }, initialState);
+    const dt = 1 / rateHz;
+
+    this.timer = setInterval(() => {
+      const samples: IMUSample[] = this.states.map((s, imuId) => {
+        // Accelerometer includes gravity
+        s.accel = {
+          x: generateSmoothValue(s.accel.x, 0.5),
+          y: generateSmoothValue(s.accel.y, 0.5),
+          z: generateSmoothValue(s.accel.z - 9.8, 0.3) + 9.8,
+        };
+        s.gyro = {
+          x: generateSmoothValue(s.gyro.x, 0.2),
+          y: generateSmoothValue(s.gyro.y, 0.2),
+          z: generateSmoothValue(s.gyro.z, 0.2),
+        };
+        s.mag = {
+          x: generateSmoothValue(s.mag.x, 2),
+          y: generateSmoothValue(s.mag.y, 2),
+          z: generateSmoothValue(s.mag.z, 2),
+        };
+        s.quat = integrateGyro(s.quat, s.gyro, dt);
+        return { imuId, accel: { ...s.accel }, gyro: { ...s.gyro }, mag: { ...s.mag }, quat: { ...s.quat } };
+      });
+      this.emitSynthetic(samples);
+    }, 1000 / rateHz);
+
+    this.setStatus("connected", `Simulating ${imuCount} IMU(s) at ${rateHz} Hz`);
+    return true;
+  }
+
+  async disconnect() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.setStatus("disconnected", "Simulator stopped");
+  }
+}
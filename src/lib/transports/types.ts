@@ -0,0 +1,51 @@
+import type { IMUSample } from "@/lib/imuParser";
+import type { FrameAssemblerStats } from "@/lib/frameAssembler";
+import type { LossStats } from "@/lib/sequenceTracker";
+import type { ClockEstimate } from "@/lib/clockSync";
+import type { CommandChannel } from "@/lib/commands";
+
+export type TransportKind = "ble" | "serial" | "websocket" | "simulator" | "replay";
+
+// "lost": an established link dropped and reconnecting gave up
+export type TransportStatus = "idle" | "connecting" | "connected" | "reconnecting" | "lost" | "disconnected" | "error";
+
+export type TransportEvent =
+  | { type: "status"; status: TransportStatus; message?: string }
+  | { type: "samples"; samples: IMUSample[] }
+  // raw bytes as they came off the link, for the packet inspector. Decoded links report
+  // in batches: `bytes` is the newest packet and `count` how many arrived since the last event
+  | { type: "packet"; bytes: Uint8Array; count?: number }
+  | { type: "stats"; stats: FrameStats }
+  // per-imuId packet loss, only for sources that send sequence counters
+  | { type: "loss"; loss: Record<number, LossStats> }
+  // device → host clock alignment, only for sources that timestamp their frames
+  | { type: "clock"; clock: ClockEstimate | null };
+
+export type FrameStats = FrameAssemblerStats & {
+  accepted: number;
+  rejected: number;
+  // breakdown of rejected
+  checksumErrors: number;
+  invalidFields: number;
+  // decoded samples the decode worker discarded because the UI fell behind
+  dropped: number;
+  // bytes that were still with the decode worker when it failed
+  lostBytes: number;
+};
+
+export type TransportListener = (event: TransportEvent) => void;
+
+// Every data source (BLE, serial, WebSocket, simulator, file replay, ...) implements this,
+// so the views only ever see IMUSamples and lifecycle events.
+export interface IMUTransport {
+  // unique among live links; samples carry it as `source`
+  readonly id: string;
+  readonly kind: TransportKind;
+  readonly name: string;
+  readonly status: TransportStatus;
+  // present when the source accepts commands (start/stop, rate, ...)
+  readonly commands: CommandChannel | null;
+  connect(): Promise<boolean>;
+  disconnect(): Promise<void>;
+  subscribe(listener: TransportListener): () => void;
+}
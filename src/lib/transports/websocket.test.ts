@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import { WebSocketTransport } from "./websocket";
+import type { TransportEvent } from "./types";
+
+// The bridge end of a socket; opens on the next tick
+class FakeSocket {
+  static opened: FakeSocket[] = [];
+  binaryType = "blob";
+  onopen: (() => void) | null = null;
+  onmessage: ((ev: { data: string | ArrayBuffer }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.opened.push(this);
+    setTimeout(() => this.onopen?.(), 0);
+  }
+
+  send(data: string | ArrayBuffer) {
+    this.onmessage?.({ data });
+  }
+
+  close() {
+    this.onclose?.();
+  }
+}
+
+const json = (seq: number) =>
+  JSON.stringify({
+    imuId: 0,
+    seq,
+    accel: { x: 1, y: 2, z: 3 },
+    gyro: { x: 0, y: 0, z: 0 },
+    mag: { x: 0, y: 0, z: 0 },
+    quat: { x: 0, y: 0, z: 0, w: 1 },
+  });
+
+const csv = (imuId: number) => `${imuId},1,2,3,0,0,0,0,0,0,0,0,0,1`;
+
+function setup(format: "auto" | "json" | "csv" = "auto") {
+  const transport = new WebSocketTransport({ url: "ws://localhost:8765", format, reconnectBaseDelayMs: 100 });
+  const events: TransportEvent[] = [];
+  transport.subscribe((ev) => events.push(ev));
+  const samples = () => events.flatMap((ev) => (ev.type === "samples" ? ev.samples : ([] as IMUSample[])));
+  const socket = () => FakeSocket.opened[FakeSocket.opened.length - 1];
+  return { transport, events, samples, socket };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  FakeSocket.opened = [];
+  vi.stubGlobal("WebSocket", FakeSocket);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("WebSocketTransport", () => {
+  it("parses JSON messages and decodes CSV ones", async () => {
+    const { transport, samples, socket } = setup();
+    const connected = transport.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(await connected).toBe(true);
+
+    socket().send(json(1));
+    socket().send(csv(1));
+    expect(samples().map((s) => [s.imuId, s.accel.x, s.source])).toEqual([
+      [0, 1, transport.id],
+      [1, 1, transport.id],
+    ]);
+    await transport.disconnect();
+  });
+
+  it("breaks JSON streams' lines after a reconnect", async () => {
+    const { transport, samples, events, socket } = setup("json");
+    transport.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    socket().send(json(1));
+    socket().close();
+    expect(transport.status).toBe("reconnecting");
+    // the retry after 100 ms, then the socket opening
+    await vi.advanceTimersByTimeAsync(110);
+    expect(transport.status).toBe("connected");
+
+    socket().send(json(2));
+    expect(samples().map((s) => s.gap)).toEqual([undefined, 1]);
+    const loss = events.filter((ev) => ev.type === "loss").pop();
+    expect(loss).toMatchObject({ loss: { 0: { received: 2, lost: 0 } } });
+    await transport.disconnect();
+  });
+});
@@ -0,0 +1,131 @@
+import { parseIMUJson } from "@/lib/imuParser";
+import { DEFAULT_DECODE_OPTIONS, type DecodeOptions } from "@/lib/frameDecoder";
+import { ByteStreamTransport } from "./base";
+
+export type WebSocketFrameFormat = "csv" | "json" | "binary" | "auto";
+
+type WebSocketTransportOptions = {
+  url: string;
+  // "csv"/"binary" override the profile's frame format; "auto" keeps it and picks out JSON messages
+  format: WebSocketFrameFormat;
+  decode?: DecodeOptions;
+  // give up after this many consecutive failed reconnects (0 disables reconnecting)
+  maxReconnectAttempts?: number;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+};
+
+const looksLikeJson = (text: string) => /^\s*[[{]/.test(text);
+
+// Streams samples from a local bridge process, e.g. ws://localhost:8765. CSV and binary messages
+// go through the same decoder as BLE and serial, under the selected profile; JSON is parsed whole.
+export class WebSocketTransport extends ByteStreamTransport {
+  readonly kind = "websocket";
+  readonly name: string;
+
+  private socket: WebSocket | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempts = 0;
+  private closing = false;
+
+  constructor(private options: WebSocketTransportOptions) {
+    const decode = options.decode ?? DEFAULT_DECODE_OPTIONS;
+    super(options.format === "csv" || options.format === "binary" ? { ...decode, format: options.format } : decode);
+    this.name = options.url;
+  }
+
+  connect() {
+    this.closing = false;
+    this.attempts = 0;
+    this.setStatus("connecting", `Connecting to ${this.options.url}…`);
+    return this.open();
+  }
+
+  private open(): Promise<boolean> {
+    return new Promise((resolve) => {
+      let opened = false;
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(this.options.url);
+      } catch (e) {
+        this.setStatus("error", e instanceof Error ? e.message : "Invalid WebSocket URL");
+        resolve(false);
+        return;
+      }
+      socket.binaryType = "arraybuffer";
+      this.socket = socket;
+
+      socket.onopen = () => {
+        opened = true;
+        if (this.attempts > 0) this.markOutage();
+        this.attempts = 0;
+        this.setStatus("connected", `Receiving from ${this.options.url}…`);
+        resolve(true);
+      };
+
+      socket.onmessage = (ev: MessageEvent<string | ArrayBuffer>) => this.receive(ev.data);
+
+      socket.onclose = () => {
+        if (this.socket === socket) this.socket = null;
+        if (this.closing) return;
+        // A socket that never opened on the first try is a connect failure, not a drop
+        if (!opened && this.status === "connecting") {
+          this.setStatus("error", `Could not connect to ${this.options.url}`);
+          resolve(false);
+          return;
+        }
+        this.resetAssembler();
+        this.scheduleReconnect();
+        resolve(opened);
+      };
+    });
+  }
+
+  private receive(data: string | ArrayBuffer) {
+    const { format } = this.options;
+    const text = typeof data === "string" ? data : null;
+    if (format === "json" || (format === "auto" && text !== null && looksLikeJson(text))) {
+      const json = text ?? new TextDecoder().decode(data as ArrayBuffer);
+      this.emitPacket(new TextEncoder().encode(json));
+      this.emitSamples(this.screenFrame(parseIMUJson(json.trim()), this.decode.limits));
+      this.emitStats();
+      return;
+    }
+    if (text === null) {
+      this.ingest(new Uint8Array(data as ArrayBuffer));
+      return;
+    }
+    // each text message is a whole frame (or several); close the last one if the bridge didn't
+    const { delimiter } = this.decode;
+    this.ingest(new TextEncoder().encode(text.endsWith(delimiter) ? text : text + delimiter));
+  }
+
+  private scheduleReconnect() {
+    const { maxReconnectAttempts = 10, reconnectBaseDelayMs = 500, reconnectMaxDelayMs = 10_000 } = this.options;
+    if (this.attempts >= maxReconnectAttempts) {
+      this.releaseDecoder();
+      this.setStatus("lost", `Connection lost; gave up after ${this.attempts} reconnect attempt(s)`);
+      return;
+    }
+    this.attempts += 1;
+    const delay = Math.min(reconnectBaseDelayMs * 2 ** (this.attempts - 1), reconnectMaxDelayMs);
+    this.setStatus(
+      "reconnecting",
+      `Connection lost; reconnecting in ${(delay / 1000).toFixed(1)} s (attempt ${this.attempts}/${maxReconnectAttempts})`
+    );
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.closing) this.open();
+    }, delay);
+  }
+
+  async disconnect() {
+    this.closing = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+    this.releaseDecoder();
+    this.setStatus("disconnected", "Disconnected");
+  }
+}
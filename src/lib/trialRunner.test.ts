@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TrialRunner, type TrialPlan, type TrialState } from "./trialRunner";
+
+function setup(plan: Partial<TrialPlan>, stop: () => Promise<void> = async () => {}) {
+  const log: string[] = [];
+  const runner = new TrialRunner(
+    { countdownMs: 0, durationMs: 0, trials: 1, restMs: 0, ...plan },
+    {
+      start: async (trial, trials) => void log.push(`start ${trial}/${trials}`),
+      stop: async (trial, trials) => {
+        log.push(`stop ${trial}/${trials}`);
+        await stop();
+      },
+    }
+  );
+  const states: (TrialState | null)[] = [];
+  runner.onState = (s) => states.push(s);
+  runner.onCue = (cue) => log.push(cue);
+  const errors: unknown[] = [];
+  runner.onError = (e) => errors.push(e);
+  const phases = () => states.map((s) => (s ? `${s.phase} ${s.trial}` : "done"));
+  return { runner, log, phases, errors };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TrialRunner", () => {
+  it("counts down, records for the duration and rests between trials", async () => {
+    const { runner, log, phases } = setup({ countdownMs: 3000, durationMs: 2000, trials: 2, restMs: 1000 });
+    runner.begin();
+    await vi.advanceTimersByTimeAsync(3000 + 2000 + 1000 + 3000 + 2000);
+    expect(log).toEqual([
+      "tick", "tick", "tick", "start 1/2", "go", "stop", "stop 1/2",
+      "tick", "tick", "tick", "start 2/2", "go", "stop", "stop 2/2",
+    ]);
+    expect(phases()).toEqual(["countdown 1", "recording 1", "rest 1", "countdown 2", "recording 2", "done"]);
+  });
+
+  it("records until cancelled without a duration, keeping the trial", async () => {
+    const { runner, log, phases } = setup({});
+    runner.begin();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(runner.state).toMatchObject({ phase: "recording", endsAt: null });
+    await runner.cancel();
+    expect(log).toEqual(["start 1/1", "go", "stop 1/1"]);
+    expect(phases()).toEqual(["recording 1", "done"]);
+  });
+
+  it("cancels a countdown without starting anything", async () => {
+    const { runner, log } = setup({ countdownMs: 3000, durationMs: 1000 });
+    runner.begin();
+    await vi.advanceTimersByTimeAsync(1500);
+    await runner.cancel();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(log.filter((l) => l.startsWith("start"))).toEqual([]);
+  });
+
+  it("ends the sequence when a trial can't be stopped", async () => {
+    const { runner, errors, phases } = setup({ durationMs: 1000, trials: 3 }, async () => {
+      throw new Error("IndexedDB write failed");
+    });
+    runner.begin();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(errors).toMatchObject([{ message: "IndexedDB write failed" }]);
+    expect(phases()).toEqual(["recording 1", "done"]);
+  });
+
+  it("passes a failing stop on to whoever cancels", async () => {
+    const { runner } = setup({}, async () => {
+      throw new Error("IndexedDB write failed");
+    });
+    runner.begin();
+    await vi.advanceTimersByTimeAsync(0);
+    await expect(runner.cancel()).rejects.toThrow("IndexedDB write failed");
+  });
+});
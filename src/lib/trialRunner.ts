@@ -0,0 +1,164 @@
+// A recording protocol: optional countdown, a fixed-length (or open) capture, repeated with rest
+export type TrialPlan = {
+  countdownMs: number;
+  // 0: record until stopped (a single trial)
+  durationMs: number;
+  trials: number;
+  restMs: number;
+};
+
+export type TrialPhase = "countdown" | "recording" | "rest";
+
+export type TrialState = {
+  phase: TrialPhase;
+  // from 1
+  trial: number;
+  trials: number;
+  // epoch ms the phase ends; null while recording without a duration
+  endsAt: number | null;
+};
+
+// tick: each second of a countdown. go: capture started. stop: capture ended.
+export type TrialCue = "tick" | "go" | "stop";
+
+// `trial` counts from 1 up to `trials`
+export type TrialActions = {
+  start: (trial: number, trials: number) => Promise<void>;
+  stop: (trial: number, trials: number) => Promise<void>;
+};
+
+// Runs a TrialPlan on timers, calling `start`/`stop` around each trial. Errors from either end
+// the sequence.
+export class TrialRunner {
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private current: TrialState | null = null;
+  private cancelled = false;
+  onState: ((state: TrialState | null) => void) | null = null;
+  onCue: ((cue: TrialCue) => void) | null = null;
+  onError: ((e: unknown) => void) | null = null;
+
+  constructor(
+    readonly plan: TrialPlan,
+    private actions: TrialActions
+  ) {}
+
+  get state(): TrialState | null {
+    return this.current;
+  }
+
+  begin() {
+    this.countdown(1);
+  }
+
+  // Ends the sequence; a trial being recorded is stopped and kept
+  async cancel() {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    const recording = this.current?.phase === "recording" ? this.current.trial : null;
+    this.end();
+    if (recording !== null) await this.actions.stop(recording, this.plan.trials);
+  }
+
+  private enter(phase: TrialPhase, trial: number, ms: number | null) {
+    this.current = { phase, trial, trials: this.plan.trials, endsAt: ms === null ? null : Date.now() + ms };
+    this.onState?.(this.current);
+  }
+
+  private later(ms: number, fn: () => void) {
+    this.timers.push(setTimeout(fn, Math.max(ms, 0)));
+  }
+
+  private end() {
+    for (const t of this.timers) clearTimeout(t);
+    this.timers = [];
+    this.current = null;
+    this.onState?.(null);
+  }
+
+  private fail(e: unknown) {
+    this.cancelled = true;
+    this.end();
+    this.onError?.(e);
+  }
+
+  private countdown(trial: number) {
+    const { countdownMs } = this.plan;
+    if (countdownMs <= 0) {
+      this.record(trial);
+      return;
+    }
+    this.enter("countdown", trial, countdownMs);
+    // one tick per whole second left: 3, 2, 1
+    for (let s = Math.ceil(countdownMs / 1000); s >= 1; s--) this.later(countdownMs - s * 1000, () => this.onCue?.("tick"));
+    this.later(countdownMs, () => this.record(trial));
+  }
+
+  private async record(trial: number) {
+    try {
+      await this.actions.start(trial, this.plan.trials);
+    } catch (e) {
+      this.fail(e);
+      return;
+    }
+    // cancelled while the session was being opened
+    if (this.cancelled) {
+      try {
+        await this.actions.stop(trial, this.plan.trials);
+      } catch (e) {
+        this.fail(e);
+      }
+      return;
+    }
+    const { durationMs } = this.plan;
+    this.onCue?.("go");
+    this.enter("recording", trial, durationMs > 0 ? durationMs : null);
+    if (durationMs > 0) this.later(durationMs, () => this.finishTrial(trial));
+  }
+
+  private async finishTrial(trial: number) {
+    this.onCue?.("stop");
+    try {
+      await this.actions.stop(trial, this.plan.trials);
+    } catch (e) {
+      this.fail(e);
+      return;
+    }
+    if (this.cancelled) return;
+    if (trial >= this.plan.trials) {
+      this.cancelled = true;
+      this.end();
+    } else if (this.plan.restMs > 0) {
+      this.enter("rest", trial, this.plan.restMs);
+      this.later(this.plan.restMs, () => this.countdown(trial + 1));
+    } else {
+      this.countdown(trial + 1);
+    }
+  }
+}
+
+let audio: AudioContext | null = null;
+
+const tone = (frequency: number, ms: number, delayMs = 0) => {
+  if (typeof AudioContext === "undefined") return;
+  audio ??= new AudioContext();
+  if (audio.state === "suspended") audio.resume();
+  const at = audio.currentTime + delayMs / 1000;
+  const osc = audio.createOscillator();
+  const gain = audio.createGain();
+  osc.frequency.value = frequency;
+  gain.gain.setValueAtTime(0.2, at);
+  gain.gain.exponentialRampToValueAtTime(0.001, at + ms / 1000);
+  osc.connect(gain).connect(audio.destination);
+  osc.start(at);
+  osc.stop(at + ms / 1000);
+};
+
+// Short beeps for the countdown, a long high one at the start, two falling ones at the stop
+export function playCue(cue: TrialCue) {
+  if (cue === "tick") tone(660, 120);
+  else if (cue === "go") tone(1320, 400);
+  else {
+    tone(880, 150);
+    tone(660, 250, 200);
+  }
+}
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { IMUSample } from "@/lib/imuParser";
+import type { SessionChunk, SessionMeta } from "@/lib/sessionDb";
+import { unpackSamples } from "@/lib/samplePacking";
+import { TriggerRecorder, type TriggerConfig } from "./triggerRecorder";
+
+const db = vi.hoisted(() => ({ sessions: new Map<string, SessionMeta>(), chunks: [] as SessionChunk[] }));
+
+vi.mock("@/lib/sessionDb", () => ({
+  putSession: async (meta: SessionMeta) => void db.sessions.set(meta.id, meta),
+  appendChunk: async (meta: SessionMeta, chunk: SessionChunk) => {
+    db.sessions.set(meta.id, meta);
+    db.chunks.push(chunk);
+  },
+  listSessions: async () => [...db.sessions.values()],
+}));
+
+const START = Date.UTC(2024, 0, 1);
+
+// accel magnitude `g` (in g) at 100 Hz
+const sample = (i: number, g: number, imuId = 0): IMUSample => ({
+  imuId,
+  source: "pod",
+  hostTime: START + i * 10,
+  accel: { x: 0, y: 0, z: g },
+  gyro: { x: 0, y: 0, z: 0 },
+  mag: { x: 0, y: 0, z: 0 },
+  quat: { x: 0, y: 0, z: 0, w: 1 },
+});
+
+const CONFIG: TriggerConfig = { channel: "accel", threshold: 2, preMs: 50, postMs: 100 };
+
+function setup(unit = "g") {
+  const trigger = new TriggerRecorder(CONFIG, () => ({ devices: [], settings: {} }), () => unit);
+  const saved: SessionMeta[] = [];
+  const fired: number[] = [];
+  trigger.onSaved = (meta) => saved.push(meta);
+  trigger.onFire = (event) => fired.push(event.time);
+  return { trigger, saved, fired };
+}
+
+// ms since START of every sample stored for a session
+const storedTimes = (meta: SessionMeta) =>
+  db.chunks
+    .filter((c) => c.sessionId === meta.id)
+    .flatMap((c) => c.parts.flatMap((p) => unpackSamples(p.samples, p.source)))
+    .map((s) => s.hostTime - START);
+
+beforeEach(() => {
+  db.sessions.clear();
+  db.chunks = [];
+  vi.stubGlobal("navigator", {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("TriggerRecorder", () => {
+  it("saves the pre- and post-trigger window around a crossing, with a marker", async () => {
+    const { trigger, saved, fired } = setup();
+    trigger.append(Array.from({ length: 20 }, (_, i) => sample(i, i === 10 ? 3 : 1)));
+    expect(fired).toEqual([START + 100]);
+    expect(trigger.state).toBe("capturing");
+    trigger.append(Array.from({ length: 5 }, (_, i) => sample(20 + i, 1)));
+    expect(trigger.state).toBe("armed");
+    await trigger.finish();
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ status: "complete", startedAt: START + 50 });
+    expect(storedTimes(saved[0])).toEqual(Array.from({ length: 16 }, (_, i) => 50 + i * 10));
+    expect(saved[0].markers).toMatchObject([{ label: "Trigger 3.00 g", time: START + 100 }]);
+  });
+
+  it("fires again only once a stream has dropped back below the threshold", async () => {
+    const { trigger, fired } = setup();
+    // high from 0 to 30, low, then high again at 40
+    trigger.append(Array.from({ length: 60 }, (_, i) => sample(i, i <= 30 || i === 40 ? 3 : 1)));
+    await trigger.finish();
+    expect(fired.map((t) => (t - START) / 10)).toEqual([0, 40]);
+  });
+
+  it("converts the device's units into the trigger's", async () => {
+    const { trigger, fired } = setup("m/s²");
+    trigger.append([sample(0, 9.8), sample(1, 25)]);
+    await trigger.finish();
+    expect(fired).toEqual([START + 10]);
+  });
+
+  it("saves a capture still in progress when finished", async () => {
+    const { trigger, saved } = setup();
+    trigger.append([sample(0, 1), sample(1, 5), sample(2, 1)]);
+    await trigger.finish();
+    expect(saved.map(storedTimes)).toEqual([[0, 10, 20]]);
+  });
+});
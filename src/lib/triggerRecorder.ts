@@ -0,0 +1,139 @@
+import { streamKey, type IMUSample } from "@/lib/imuParser";
+import { createMarker } from "@/lib/markers";
+import { SessionRecorder, type RecordingInit } from "@/lib/sessionRecorder";
+import type { SessionMeta } from "@/lib/sessionDb";
+
+// Vector magnitudes a trigger can watch, in a fixed unit whatever the device reports
+export const TRIGGER_CHANNELS = {
+  accel: { label: "Accel magnitude", unit: "g" },
+  gyro: { label: "Gyro magnitude", unit: "°/s" },
+} as const;
+
+export type TriggerChannel = keyof typeof TRIGGER_CHANNELS;
+
+export type TriggerConfig = {
+  channel: TriggerChannel;
+  // in TRIGGER_CHANNELS[channel].unit
+  threshold: number;
+  // kept from before the trigger
+  preMs: number;
+  // captured after it
+  postMs: number;
+};
+
+// "armed": waiting for the condition. "capturing": collecting the post-trigger window.
+export type TriggerState = "idle" | "armed" | "capturing";
+
+export type TriggerEvent = {
+  // host time of the sample that crossed the threshold
+  time: number;
+  source: string;
+  imuId: number;
+  value: number;
+};
+
+// device unit → trigger unit; units not listed are taken as already in the trigger unit
+const FACTORS: Record<TriggerChannel, Record<string, number>> = {
+  accel: { g: 1, mg: 0.001, "m/s²": 1 / 9.80665, "m/s^2": 1 / 9.80665, "m/s2": 1 / 9.80665 },
+  gyro: { "°/s": 1, "deg/s": 1, dps: 1, "rad/s": 180 / Math.PI },
+};
+
+// Samples handed to the session recorder at a time (it spreads them into its buffer)
+const APPEND_BATCH = 4096;
+
+// Keeps the last `preMs` of every stream in memory and watches each sample. When one crosses
+// the threshold, that history plus the next `postMs` is saved as a session with a "Trigger"
+// marker at the crossing, and the trigger re-arms. A crossing during the post-trigger window
+// belongs to the same capture, and a stream only fires again once it has dropped back below
+// the threshold, so a value that stays high isn't captured over and over.
+export class TriggerRecorder {
+  private ring: IMUSample[] = [];
+  private head = 0;
+  private capture: { event: TriggerEvent; samples: IMUSample[] } | null = null;
+  // streams whose latest sample is above the threshold
+  private above = new Set<string>();
+  private saving: Promise<void> = Promise.resolve();
+  onFire: ((event: TriggerEvent) => void) | null = null;
+  onSaved: ((meta: SessionMeta) => void) | null = null;
+  onError: ((e: unknown) => void) | null = null;
+
+  constructor(
+    readonly config: TriggerConfig,
+    // devices and settings for each saved session, read when it is saved
+    private init: () => RecordingInit,
+    // accel or gyro unit of a link
+    private unitOf: (source: string, channel: TriggerChannel) => string
+  ) {}
+
+  get state(): TriggerState {
+    return this.capture ? "capturing" : "armed";
+  }
+
+  append(samples: IMUSample[]) {
+    const { channel, threshold, preMs, postMs } = this.config;
+    for (const s of samples) {
+      const t = s.hostTime ?? Date.now();
+      this.ring.push(s);
+      const v = s[channel];
+      const value = Math.hypot(v.x, v.y, v.z) * (FACTORS[channel][this.unitOf(s.source ?? "", channel)] ?? 1);
+      const key = streamKey(s.source ?? "", s.imuId);
+      const crossed = value > threshold && !this.above.has(key);
+      if (value > threshold) this.above.add(key);
+      else this.above.delete(key);
+      if (this.capture) {
+        this.capture.samples.push(s);
+        if (t >= this.capture.event.time + postMs) this.complete();
+        continue;
+      }
+      if (crossed) {
+        const event = { time: t, source: s.source ?? "", imuId: s.imuId, value };
+        this.capture = { event, samples: this.recent(t - preMs) };
+        this.onFire?.(event);
+      }
+    }
+    this.prune(samples[samples.length - 1]?.hostTime ?? Date.now());
+  }
+
+  // Saves a capture in progress as it is; resolves once everything triggered so far is stored
+  finish(): Promise<void> {
+    if (this.capture) this.complete();
+    return this.saving;
+  }
+
+  private recent(since: number) {
+    const out: IMUSample[] = [];
+    for (let i = this.head; i < this.ring.length; i++) {
+      if ((this.ring[i].hostTime ?? since) >= since) out.push(this.ring[i]);
+    }
+    return out;
+  }
+
+  // history only needs to reach back preMs; the array is compacted now and then, not per sample
+  private prune(now: number) {
+    const since = now - this.config.preMs;
+    while (this.head < this.ring.length && (this.ring[this.head].hostTime ?? now) < since) this.head++;
+    if (this.head > APPEND_BATCH && this.head > this.ring.length / 2) {
+      this.ring = this.ring.slice(this.head);
+      this.head = 0;
+    }
+  }
+
+  private complete() {
+    const { event, samples } = this.capture;
+    this.capture = null;
+    this.saving = this.saving.then(() => this.save(event, samples)).catch((e) => this.onError?.(e));
+  }
+
+  private async save(event: TriggerEvent, samples: IMUSample[]) {
+    const { unit } = TRIGGER_CHANNELS[this.config.channel];
+    const recorder = await SessionRecorder.start({
+      ...this.init(),
+      name: `Trigger ${new Date(event.time).toLocaleString()}`,
+      startedAt: samples[0]?.hostTime ?? event.time,
+    });
+    recorder.onError = this.onError;
+    for (let i = 0; i < samples.length; i += APPEND_BATCH) recorder.append(samples.slice(i, i + APPEND_BATCH));
+    recorder.setMarkers([createMarker(`Trigger ${event.value.toFixed(2)} ${unit}`, event.time)]);
+    this.onSaved?.(await recorder.stop());
+  }
+}
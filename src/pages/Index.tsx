@@ -1,134 +1,564 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Header } from "@/components/Header";
 import { StatusBar } from "@/components/StatusBar";
 import { OrientationViewer } from "@/components/OrientationViewer";
 import { SensorChart } from "@/components/SensorChart";
 import { SettingsDialog } from "@/components/SettingsDialog";
 import { BLEConnectionDialog } from "@/components/BLEConnectionDialog";
+import { ExportDialog } from "@/components/ExportDialog";
 import { DataPacketStatus } from "@/components/DataPacketStatus";
-import { useIMUData } from "@/hooks/useIMUData";
+import { SessionTimeline } from "@/components/SessionTimeline";
+import { RangeStats } from "@/components/RangeStats";
+import { MarkerBar } from "@/components/MarkerBar";
+import { TriggerDialog } from "@/components/TriggerDialog";
+import { CountdownOverlay } from "@/components/CountdownOverlay";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useBLE } from "@/hooks/useBLE";
+import { useTransport } from "@/hooks/useTransport";
+import { useSampleStore } from "@/hooks/useSampleStore";
+import { useRecorder } from "@/hooks/useRecorder";
+import { useReplay } from "@/hooks/useReplay";
+import { useTrigger } from "@/hooks/useTrigger";
+import { useTrials } from "@/hooks/useTrials";
+import { ReplayPlayer, type WebSocketFrameFormat } from "@/lib/transports";
+import { parseStreamKey } from "@/lib/imuParser";
+import type { StreamWindow } from "@/lib/sampleStore";
+import { getSession, updateSession, type SessionDevice } from "@/lib/sessionDb";
+import { readSessionRecording, type Recording } from "@/lib/import/recording";
+import type { OpenSessionState } from "@/lib/sessionLibrary";
+import type { LinkState } from "@/hooks/useTransport";
+import { liveExportSource, recordingExportSource } from "@/lib/export/source";
+import { channelStats, envelope, magnitude } from "@/lib/channelStats";
+import { formatTime } from "@/lib/sessionLibrary";
+import { DEFAULT_PROFILE, loadProfiles, saveProfiles } from "@/lib/deviceProfiles";
+import { extraChannels } from "@/lib/frameLayout";
+import { TRIGGER_CHANNELS, type TriggerChannel } from "@/lib/triggerRecorder";
+import { DEFAULT_MARKER_LABELS, createMarker, markersBetween, parseMarkerLabels, type EventMarker } from "@/lib/markers";
+
+// one chart row; null values break the line
+type ChartPoint = { time: number; [channel: string]: number | null };
+
+// chart series → store channel
+const ACCEL = { x: "accel.x", y: "accel.y", z: "accel.z" };
+const GYRO = { x: "gyro.x", y: "gyro.y", z: "gyro.z" };
+const MAG = { x: "mag.x", y: "mag.y", z: "mag.z" };
+const QUAT = { x: "quat.x", y: "quat.y", z: "quat.z", w: "quat.w" };
+
+// seconds of history kept per stream, beyond what the charts show
+const HISTORY_SECONDS = 60;
+
+// columns in the timeline overview
+const OVERVIEW_BINS = 600;
+
+const sessionDevices = (links: LinkState[]): SessionDevice[] =>
+  links.map(({ transport, profile }) => ({ source: transport.id, name: transport.name, kind: transport.kind, profile }));
+
+// Chart rows from a store window, time in seconds since `origin`. A null row before a sample
+// that follows dropped packets breaks the line instead of bridging it.
+function toRows(win: StreamWindow | null, series: Record<string, string>, origin: number): ChartPoint[] {
+  if (!win) return [];
+  const names = Object.keys(series);
+  const rows: ChartPoint[] = [];
+  for (let i = 0; i < win.time.length; i++) {
+    const time = (win.time[i] - origin) / 1000;
+    if (win.gap[i] > 0) rows.push(Object.fromEntries([["time", time], ...names.map((n) => [n, null])]));
+    const row: ChartPoint = { time };
+    for (const n of names) {
+      const v = win.channels[series[n]]?.[i];
+      row[n] = v === undefined || Number.isNaN(v) ? null : v;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+// The core values of a window's last row, e.g. the sample at the playhead
+function lastRow(win: StreamWindow | null) {
+  const i = (win?.time.length ?? 0) - 1;
+  if (i < 0) return null;
+  const pick = <K extends string>(series: Record<K, string>) =>
+    Object.fromEntries(Object.entries(series).map(([k, c]) => [k, win.channels[c as string]?.[i] ?? NaN])) as Record<K, number>;
+  return { time: win.time[i], accel: pick(ACCEL), gyro: pick(GYRO), mag: pick(MAG), quat: pick(QUAT) };
+}
 
 export default function Index() {
-  const [isConnected, setIsConnected] = useState(false);
-  const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [bleDialogOpen, setBleDialogOpen] = useState(false);
-  const [selectedIMU, setSelectedIMU] = useState("imu0"); // imu0 -> id 0
+  const [exportOpen, setExportOpen] = useState(false);
+  const [triggerOpen, setTriggerOpen] = useState(false);
+  const [leaveOpen, setLeaveOpen] = useState(false);
+  // streamKey(link, imuId) of the IMU shown in the charts
+  const [selectedStream, setSelectedStream] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState("");
+  // the loaded recording, while any of its links is open
+  const [replay, setReplay] = useState<ReplayPlayer | null>(null);
+  // event markers of the live data, or of the loaded recording while reviewing
+  const [markers, setMarkers] = useState<EventMarker[]>([]);
 
-  const [settings, setSettings] = useState({
+  const [settings, setSettings] = useState(() => ({
     samplingRate: 100,
     chartDuration: 5,
     devicePort: "/dev/ttyUSB0",
     baudRate: 115200,
-  });
+    profiles: loadProfiles(),
+    profileId: DEFAULT_PROFILE.id,
+    frameDelimiter: "\\n",
+    maxFrameLength: 1024,
+    websocketUrl: "ws://localhost:8765",
+    websocketFormat: "auto" as WebSocketFrameFormat,
+    markerLabels: DEFAULT_MARKER_LABELS,
+    triggerChannel: "accel" as TriggerChannel,
+    triggerThreshold: 4,
+    triggerPreSeconds: 2,
+    triggerPostSeconds: 5,
+    // Record button: countdown, fixed duration and trials (seconds; 0 = off)
+    recordCountdown: 0,
+    recordDuration: 0,
+    recordTrials: 1,
+    recordRest: 10,
+  }));
+
+  useEffect(() => saveProfiles(settings.profiles), [settings.profiles]);
 
   const bleHook = useBLE();
-  const { clearData } = useIMUData({ isPaused: !isConnected || isPaused });
+  // whichever transport the user connected through feeds the charts
+  const stream = useTransport();
+  const isConnected = stream.isConnected;
+  const onSamples = stream.onSamples;
 
-  const [bleAccelData, setBleAccelData] = useState<any[]>([]);
-  const [bleGyroData, setBleGyroData] = useState<any[]>([]);
-  const [bleMagData, setBleMagData] = useState<any[]>([]);
-  const [bleQuatData, setBleQuatData] = useState<any[]>([]);
+  // recent history of every stream, not just the one on screen
+  const history = useSampleStore(
+    onSamples,
+    settings.samplingRate * Math.max(settings.chartDuration, HISTORY_SECONDS),
+    isPaused
+  );
   const startTimeRef = useRef(Date.now());
 
-  const selectedImuId = parseInt(selectedIMU.replace("imu", ""), 10) || 0;
+  // every sample from every link goes to IndexedDB while recording
+  const recorder = useRecorder(onSamples);
+  const isRecording = recorder.isRecording;
+  const describeDevices = recorder.describe;
+  useEffect(() => {
+    if (isRecording) describeDevices(sessionDevices(stream.links));
+  }, [isRecording, describeDevices, stream.links]);
+  const recordMarkers = recorder.setMarkers;
+  useEffect(() => {
+    if (isRecording) recordMarkers(markers);
+  }, [isRecording, recordMarkers, markers]);
+
+  useEffect(() => {
+    if (recorder.recovered.length === 0) return;
+    const samples = recorder.recovered.reduce((n, s) => n + s.sampleCount, 0);
+    setStatusMessage(
+      `Recovered ${recorder.recovered.length} interrupted recording(s) - ${samples.toLocaleString()} samples kept`
+    );
+  }, [recorder.recovered]);
 
-  // push data only for currently selected IMU
   useEffect(() => {
-    const imu = bleHook.latestByIMU[selectedImuId];
-    if (!imu || !isConnected || isPaused) return;
+    if (recorder.error) setStatusMessage(`Recording error - ${recorder.error}`);
+  }, [recorder.error]);
 
-    const currentTime = (Date.now() - startTimeRef.current) / 1000;
-    const maxPoints = settings.samplingRate * settings.chartDuration;
+  // threshold-triggered captures, each saved as its own session
+  const trigger = useTrigger(onSamples);
 
-    setBleAccelData((prev) =>
-      [...prev, { time: currentTime, ...imu.accel }].slice(-maxPoints)
-    );
-    setBleGyroData((prev) =>
-      [...prev, { time: currentTime, ...imu.gyro }].slice(-maxPoints)
-    );
-    setBleMagData((prev) =>
-      [...prev, { time: currentTime, ...imu.mag }].slice(-maxPoints)
-    );
-    setBleQuatData((prev) =>
-      [...prev, { time: currentTime, ...imu.quat }].slice(-maxPoints)
-    );
-  }, [bleHook.latestByIMU, selectedImuId, isConnected, isPaused, settings]);
+  // every (device, IMU) pair that has sent data; device names only matter with several links
+  const streamOptions = useMemo(
+    () =>
+      Object.keys(stream.latestByStream)
+        .sort()
+        .map((key) => {
+          const { source, imuId } = parseStreamKey(key);
+          const device = stream.links.length > 1 ? `${stream.linksById[source]?.transport.name ?? source} · ` : "";
+          return { key, label: `${device}IMU ${imuId + 1}` };
+        }),
+    [stream.latestByStream, stream.links.length, stream.linksById]
+  );
+  const selectedLabel = streamOptions.find((o) => o.key === selectedStream)?.label ?? "IMU";
+
+  // follow the first stream when nothing (or a stream that went away) is selected
+  useEffect(() => {
+    if (selectedStream && stream.latestByStream[selectedStream]) return;
+    const first = streamOptions[0]?.key ?? null;
+    if (first !== selectedStream) setSelectedStream(first);
+  }, [streamOptions, selectedStream, stream.latestByStream]);
+
+  // forget the history of links that were closed
+  const { store } = history;
+  useEffect(() => {
+    for (const key of store.streams()) {
+      const { source } = parseStreamKey(key);
+      if (!stream.linksById[source]) store.removeSource(source);
+    }
+  }, [store, stream.linksById]);
+
+  useEffect(() => {
+    if (!replay || replay.transports.some((t) => stream.linksById[t.id])) return;
+    replay.pause();
+    setReplay(null);
+    setMarkers([]);
+  }, [replay, stream.linksById]);
+
+  // surface link drops (and recoveries) even while the connection dialog is closed
+  const prevStatusRef = useRef(stream.status);
+  useEffect(() => {
+    const recovered = prevStatusRef.current === "reconnecting" && stream.status === "connected";
+    prevStatusRef.current = stream.status;
+    if ((recovered || stream.status === "reconnecting" || stream.status === "lost") && stream.connectMessage) {
+      setStatusMessage(stream.connectMessage);
+    }
+  }, [stream.status, stream.connectMessage]);
 
   const handleBLEConnect = (deviceName: string) => {
-    setIsConnected(true);
     setStatusMessage(`Connected to ${deviceName}`);
+    // adding a second device keeps the running charts and time axis
+    if (isConnected) return;
     startTimeRef.current = Date.now();
-    setBleAccelData([]);
-    setBleGyroData([]);
-    setBleMagData([]);
-    setBleQuatData([]);
+    store.clear();
+    history.refresh();
+    setMarkers([]);
+  };
+
+  // one link per recorded device, with the profile it was captured with (units, layout)
+  const startReplay = async (recording: Recording) => {
+    handleBLEConnect(recording.name);
+    const player = new ReplayPlayer(recording);
+    for (const [i, t] of player.transports.entries()) await stream.connect(t, recording.devices[i].profile);
+    setReplay(player);
+    setMarkers(recording.markers);
+    player.play();
+    const skipped = recording.skipped > 0 ? `, ${recording.skipped} unreadable rows skipped` : "";
+    setStatusMessage(`Replaying "${recording.name}" - ${recording.samples.length.toLocaleString()} samples${skipped}`);
   };
 
-  const handleDisconnect = () => {
-    bleHook.disconnect();
-    setIsConnected(false);
+  // the session library hands over a stored session to open
+  const location = useLocation();
+  const navigate = useNavigate();
+  const openSession = (location.state as OpenSessionState | null)?.openSession;
+  const startReplayRef = useRef(startReplay);
+  startReplayRef.current = startReplay;
+  useEffect(() => {
+    if (!openSession) return;
+    navigate(".", { replace: true, state: null });
+    getSession(openSession)
+      .then((meta) => {
+        if (!meta) throw new Error("Session not found");
+        setStatusMessage(`Loading "${meta.name}"…`);
+        return readSessionRecording(meta);
+      })
+      .then((recording) => startReplayRef.current(recording))
+      .catch((e) => setStatusMessage(`Opening session failed - ${e instanceof Error ? e.message : String(e)}`));
+  }, [openSession, navigate]);
+
+  const handleDisconnect = async () => {
+    // links deliver their last batches before the history and the recording are closed
+    await stream.disconnect();
     setStatusMessage("Disconnected");
-    setBleAccelData([]);
-    setBleGyroData([]);
-    setBleMagData([]);
-    setBleQuatData([]);
+    store.clear();
+    history.refresh();
+    setMarkers([]);
+    // nothing left to capture; failures show in the status bar through trigger.error and trials.error
+    await Promise.all([trigger.disarm(), trials.cancel()]);
+    try {
+      const meta = await recorder.stop();
+      if (meta) setStatusMessage(`Disconnected - Recording saved to "${meta.name}"`);
+    } catch (e) {
+      setStatusMessage(`Disconnected - Saving the recording failed - ${e instanceof Error ? e.message : String(e)}`);
+    }
   };
 
-  const handleIMUChange = (imu: string) => {
-    const id = parseInt(imu.replace("imu", ""), 10) || 0;
-    setSelectedIMU(imu);
-    startTimeRef.current = Date.now();
-    setBleAccelData([]);
-    setBleGyroData([]);
-    setBleMagData([]);
-    setBleQuatData([]);
-    setStatusMessage(`IMU Changed - Switched to IMU ${id + 1}`);
-
-    // if connected and there is already some data, but none for this ID -> popup
-    if (
-      isConnected &&
-      Object.keys(bleHook.latestByIMU).length > 0 &&
-      !bleHook.latestByIMU[id]
-    ) {
-      window.alert("No data found for this IMU yet.");
+  // dashboard settings as stored with sessions and exports (profiles travel with each device)
+  const settingsSnapshot = () => {
+    const { profiles: _profiles, ...rest } = settings;
+    return rest;
+  };
+
+  // read when the export dialog opens; refs keep the callback stable while data streams in
+  const exportContext = useRef({ links: stream.links, settings: settingsSnapshot(), markers });
+  exportContext.current = { links: stream.links, settings: settingsSnapshot(), markers };
+  const liveSource = useCallback(() => {
+    if (store.streams().length === 0) return null;
+    const { links, settings, markers } = exportContext.current;
+    return liveExportSource(store, sessionDevices(links), settings, markers);
+  }, [store]);
+
+  useEffect(() => {
+    const event = trigger.lastEvent;
+    if (!event) return;
+    const link = exportContext.current.links.find((l) => l.transport.id === event.source);
+    const { unit } = TRIGGER_CHANNELS[exportContext.current.settings.triggerChannel];
+    setStatusMessage(
+      `Triggered - ${link?.transport.name ?? event.source} · IMU ${event.imuId + 1} at ${event.value.toFixed(2)} ${unit}, capturing`
+    );
+  }, [trigger.lastEvent]);
+  useEffect(() => {
+    const meta = trigger.saved[trigger.saved.length - 1];
+    if (meta) setStatusMessage(`Trigger capture saved to "${meta.name}" - Re-armed (${trigger.saved.length} so far)`);
+  }, [trigger.saved]);
+  useEffect(() => {
+    if (trigger.error) setStatusMessage(`Trigger error - ${trigger.error}`);
+  }, [trigger.error]);
+
+  // sessions are described with the links and settings current when each capture is saved
+  const handleArm = () => {
+    const { triggerChannel, triggerThreshold, triggerPreSeconds, triggerPostSeconds } = settings;
+    trigger.arm(
+      {
+        channel: triggerChannel,
+        threshold: triggerThreshold,
+        preMs: Math.max(triggerPreSeconds, 0) * 1000,
+        postMs: Math.max(triggerPostSeconds, 0.5) * 1000,
+      },
+      () => ({ devices: sessionDevices(exportContext.current.links), settings: exportContext.current.settings }),
+      (source, channel) => {
+        const link = exportContext.current.links.find((l) => l.transport.id === source);
+        return (link?.profile?.units ?? DEFAULT_PROFILE.units)[channel];
+      }
+    );
+    const { unit } = TRIGGER_CHANNELS[triggerChannel];
+    setStatusMessage(`Trigger armed - ${TRIGGER_CHANNELS[triggerChannel].label} above ${triggerThreshold} ${unit}`);
+  };
+
+  const handleDisarm = async () => {
+    await trigger.disarm();
+    setStatusMessage("Trigger disarmed");
+  };
+
+  const startRecording = async (name?: string) => {
+    const meta = await recorder.start({ name, devices: sessionDevices(stream.links), settings: settingsSnapshot() });
+    setStatusMessage(`Recording started - Capturing every IMU to "${meta.name}"`);
+  };
+
+  // countdown and fixed-length recordings; every trial of a sequence is a session of its own
+  const trials = useTrials({
+    start: async (trial, count) => {
+      if (!isConnected) throw new Error("No device connected");
+      await startRecording(count > 1 ? `Trial ${trial}/${count} ${new Date().toLocaleString()}` : undefined);
+    },
+    stop: async (trial, count) => {
+      const meta = await recorder.stop();
+      if (!meta) return;
+      const what = count > 1 ? `Trial ${trial}/${count}` : "Recording";
+      setStatusMessage(`${what} stopped - ${meta.sampleCount.toLocaleString()} samples saved to "${meta.name}"`);
+    },
+  });
+  useEffect(() => {
+    if (trials.error) setStatusMessage(`Timed recording stopped - ${trials.error}`);
+  }, [trials.error]);
+
+  const handleRecord = async () => {
+    if (trials.active) {
+      setStatusMessage("Timed recording cancelled");
+      await trials.cancel();
+      return;
+    }
+    if (isRecording) {
+      try {
+        const meta = await recorder.stop();
+        if (meta) {
+          setStatusMessage(`Recording stopped - ${meta.sampleCount.toLocaleString()} samples saved to "${meta.name}"`);
+        }
+      } catch (e) {
+        setStatusMessage(`Saving the recording failed - ${e instanceof Error ? e.message : String(e)}`);
+      }
+      return;
+    }
+    if (!isConnected) {
+      setStatusMessage("Connect a device before recording");
+      return;
+    }
+    const { recordCountdown, recordDuration, recordTrials, recordRest } = settings;
+    if (recordCountdown > 0 || recordDuration > 0) {
+      await trials.begin({
+        countdownMs: recordCountdown * 1000,
+        durationMs: recordDuration * 1000,
+        // without a duration there is nothing to end a trial on
+        trials: recordDuration > 0 ? Math.max(1, Math.round(recordTrials)) : 1,
+        restMs: Math.max(recordRest, 0) * 1000,
+      });
+      return;
+    }
+    try {
+      await startRecording();
+    } catch (e) {
+      setStatusMessage(`Recording failed - ${e instanceof Error ? e.message : "IndexedDB unavailable"}`);
     }
   };
 
+  // the library is a page of its own: leaving the dashboard closes every link and ends any capture
+  const busy = [
+    isConnected && "closes every connected link",
+    (isRecording || trials.active) && "stops the recording",
+    trigger.isArmed && "disarms the trigger",
+  ].filter(Boolean);
+  const handleSessions = () => (busy.length > 0 ? setLeaveOpen(true) : navigate("/sessions"));
+
+  // next to the Record button while a timed recording runs
+  const recordStatus = (() => {
+    const { state, remainingMs } = trials;
+    if (!state) return null;
+    const of = state.trials > 1 ? `Trial ${state.trial}/${state.trials} · ` : "";
+    if (state.phase === "countdown") return `${of}starting in ${Math.ceil((remainingMs ?? 0) / 1000)}`;
+    if (state.phase === "rest") return `Rest ${formatTime(remainingMs ?? 0)} · next ${state.trial + 1}/${state.trials}`;
+    return remainingMs === null ? null : `${of}${formatTime(remainingMs)} left`;
+  })();
+
+  const handleStreamChange = (key: string) => {
+    // history is kept per stream, so the charts fill in straight away
+    setSelectedStream(key);
+    const label = streamOptions.find((o) => o.key === key)?.label ?? key;
+    setStatusMessage(`IMU Changed - Switched to ${label}`);
+  };
+
   const handleClear = () => {
-    clearData();
-    setBleAccelData([]);
-    setBleGyroData([]);
-    setBleMagData([]);
-    setBleQuatData([]);
+    store.clear();
+    history.refresh();
+    // markers stay with a recording, being made or reviewed
+    if (!replay && !isRecording) setMarkers([]);
     startTimeRef.current = Date.now();
     setStatusMessage("Data cleared - All chart data has been reset");
   };
 
-  const selectedLatestIMU = bleHook.latestByIMU[selectedImuId] || null;
+  const selectedLatestIMU = (selectedStream && stream.latestByStream[selectedStream]) || null;
+  const selectedLink = selectedStream ? stream.linksById[parseStreamKey(selectedStream).source] : undefined;
+  const units = selectedLink?.profile?.units ?? DEFAULT_PROFILE.units;
+  // declared channels first (they carry units), then anything else the device sent
+  const layout = selectedLink?.profile?.layout;
+  const declared = layout ? extraChannels(layout) : [];
+  const extraSeries = [
+    ...declared,
+    ...Object.keys(selectedLatestIMU?.extra ?? {})
+      .filter((name) => !declared.some((c) => c.name === name))
+      .map((name) => ({ name, unit: "" })),
+  ];
+  const extraUnits = [...new Set(extraSeries.map((c) => c.unit).filter(Boolean))].join(", ");
+
+  // While a recording is loaded the views follow its playhead, read from the whole recording
+  // rather than from what playback has sent so far
+  const replayState = useReplay(replay);
+  const recorded = useMemo(() => replay?.recordedHistory() ?? null, [replay]);
+  const range = replayState?.range ?? null;
+
+  // markers land at the playhead when reviewing; edits to a stored session are saved with it
+  const changeMarkers = (next: EventMarker[]) => {
+    setMarkers(next);
+    const sessionId = replay?.recording.sessionId;
+    if (sessionId) {
+      updateSession(sessionId, { markers: next }).catch((e) =>
+        setStatusMessage(`Saving markers failed - ${e instanceof Error ? e.message : String(e)}`)
+      );
+    }
+  };
+  const addMarker = (label: string) => {
+    const time = replay && replayState ? replay.startTime + replayState.position : Date.now();
+    changeMarkers([...markers, createMarker(label, time)]);
+    const origin = replay ? replay.startTime : startTimeRef.current;
+    setStatusMessage(`Marker "${label}" at ${formatTime(time - origin)}`);
+  };
+
+  // the last chartDuration seconds of the selected stream (up to the playhead when reviewing),
+  // re-read once per delivered batch or playhead move
+  const extraKeys = extraSeries.map((c) => c.name).join(",");
+  const charts = useMemo(() => {
+    let win: StreamWindow | null = null;
+    let origin = startTimeRef.current;
+    if (recorded && replayState && selectedStream) {
+      const playhead = replay.startTime + replayState.position;
+      win = recorded.window(selectedStream, playhead - settings.chartDuration * 1000, undefined, playhead + 1);
+      origin = replay.startTime;
+    } else {
+      const { store } = history;
+      const last = selectedStream ? store.lastTime(selectedStream) : null;
+      win = last === null ? null : store.window(selectedStream, last - settings.chartDuration * 1000);
+    }
+    const extras = extraKeys ? Object.fromEntries(extraKeys.split(",").map((n) => [n, n])) : {};
+    const shown = win && win.time.length > 0 ? markersBetween(markers, win.time[0], win.time[win.time.length - 1]) : [];
+    return {
+      markers: shown.map((m) => ({ id: m.id, time: (m.time - origin) / 1000, label: m.label })),
+      accel: toRows(win, ACCEL, origin),
+      gyro: toRows(win, GYRO, origin),
+      mag: toRows(win, MAG, origin),
+      quat: toRows(win, QUAT, origin),
+      extra: toRows(win, extras, origin),
+      // what the packet status shows while reviewing
+      atPlayhead: recorded && replayState ? lastRow(win) : null,
+    };
+  }, [history, recorded, replay, replayState, selectedStream, settings.chartDuration, extraKeys, markers]);
+  const latestGyro = charts.gyro[charts.gyro.length - 1];
+  // the sample at the playhead while reviewing, else the newest one received
+  const shownSample = charts.atPlayhead
+    ? { ...charts.atPlayhead, imuId: parseStreamKey(selectedStream).imuId }
+    : selectedLatestIMU && { ...selectedLatestIMU, time: Date.now() };
+
+  // accel magnitude of the selected stream across the whole recording, for the timeline
+  const overview = useMemo(() => {
+    const win = recorded && selectedStream ? recorded.window(selectedStream, -Infinity, Object.values(ACCEL)) : null;
+    if (!win || !replay) return null;
+    const { startTime, duration } = replay;
+    return envelope(win.time, magnitude(win, Object.values(ACCEL)), startTime, startTime + duration, OVERVIEW_BINS);
+  }, [recorded, replay, selectedStream]);
+
+  // statistics of the selected stream over the selected range (the whole recording without one)
+  const rangeStats = useMemo(() => {
+    if (!recorded || !replay || !selectedStream) return null;
+    const span = range ?? [0, replay.duration];
+    const win = recorded.window(selectedStream, replay.startTime + span[0], undefined, replay.startTime + span[1] + 1);
+    if (!win) return null;
+    const rows = (group: string, series: Record<string, string>, unit: string) => [
+      ...Object.entries(series).map(([axis, channel]) => ({
+        label: `${group}.${axis}`,
+        unit,
+        stats: channelStats(win.channels[channel]),
+      })),
+      { label: `|${group}|`, unit, stats: channelStats(magnitude(win, Object.values(series))) },
+    ];
+    return {
+      title: `${formatTime(span[0])} – ${formatTime(span[1])}`,
+      rows: [...rows("accel", ACCEL, units.accel), ...rows("gyro", GYRO, units.gyro), ...rows("mag", MAG, units.mag)],
+    };
+  }, [recorded, replay, selectedStream, range, units.accel, units.gyro, units.mag]);
+
+  // exports of the selected range come straight from the loaded recording
+  const rangeSource = useMemo(() => {
+    if (!replay || !range) return null;
+    const span: [number, number] = [replay.startTime + range[0], replay.startTime + range[1]];
+    return {
+      label: `Selected range (${formatTime(range[0])} – ${formatTime(range[1])})`,
+      source: () => {
+        const { settings, markers } = exportContext.current;
+        return recordingExportSource({ ...replay.recording, markers }, settings, span);
+      },
+    };
+  }, [replay, range]);
 
   return (
     <div className="h-screen bg-background flex flex-col overflow-hidden">
       <Header
         isConnected={isConnected}
-        isRecording={isRecording}
+        connectionStatus={stream.status}
+        isRecording={isRecording || trials.active}
+        recordStatus={recordStatus}
+        recordSettings={settings}
+        onRecordSettingsChange={(patch) => setSettings((s) => ({ ...s, ...patch }))}
+        triggerState={trigger.state}
         isPaused={isPaused}
-        selectedIMU={selectedIMU}
-        onIMUChange={handleIMUChange}
-        onRecord={() => {
-          setIsRecording((prev) => !prev);
-          setStatusMessage(
-            !isRecording
-              ? "Recording started - Capturing IMU data..."
-              : "Recording stopped - Data saved"
-          );
-        }}
-        onExport={() => {
-          setStatusMessage("Export started - Preparing CSV...");
-        }}
+        streams={streamOptions}
+        selectedStream={selectedStream}
+        onStreamChange={handleStreamChange}
+        onRecord={handleRecord}
+        onTrigger={() => setTriggerOpen(true)}
+        onExport={() => setExportOpen(true)}
+        onSessions={handleSessions}
         onPause={() => {
           setIsPaused((prev) => !prev);
           setStatusMessage(
@@ -144,8 +574,27 @@ export default function Index() {
         }
       />
 
+      {replay && replayState && (
+        <SessionTimeline player={replay} state={replayState} overview={overview} markers={markers} />
+      )}
+
+      {isConnected && (
+        <MarkerBar
+          labels={parseMarkerLabels(settings.markerLabels)}
+          markers={markers}
+          origin={replay ? replay.startTime : startTimeRef.current}
+          onAdd={addMarker}
+          onChange={changeMarkers}
+          onSeek={replay ? (m) => replay.seek(m.time - replay.startTime) : undefined}
+        />
+      )}
+
       <StatusBar message={statusMessage} />
 
+      {trials.state?.phase === "countdown" && (
+        <CountdownOverlay state={trials.state} remainingMs={trials.remainingMs ?? 0} />
+      )}
+
       <SettingsDialog
         open={settingsOpen}
         onOpenChange={setSettingsOpen}
@@ -153,39 +602,86 @@ export default function Index() {
         onSettingsChange={setSettings}
       />
 
+      <TriggerDialog
+        open={triggerOpen}
+        onOpenChange={setTriggerOpen}
+        settings={settings}
+        onSettingsChange={(patch) => setSettings((s) => ({ ...s, ...patch }))}
+        state={trigger.state}
+        captures={trigger.saved.length}
+        canArm={isConnected}
+        onArm={handleArm}
+        onDisarm={handleDisarm}
+      />
+
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        liveSource={liveSource}
+        rangeSource={rangeSource}
+        onStatus={setStatusMessage}
+      />
+
+      <AlertDialog open={leaveOpen} onOpenChange={setLeaveOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave the dashboard?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Opening the session library {busy.join(", ")}. What was recorded so far is kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay</AlertDialogCancel>
+            <AlertDialogAction onClick={() => navigate("/sessions")}>Open library</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <BLEConnectionDialog
         open={bleDialogOpen}
         onOpenChange={setBleDialogOpen}
         onConnect={handleBLEConnect}
+        onReplay={startReplay}
         ble={bleHook}
+        link={stream}
+        settings={settings}
       />
 
-      {isConnected && selectedLatestIMU && (
+      {isConnected && shownSample && (
         <div className="px-6 pt-4">
           <DataPacketStatus
-            packetsReceived={bleHook.packetsReceived}
+            packetsReceived={selectedLink?.packetsReceived ?? 0}
+            framesAccepted={selectedLink?.frameStats?.accepted}
+            framesRejected={selectedLink?.frameStats?.rejected}
+            loss={selectedLink?.lossByIMU[shownSample.imuId]}
             dataRate={settings.samplingRate}
-            lastPacketTime={new Date().toLocaleTimeString()}
-            imuId={selectedLatestIMU.imuId}
+            lastPacketTime={new Date(shownSample.time).toLocaleTimeString()}
+            imuId={shownSample.imuId}
             latestData={{
-              accel: selectedLatestIMU.accel,
-              gyro: selectedLatestIMU.gyro,
-              mag: selectedLatestIMU.mag,
-              quat: selectedLatestIMU.quat,
+              accel: shownSample.accel,
+              gyro: shownSample.gyro,
+              mag: shownSample.mag,
+              quat: shownSample.quat,
             }}
           />
         </div>
       )}
 
+      {rangeStats && (
+        <div className="px-6 pt-4">
+          <RangeStats title={`${selectedLabel} · ${rangeStats.title}`} rows={rangeStats.rows} />
+        </div>
+      )}
+
       <main className="flex-1 p-6 overflow-hidden min-h-0">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 h-full">
           <div className="lg:col-span-1 min-h-0">
-            {isConnected && bleGyroData.length > 0 ? (
+            {isConnected && latestGyro ? (
               <OrientationViewer
                 rotation={{
-                  x: bleGyroData[bleGyroData.length - 1]?.x || 0,
-                  y: bleGyroData[bleGyroData.length - 1]?.y || 0,
-                  z: bleGyroData[bleGyroData.length - 1]?.z || 0,
+                  x: latestGyro.x || 0,
+                  y: latestGyro.y || 0,
+                  z: latestGyro.z || 0,
                 }}
               />
             ) : (
@@ -205,36 +701,52 @@ export default function Index() {
               <>
                 <div className="min-h-[250px]">
                   <SensorChart
-                    title={`Accelerometer (IMU ${selectedImuId + 1})`}
-                    data={bleAccelData}
-                    unit="m/s²"
+                    title={`Accelerometer (${selectedLabel})`}
+                    data={charts.accel}
+                    markers={charts.markers}
+                    unit={units.accel}
                   />
                 </div>
 
                 <div className="min-h-[250px]">
                   <SensorChart
-                    title={`Gyroscope (IMU ${selectedImuId + 1})`}
-                    data={bleGyroData}
-                    unit="rad/s"
+                    title={`Gyroscope (${selectedLabel})`}
+                    data={charts.gyro}
+                    markers={charts.markers}
+                    unit={units.gyro}
                   />
                 </div>
 
                 <div className="min-h-[250px]">
                   <SensorChart
-                    title={`Magnetometer (IMU ${selectedImuId + 1})`}
-                    data={bleMagData}
-                    unit="µT"
+                    title={`Magnetometer (${selectedLabel})`}
+                    data={charts.mag}
+                    markers={charts.markers}
+                    unit={units.mag}
                   />
                 </div>
 
                 <div className="min-h-[250px]">
                   <SensorChart
                     title="Quaternion"
-                    data={bleQuatData}
+                    data={charts.quat}
+                    markers={charts.markers}
                     unit="quat"
                     showW
                   />
                 </div>
+
+                {extraSeries.length > 0 && (
+                  <div className="min-h-[250px]">
+                    <SensorChart
+                      title="Extra Channels"
+                      data={charts.extra}
+                      markers={charts.markers}
+                      unit={extraUnits}
+                      series={extraSeries.map((c) => ({ key: c.name, name: c.unit ? `${c.name} (${c.unit})` : c.name }))}
+                    />
+                  </div>
+                )}
               </>
             ) : (
               <div className="col-span-2 flex items-center justify-center min-h-[500px]">
@@ -0,0 +1,340 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Download, Pencil, Play, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { StatusBar } from "@/components/StatusBar";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { deleteSession, listSessions, updateSession, type SessionMeta } from "@/lib/sessionDb";
+import {
+  SESSION_SORTS,
+  filterSessions,
+  formatBytes,
+  formatDuration,
+  parseTags,
+  sessionDuration,
+  sessionIMUs,
+  type OpenSessionState,
+  type SessionSort,
+} from "@/lib/sessionLibrary";
+import { recoverSessions } from "@/lib/sessionRecorder";
+import { fileBaseName, sessionExportSource } from "@/lib/export/source";
+import { EXPORT_FORMATS, writeArchive, writeExport, type ExportFormat } from "@/lib/export/formats";
+import { ExportCancelled, saveExport } from "@/lib/export/download";
+
+type Draft = { id: string; name: string; tags: string };
+
+const Sessions = () => {
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<SessionMeta[]>([]);
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SessionSort>("newest");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>("bundle");
+  const [exporting, setExporting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState("");
+
+  const reload = useCallback(
+    () =>
+      listSessions()
+        .then(setSessions)
+        .catch((e) => setStatusMessage(`Sessions unavailable - ${e instanceof Error ? e.message : String(e)}`)),
+    []
+  );
+  // sessions left "recording" by a crashed tab are closed out first, so they can be opened
+  useEffect(() => {
+    recoverSessions()
+      .then((recovered) => {
+        if (recovered.length > 0) setStatusMessage(`Recovered ${recovered.length} interrupted recording(s)`);
+      })
+      .catch(() => {
+        // no IndexedDB: reload says so
+      })
+      .then(reload);
+  }, [reload]);
+
+  const visible = useMemo(() => filterSessions(sessions, query, sort), [sessions, query, sort]);
+  // a session still being written can't be edited, exported or opened
+  const finished = (s: SessionMeta) => s.status !== "recording";
+  const chosen = visible.filter((s) => selected.has(s.id));
+  const allChosen = visible.length > 0 && chosen.length === visible.length;
+
+  const select = (id: string, on: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) return;
+    try {
+      await updateSession(draft.id, { name, tags: parseTags(draft.tags) });
+      setDraft(null);
+      await reload();
+    } catch (e) {
+      setStatusMessage(`Saving failed - ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    const ids = pendingDelete;
+    setPendingDelete([]);
+    try {
+      for (const id of ids) await deleteSession(id);
+      setSelected((prev) => new Set([...prev].filter((id) => !ids.includes(id))));
+      setStatusMessage(`Deleted ${ids.length} session(s)`);
+    } catch (e) {
+      setStatusMessage(`Delete failed - ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await reload();
+  };
+
+  // one file for a single session, otherwise a zip with a file per session
+  const handleExport = async () => {
+    const sources = chosen.filter(finished).map(sessionExportSource);
+    if (sources.length === 0) return;
+    const { extension, mime } = EXPORT_FORMATS[format];
+    const single = sources.length === 1;
+    const filename = single
+      ? `${fileBaseName(sources[0].name)}.${extension}`
+      : `sessions-${new Date().toISOString().slice(0, 10)}.zip`;
+    setExporting(true);
+    try {
+      await saveExport(filename, single ? mime : "application/zip", single ? extension : "zip", (sink) =>
+        single
+          ? writeExport(format, sources[0], {}, sink)
+          : writeArchive(format, sources, sink, (done) => setStatusMessage(`Exporting… ${done}/${sources.length}`))
+      );
+      setStatusMessage(`Export finished - ${filename}`);
+    } catch (e) {
+      if (!(e instanceof ExportCancelled)) setStatusMessage(`Export failed - ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleOpen = (meta: SessionMeta) => {
+    const state: OpenSessionState = { openSession: meta.id };
+    navigate("/", { state });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <header className="border-b border-border bg-card px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" asChild className="gap-2">
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4" />
+                Dashboard
+              </Link>
+            </Button>
+            <h1 className="text-xl font-bold text-foreground">Sessions</h1>
+          </div>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <StatusBar message={statusMessage} />
+
+      <main className="flex-1 p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[220px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search names, devices and tags"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <Select value={sort} onValueChange={(v) => setSort(v as SessionSort)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SESSION_SORTS) as SessionSort[]).map((s) => (
+                <SelectItem key={s} value={s}>{SESSION_SORTS[s]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={format} onValueChange={(v) => setFormat(v as ExportFormat)}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((f) => (
+                <SelectItem key={f} value={f}>{EXPORT_FORMATS[f].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={exporting || !chosen.some(finished)}
+            onClick={handleExport}
+          >
+            <Download className="w-4 h-4" />
+            Export {chosen.length > 0 ? chosen.length : ""}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={!chosen.some(finished)}
+            onClick={() => setPendingDelete(chosen.filter(finished).map((s) => s.id))}
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </Button>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8">
+                <Checkbox
+                  checked={allChosen}
+                  onCheckedChange={(on) => setSelected(new Set(on === true ? visible.map((s) => s.id) : []))}
+                />
+              </TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>Devices</TableHead>
+              <TableHead>Started</TableHead>
+              <TableHead className="text-right">Duration</TableHead>
+              <TableHead className="text-right">IMUs</TableHead>
+              <TableHead className="text-right">Size</TableHead>
+              <TableHead>Tags</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map((s) => {
+              const editing = draft?.id === s.id;
+              return (
+                <TableRow key={s.id}>
+                  <TableCell>
+                    <Checkbox checked={selected.has(s.id)} onCheckedChange={(on) => select(s.id, on === true)} />
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {editing ? (
+                      <Input
+                        value={draft.name}
+                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                        onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                      />
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        {s.name}
+                        {s.status !== "complete" && <Badge variant="outline">{s.status}</Badge>}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{s.devices.map((d) => d.name).join(", ")}</TableCell>
+                  <TableCell className="text-muted-foreground whitespace-nowrap">
+                    {new Date(s.startedAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">{formatDuration(sessionDuration(s))}</TableCell>
+                  <TableCell className="text-right tabular-nums">{sessionIMUs(s)}</TableCell>
+                  <TableCell className="text-right tabular-nums whitespace-nowrap">{formatBytes(s.bytes)}</TableCell>
+                  <TableCell>
+                    {editing ? (
+                      <Input
+                        placeholder="comma, separated"
+                        value={draft.tags}
+                        onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+                        onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                      />
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {(s.tags ?? []).map((t) => (
+                          <Badge key={t} variant="secondary">{t}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      {editing ? (
+                        <>
+                          <Button size="sm" onClick={handleSave}>Save</Button>
+                          <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+                        </>
+                      ) : (
+                        <>
+                          <Button size="sm" variant="ghost" disabled={!finished(s)} onClick={() => handleOpen(s)} title="Open">
+                            <Play className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={!finished(s)}
+                            onClick={() => setDraft({ id: s.id, name: s.name, tags: (s.tags ?? []).join(", ") })}
+                            title="Rename and tag"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={!finished(s)}
+                            onClick={() => setPendingDelete([s.id])}
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {visible.length === 0 && (
+          <p className="py-12 text-center text-muted-foreground">
+            {sessions.length === 0 ? "No recordings yet. Press Record on the dashboard to capture one" : "No matching sessions"}
+          </p>
+        )}
+      </main>
+
+      <AlertDialog open={pendingDelete.length > 0} onOpenChange={(open) => !open && setPendingDelete([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete.length} session(s)?</AlertDialogTitle>
+            <AlertDialogDescription>The recorded samples are removed from this browser for good.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Sessions;
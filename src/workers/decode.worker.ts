@@ -0,0 +1,127 @@
+import { FrameDecoder } from "@/lib/frameDecoder";
+import { StreamTracker } from "@/lib/streamTracker";
+import { packSamples } from "@/lib/samplePacking";
+import type { IMUSample } from "@/lib/imuParser";
+import type { DecodeRequest, DecodeUpdate } from "./protocol";
+
+// Display rate: the UI gets at most this many updates per second per link
+const FLUSH_INTERVAL_MS = 1000 / 30;
+// Ring bound on undelivered samples (≈10 s of 12 IMUs at 200 Hz); the oldest go first
+const MAX_PENDING = 24_000;
+
+// What has accumulated for a link since its last flush
+const emptyBatch = () => ({
+  pending: [] as IMUSample[],
+  replies: [] as string[],
+  packets: 0,
+  lastPacket: null as Uint8Array | null,
+  dropped: 0,
+  sequenced: false,
+  timed: false,
+  dirty: false,
+});
+
+type Link = ReturnType<typeof emptyBatch> & {
+  linkId: string;
+  decoder: FrameDecoder;
+  tracker: StreamTracker;
+};
+
+const links = new Map<number, Link>();
+let flushTimer: ReturnType<typeof setInterval> | null = null;
+
+const post = (update: DecodeUpdate, transfer: Transferable[] = []) =>
+  (self as unknown as { postMessage(message: unknown, transfer: Transferable[]): void }).postMessage(update, transfer);
+
+function flush(channel: number, link: Link, final = false) {
+  if (!link.dirty && !final) return;
+  const samples = packSamples(link.pending);
+  const lastPacket = link.lastPacket?.slice().buffer ?? null;
+  post(
+    {
+      type: "batch",
+      channel,
+      samples,
+      replies: link.replies,
+      stats: link.decoder.stats,
+      loss: link.sequenced ? link.tracker.loss : undefined,
+      clock: link.timed ? { estimate: link.tracker.clockEstimate } : undefined,
+      packets: link.packets,
+      lastPacket,
+      dropped: link.dropped,
+      final,
+    },
+    lastPacket ? [samples.data.buffer, lastPacket] : [samples.data.buffer]
+  );
+  Object.assign(link, emptyBatch());
+}
+
+function flushAll() {
+  for (const [channel, link] of links) flush(channel, link);
+}
+
+function ensureTimer() {
+  if (links.size > 0 && !flushTimer) flushTimer = setInterval(flushAll, FLUSH_INTERVAL_MS);
+  if (links.size === 0 && flushTimer) {
+    clearInterval(flushTimer);
+    flushTimer = null;
+  }
+}
+
+function ingest(link: Link, bytes: Uint8Array, arrival: number) {
+  link.packets++;
+  link.lastPacket = bytes;
+  link.dirty = true;
+  const { samples, replies } = link.decoder.push(bytes);
+  link.replies.push(...replies);
+  if (samples.length === 0) return;
+
+  const { sequenced, timed } = link.tracker.observe(samples, link.linkId, arrival);
+  link.sequenced ||= sequenced;
+  link.timed ||= timed;
+  link.pending.push(...samples);
+  const excess = link.pending.length - MAX_PENDING;
+  if (excess > 0) {
+    link.pending.splice(0, excess);
+    link.dropped += excess;
+  }
+}
+
+self.onmessage = (ev: MessageEvent<DecodeRequest>) => {
+  const msg = ev.data;
+  if (msg.type === "open") {
+    links.set(msg.channel, {
+      linkId: msg.linkId,
+      decoder: new FrameDecoder(msg.decode),
+      tracker: new StreamTracker(),
+      ...emptyBatch(),
+    });
+    ensureTimer();
+    return;
+  }
+
+  const link = links.get(msg.channel);
+  if (!link) return;
+  try {
+    switch (msg.type) {
+      case "chunk":
+        ingest(link, new Uint8Array(msg.bytes), msg.arrival);
+        break;
+      case "outage":
+        link.tracker.markOutage();
+        break;
+      case "reset":
+        link.decoder.reset();
+        link.dirty = true;
+        break;
+      case "close":
+        link.decoder.reset();
+        flush(msg.channel, link, true);
+        links.delete(msg.channel);
+        ensureTimer();
+        break;
+    }
+  } catch (e) {
+    post({ type: "error", channel: msg.channel, message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,36 @@
+import type { DecodeOptions } from "@/lib/frameDecoder";
+import type { PackedSamples } from "@/lib/samplePacking";
+import type { FrameStats } from "@/lib/transports/types";
+import type { LossStats } from "@/lib/sequenceTracker";
+import type { ClockEstimate } from "@/lib/clockSync";
+
+// Messages between byte-stream transports (main thread) and the decode worker.
+// One worker serves every link. Each backend gets its own channel number, so a link
+// reopened under the same id never receives the old one's final batch.
+
+export type DecodeRequest =
+  | { type: "open"; channel: number; linkId: string; decode: DecodeOptions }
+  // raw bytes off the link; the buffer is transferred
+  | { type: "chunk"; channel: number; bytes: ArrayBuffer; arrival: number }
+  | { type: "outage"; channel: number }
+  | { type: "reset"; channel: number }
+  // flushes what is pending, answers with a final batch, then forgets the link
+  | { type: "close"; channel: number };
+
+export type DecodeUpdate =
+  | {
+      type: "batch";
+      channel: number;
+      samples: PackedSamples;
+      replies: string[];
+      stats: FrameStats;
+      // only present when the batch carried sequence counters / device timestamps
+      loss?: Record<number, LossStats>;
+      clock?: { estimate: ClockEstimate | null };
+      packets: number;
+      lastPacket: ArrayBuffer | null;
+      // samples discarded because the UI fell behind
+      dropped: number;
+      final: boolean;
+    }
+  | { type: "error"; channel: number; message: string };